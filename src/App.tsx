@@ -1,13 +1,53 @@
 
-import React, { useCallback, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import Papa from "papaparse";
-import { Loader2, FileUp, Settings, Play, Download, KeyRound, Trash2, Pause, Info, Database, FileSpreadsheet, Sparkles, CheckCircle2, XCircle } from "lucide-react";
+import { Loader2, Settings, Play, Download, KeyRound, Pause, Info, FileSpreadsheet, Sparkles, CheckCircle2, XCircle, RotateCcw } from "lucide-react";
 import { Button } from "./components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./components/ui/card";
 import { Input } from "./components/ui/input";
 import { Textarea } from "./components/ui/textarea";
 import { Label } from "./components/ui/label";
 import { Progress } from "./components/ui/progress";
+import { PROVIDERS, ProviderError, ProviderId, approxTokens, getProvider, hashString, isRetryable, isStrictCompatible, kindForStatus, mockFromSchema, parseRateLimit } from "./lib/providers";
+import { DEFAULT_OUTPUT_SCHEMA, OutputSchemaSettings, fieldsToSchema, formatSchemaErrors, validateJson } from "./lib/schema";
+import { DEFAULT_RUBRIC, Rubric, rubricColumns, rubricSchema, scoreRubric, withRubric } from "./lib/rubric";
+import { CONSENSUS_COLUMNS, ConsensusSettings, DEFAULT_CONSENSUS, aggregateSamples, fleissKappa } from "./lib/consensus";
+import { CalibrationSettings, computeCalibration } from "./lib/calibration";
+import { ExperimentSettings, PromptVariant, compareVariants, experimentExportRows, sampleIndices } from "./lib/experiments";
+import { BATCH_DISCOUNT, CostSettings, DEFAULT_PRICES, PriceTable, estimateCost, loadPrices, mergeEstimates, preflightEstimate, savePrices } from "./lib/pricing";
+import { OutputSchemaCard } from "./components/OutputSchemaCard";
+import { ExperimentsCard } from "./components/ExperimentsCard";
+import { CalibrationCard } from "./components/CalibrationCard";
+import { CostCard } from "./components/CostCard";
+import { LongInputCard } from "./components/LongInputCard";
+import { UploadCard } from "./components/UploadCard";
+import { ProjectCard } from "./components/ProjectCard";
+import { ExportCard } from "./components/ExportCard";
+import { DedupeCard } from "./components/DedupeCard";
+import { DEDUPE_COLUMNS, DEFAULT_DEDUPE, DedupeSettings, findDuplicates } from "./lib/dedupe";
+import { RedactionCard } from "./components/RedactionCard";
+import { CacheCard } from "./components/CacheCard";
+import { RankedRow, RankingCard } from "./components/RankingCard";
+import { ResultsExplorerCard } from "./components/ResultsExplorerCard";
+import { RowInspector } from "./components/RowInspector";
+import { ReviewCard } from "./components/ReviewCard";
+import { BatchCard } from "./components/BatchCard";
+import { BATCH_MAX_BYTES, BATCH_MAX_REQUESTS, applyBatchResults, batchConfig, batchCustomId, batchLimitWarnings, batchRequestFile, parseBatchResults } from "./lib/batch";
+import { REVIEW_COLUMNS, ReviewInput, ReviewRecord, ReviewSettings, applyReview, auditRows, loadReviewer, loadReviews, reviewColumns, reviewKey, reviewQueue, saveReview, saveReviewer } from "./lib/review";
+import { queryRows, summarizeResults } from "./lib/explorer";
+import { PairCall, RANK_COLUMNS, RankingSettings, rankColumnsOf, TournamentProgress, fitBradleyTerry, pairConfig, pairRow, rankingColumns, rankingStats, runTournament, swissPairs, tournamentCalls } from "./lib/ranking";
+import { CacheEntry, CacheSettings, addCacheStats, clearCache, deleteCacheEntry, idbResponseCache, importCacheEntries, listCacheEntries, parseCacheFile, summarizeCache, toCacheFile } from "./lib/responseCache";
+import { DEFAULT_REDACTION, RedactionSettings, createRedactor, previewRedaction, redactionLog, redactionTotals } from "./lib/redaction";
+import { ExportSettings, errorRows, exportTable, flattenOutput, reportHtml, resultsWorkbook, runMetadata, toCell, workbookBytes } from "./lib/exporters";
+import { DEFAULT_LONG_INPUT, LONG_INPUT_COLUMNS, LongInputSettings, isOversized, joinNotes, splitIntoChunks } from "./lib/chunking";
+import { LintIssue, lintTemplate, parseTemplate, renderTemplate } from "./lib/template";
+import { DataSource, decodeText, guessJoinKey, joinSources, parseJsonRows, readDataSource } from "./lib/importers";
+import { AdaptiveScheduler, SchedulerStats, backoffDelay } from "./lib/scheduler";
+import { ConsensusCard } from "./components/ConsensusCard";
+import { RubricCard } from "./components/RubricCard";
+import { callModels, deriveEvalColumns, duplicateReport, estimateStatesCost, evaluateRow, omitColumns, parseJsonLoose, promptContext, promptTemplate, renderRowPrompt, runRows } from "./lib/evaluate";
+import { DEFAULT_SETTINGS, Preset, ProjectSettings, loadPresets, missingColumns, parseProjectFile, runConfigFromSettings, savePresets, toProjectFile } from "./lib/project";
+import { RowState, RunConfig, RunRecord, deleteAllRuns, deleteRun, loadInterruptedRun, newRowState, rerunRowState, saveRowState, saveRun, summarizeRowStates, updateRunStatus } from "./lib/runStore";
 
 /**
  * React #321 hardening + JSON parsing of model output
@@ -20,8 +60,12 @@ import { Progress } from "./components/ui/progress";
  */
 
 // --- Utility helpers ---
-function downloadTextFile(filename: string, text: string) {
-  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+function downloadTextFile(filename: string, text: string, type = "text/plain;charset=utf-8") {
+  downloadFile(filename, text, type);
+}
+
+function downloadFile(filename: string, data: BlobPart, type: string) {
+  const blob = new Blob([data], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
@@ -30,84 +74,6 @@ function downloadTextFile(filename: string, text: string) {
   URL.revokeObjectURL(url);
 }
 
-function sleep(ms: number) { return new Promise(res => setTimeout(res, ms)); }
-
-function toCell(v: any): string {
-  try {
-    if (v === null || v === undefined) return "";
-    if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") return String(v);
-    return JSON.stringify(v);
-  } catch {
-    return String(v);
-  }
-}
-
-function stripCodeFences(s: string) {
-  let t = (s || "").trim();
-  if (t.startsWith("```")) {
-    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```\s*$/, "");
-  }
-  return t.trim();
-}
-
-function parseJsonLoose(s: string): { ok: true; value: any } | { ok: false; error: string } {
-  if (!s || !String(s).trim()) return { ok: false, error: "empty" } as const;
-  let t = stripCodeFences(String(s));
-  try {
-    return { ok: true, value: JSON.parse(t) } as const;
-  } catch (e1: any) {
-    try {
-      const start = t.indexOf("{");
-      const end = t.lastIndexOf("}");
-      if (start >= 0 && end > start) {
-        const slice = t.slice(start, end + 1);
-        return { ok: true, value: JSON.parse(slice) } as const;
-      }
-      return { ok: false, error: e1?.message || String(e1) } as const;
-    } catch (e2: any) {
-      return { ok: false, error: e2?.message || String(e2) } as const;
-    }
-  }
-}
-
-function renderTemplate(tpl: string, row: Record<string, any>) {
-  return tpl.replace(/\{\{\s*([^}]+)\s*\}\}/g, (_, key) => {
-    const k = String(key).trim();
-    if (k === "json") return JSON.stringify(row);
-    return row[k] != null ? String(row[k]) : "";
-  });
-}
-
-async function fetchOpenAIChat({ apiKey, model, systemPrompt, userPrompt, temperature }: any) {
-  const body = {
-    model,
-    messages: [
-      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
-      { role: "user", content: userPrompt }
-    ],
-    temperature: Number(temperature ?? 0.2),
-  } as any;
-
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify(body),
-  });
-  if (!res.ok) {
-    const t = await res.text();
-    throw new Error(`OpenAI API error ${res.status}: ${t}`);
-  }
-  const json = await res.json();
-  const content = json?.choices?.[0]?.message?.content ?? "";
-  const usage = json?.usage ?? {};
-  return { content, usage };
-}
-
-
-
 function guessTextColumn(keys: string[]) {
   if (!keys || keys.length === 0) return "";
   const lower = keys.map(k => (k || "").toLowerCase());
@@ -133,84 +99,132 @@ function guessTextColumn(keys: string[]) {
   return firstNonEmpty ?? keys[0];
 }
 
-function estimateOpenAIPrice(model: string, promptTokens: number, completionTokens: number) {
-  const pricePer1k: Record<string, { in: number; out: number }> = {
-    "gpt-4o": { in: 2.5, out: 10 },
-    "gpt-4o-mini": { in: 0.15, out: 0.6 },
-    "gpt-4.1-mini": { in: 0.2, out: 0.8 },
-    "gpt-3.5-turbo": { in: 0.5, out: 1.5 },
-  };
-  const p = pricePer1k[model] || pricePer1k["gpt-4o-mini"];
-  const promptUSD = (promptTokens / 1000) * p.in;
-  const completionUSD = (completionTokens / 1000) * p.out;
-  return { promptUSD, completionUSD, totalUSD: promptUSD + completionUSD };
-}
-
 export default function App() {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   // Core evaluator state
+  const [providerId, setProviderId] = useState<ProviderId>(DEFAULT_SETTINGS.providerId);
   const [apiKey, setApiKey] = useState("");
-  const [model, setModel] = useState("gpt-4o-mini");
-  const [temperature, setTemperature] = useState(0.2);
-  const [systemPrompt, setSystemPrompt] = useState("You are a careful evaluator. Return concise, structured results.");
-  const [userPrompt, setUserPrompt] = useState(
-    "Evaluate the following submission && return JSON with the schema:\\n{\\n  \\\"score\\\": integer 0-5,\\n  \\\"summary\\\": short summary,\\n  \\\"strengths\\\": array of strings,\\n  \\\"risks\\\": array of strings,\\n  \\\"decision\\\": \\\"Go\\\" or \\\"No-Go\\\"\\n}\\n\\nSubmission:\\n{{submission}}"
-  );
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_SETTINGS.baseUrl);
+  const [apiVersion, setApiVersion] = useState(DEFAULT_SETTINGS.apiVersion);
+  const [model, setModel] = useState(DEFAULT_SETTINGS.model);
+  const provider = getProvider(providerId);
+  const [temperature, setTemperature] = useState(DEFAULT_SETTINGS.temperature);
+  const [systemPrompt, setSystemPrompt] = useState(DEFAULT_SETTINGS.systemPrompt);
+  const [userPrompt, setUserPrompt] = useState(DEFAULT_SETTINGS.userPrompt);
 
   const [rows, setRows] = useState<any[]>([]);
+  const [sources, setSources] = useState<DataSource[]>([]);
+  const [unmatched, setUnmatched] = useState<number[]>([]);
   const [columns, setColumns] = useState<string[]>([]);
   const [textCol, setTextCol] = useState<string>("");
 
   const [status, setStatus] = useState<"idle" | "running" | "paused" | "done" | "error">("idle");
   const [progress, setProgress] = useState(0);
-  const [concurrency, setConcurrency] = useState(3);
-  const [maxRetries, setMaxRetries] = useState(2);
-  const [resultKey, setResultKey] = useState("evaluation");
-
-  const [costInfo, setCostInfo] = useState<{prompt: number; completion: number; total: number}>({prompt: 0, completion: 0, total: 0});
+  const [concurrency, setConcurrency] = useState(DEFAULT_SETTINGS.concurrency);
+  const [rpm, setRpm] = useState(DEFAULT_SETTINGS.rpm);
+  const [tpm, setTpm] = useState(DEFAULT_SETTINGS.tpm);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats | null>(null);
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_SETTINGS.maxRetries);
+  const [resultKey, setResultKey] = useState(DEFAULT_SETTINGS.resultKey);
+  const [outputSchema, setOutputSchema] = useState<OutputSchemaSettings>(DEFAULT_SETTINGS.outputSchema);
+  const [rubricEnabled, setRubricEnabled] = useState(DEFAULT_SETTINGS.rubricEnabled);
+  const [rubric, setRubric] = useState<Rubric>(DEFAULT_SETTINGS.rubric);
+  const [consensus, setConsensus] = useState<ConsensusSettings>(DEFAULT_SETTINGS.consensus);
+  const [longInput, setLongInput] = useState<LongInputSettings>(DEFAULT_SETTINGS.longInput);
+  const [dedupe, setDedupe] = useState<DedupeSettings>(DEFAULT_SETTINGS.dedupe);
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_SETTINGS.redaction);
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(DEFAULT_SETTINGS.cache);
+  const [cacheEntries, setCacheEntries] = useState<CacheEntry[] | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationSettings>(DEFAULT_SETTINGS.calibration);
+  const [experiment, setExperiment] = useState<ExperimentSettings>(DEFAULT_SETTINGS.experiment);
+  const [experimentRun, setExperimentRun] = useState<{ indices: number[]; variants: PromptVariant[]; states: Record<string, RowState[]>; progress: number; running: boolean } | null>(null);
+  const experimentCancelRef = useRef(false);
+  const [ranking, setRanking] = useState<RankingSettings>(DEFAULT_SETTINGS.ranking);
+  const [review, setReview] = useState<ReviewSettings>(DEFAULT_SETTINGS.review);
+  const [reviews, setReviews] = useState<Record<string, ReviewRecord>>({});
+  const [reviewer, setReviewer] = useState(loadReviewer);
+  const [rankingRun, setRankingRun] = useState<(TournamentProgress & { running: boolean }) | null>(null);
+  const rankingCancelRef = useRef(false);
+  const [consensusInfo, setConsensusInfo] = useState<{ kappa?: number; flagged: number } | null>(null);
+
+  const [prices, setPrices] = useState<PriceTable>(loadPrices);
+  const [costSettings, setCostSettings] = useState<CostSettings>(DEFAULT_SETTINGS.cost);
+  const [costInfo, setCostInfo] = useState<{prompt: number; completion: number; total: number; unpriced: string[]}>({prompt: 0, completion: 0, total: 0, unpriced: []});
   const [message, setMessage] = useState<string>("");
+  const [lintMaxTokens, setLintMaxTokens] = useState(DEFAULT_SETTINGS.lintMaxTokens);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_SETTINGS.export);
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
   const [errorLog, setErrorLog] = useState<Record<number, string>>({});
+  const [inspectRow, setInspectRow] = useState<number | null>(null);
   const cancelRef = useRef<{ cancel: boolean }>({ cancel: false });
+  const runRef = useRef<RunRecord | null>(null);
+  // Id of the run in runRef, so memos over the run's config update when another run takes its place.
+  const [runId, setRunId] = useState("");
+  const [rowStates, setRowStates] = useState<RowState[]>([]);
 
   const resetAll = useCallback(() => {
     setRows([]);
+    setSources([]);
     setColumns([]);
     setTextCol("");
     setStatus("idle");
     setProgress(0);
     setMessage("");
     setErrorLog({});
-    setCostInfo({ prompt: 0, completion: 0, total: 0 });
+    setCostInfo({ prompt: 0, completion: 0, total: 0, unpriced: [] });
+    setRowStates([]);
+    runRef.current = null;
+    setRunId("");
     if (fileInputRef.current) fileInputRef.current.value = "";
   }, []);
 
-  const handleFile = useCallback((file: File) => {
-    setMessage("");
+  // Loads the (joined) sources into the table the evaluator runs on.
+  const applySources = useCallback((next: DataSource[]) => {
+    setSources(next);
     setErrorLog({});
+    setRowStates([]);
+    runRef.current = null;
+    setRunId("");
     setStatus("idle");
     setProgress(0);
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (res: any) => {
-        const data = (res.data as any[]).filter(Boolean);
-        const keys = Object.keys(data[0] || {});
-        setRows(Array.isArray(data) ? data : []);
-        setColumns(keys);
-        setTextCol(guessTextColumn(keys));
-        setMessage(`Loaded ${data.length} rows from file.`);
-      },
-      error: (err: any) => setMessage(`CSV parse failed: ${err.message}`),
-    });
+    const joined = joinSources(next);
+    setUnmatched(joined.unmatched);
+    setRows(joined.rows);
+    setColumns(joined.columns);
+    setTextCol(prev => joined.columns.includes(prev) ? prev : guessTextColumn(joined.columns));
+    setMessage(next.length > 1
+      ? `Joined ${next.length} files: ${joined.rows.length} rows, ${joined.columns.length} columns.`
+      : `Loaded ${joined.rows.length} rows from file.`);
   }, []);
 
+  const handleFiles = useCallback(async (files: File[]) => {
+    setMessage("");
+    try {
+      const parsed: DataSource[] = [];
+      for (const f of files) {
+        try {
+          parsed.push(readDataSource(f.name, new Uint8Array(await f.arrayBuffer())));
+        } catch (e: any) {
+          throw new Error(`${f.name}: ${e?.message || e}`);
+        }
+      }
+      const key = parsed.length > 1 ? guessJoinKey(parsed) : "";
+      applySources(parsed.map(p => ({ ...p, key })));
+    } catch (e: any) {
+      setMessage(`Import failed: ${e?.message || e}`);
+    }
+  }, [applySources]);
+
   const loadSample = useCallback(() => {
     setStatus("idle");
     setProgress(0);
     setMessage("");
     setErrorLog({});
-    setCostInfo({ prompt: 0, completion: 0, total: 0 });
+    setCostInfo({ prompt: 0, completion: 0, total: 0, unpriced: [] });
+    setRowStates([]);
+    runRef.current = null;
+    setRunId("");
     if (fileInputRef.current) fileInputRef.current.value = "";
 
     const sample = `id,submission,author
@@ -218,6 +232,7 @@ export default function App() {
 2,A blockchain traceability platform for transparency in agricultural supply chains.,Team B
 3,An AI-based SaaS to optimize energy consumption in the textile industry.,Team C`;
 
+    setSources([]);
     try {
       const parsed = Papa.parse(sample, { header: true, skipEmptyLines: true });
       const data = (parsed.data as any[]).filter(Boolean);
@@ -232,143 +247,756 @@ export default function App() {
     }
   }, []);
 
+  const selectProvider = useCallback((id: ProviderId) => {
+    const p = getProvider(id);
+    setProviderId(id);
+    setModel(p.models[0] ?? "");
+    setBaseUrl(p.defaultBaseUrl ?? "");
+  }, []);
+
+  const projectSettings = useMemo((): ProjectSettings => ({
+    providerId, baseUrl, apiVersion, model, temperature, systemPrompt, userPrompt, textCol, concurrency, rpm, tpm, maxRetries, resultKey,
+    outputSchema, rubricEnabled, rubric, consensus, longInput, dedupe, redaction, cache: cacheSettings, calibration, experiment, ranking, review, cost: costSettings, lintMaxTokens, export: exportSettings,
+  }), [providerId, baseUrl, apiVersion, model, temperature, systemPrompt, userPrompt, textCol, concurrency, rpm, tpm, maxRetries, resultKey,
+    outputSchema, rubricEnabled, rubric, consensus, longInput, dedupe, redaction, cacheSettings, calibration, experiment, ranking, review, costSettings, lintMaxTokens, exportSettings]);
+
+  // Loads a preset or project file; the API key and the data stay as they are.
+  const applySettings = useCallback((label: string, s: ProjectSettings) => {
+    setProviderId(s.providerId);
+    setBaseUrl(s.baseUrl);
+    setApiVersion(s.apiVersion);
+    setModel(s.model);
+    setTemperature(s.temperature);
+    setSystemPrompt(s.systemPrompt);
+    setUserPrompt(s.userPrompt);
+    setTextCol(s.textCol);
+    setConcurrency(s.concurrency);
+    setRpm(s.rpm);
+    setTpm(s.tpm);
+    setMaxRetries(s.maxRetries);
+    setResultKey(s.resultKey);
+    setOutputSchema(s.outputSchema);
+    setRubricEnabled(s.rubricEnabled);
+    setRubric(s.rubric);
+    setConsensus(s.consensus);
+    setLongInput(s.longInput);
+    setDedupe(s.dedupe);
+    setRedaction(s.redaction);
+    setCacheSettings(s.cache);
+    setCalibration(s.calibration);
+    setExperiment(s.experiment);
+    setRanking(s.ranking);
+    setReview(s.review);
+    setCostSettings(s.cost);
+    setLintMaxTokens(s.lintMaxTokens);
+    setExportSettings(s.export);
+    const missing = columns.length ? missingColumns(s, columns) : [];
+    setMessage(`Loaded ${label}.${missing.length ? ` Columns not in the data: ${missing.join(", ")}.` : ""}`);
+  }, [columns]);
+
+  const savePreset = useCallback((name: string) => {
+    const next = [...presets.filter(p => p.name !== name), { name, savedAt: new Date().toISOString(), settings: projectSettings }]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setPresets(next);
+    try {
+      savePresets(next);
+      setMessage(`Saved preset "${name}".`);
+    } catch (e: any) {
+      setMessage(`Could not save the preset in this browser: ${e?.message || e}`);
+    }
+  }, [presets, projectSettings]);
+
+  const deletePreset = useCallback((name: string) => {
+    const next = presets.filter(p => p.name !== name);
+    setPresets(next);
+    savePresets(next);
+  }, [presets]);
+
+  const exportProject = useCallback((name: string) => {
+    const file = toProjectFile(name, projectSettings);
+    downloadTextFile(`${name.replace(/[^\w.-]+/g, "_") || "project"}.project.json`, JSON.stringify(file, null, 2));
+  }, [projectSettings]);
+
+  const importProject = useCallback(async (file: File) => {
+    try {
+      const project = parseProjectFile(await file.text());
+      applySettings(`project "${project.name}"`, project.settings);
+    } catch (e: any) {
+      setMessage(`Import failed: ${e?.message || e}`);
+    }
+  }, [applySettings]);
+
+  const cacheContext = useMemo(() => cacheSettings.enabled ? { store: idbResponseCache, read: !cacheSettings.bypass } : null, [cacheSettings]);
+  const refreshCache = useCallback(() => { listCacheEntries().then(setCacheEntries).catch(() => setCacheEntries(null)); }, []);
+  useEffect(() => { refreshCache(); }, [refreshCache]);
+
+  const exportCache = useCallback(async () => {
+    try {
+      const entries = await listCacheEntries();
+      downloadTextFile(`response-cache-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(toCacheFile(entries)));
+    } catch (e: any) {
+      setMessage(`Cache export failed: ${e?.message || e}`);
+    }
+  }, []);
+
+  const importCache = useCallback(async (file: File) => {
+    try {
+      const n = await importCacheEntries(parseCacheFile(await file.text()));
+      setMessage(`Imported ${n} cached response(s).`);
+    } catch (e: any) {
+      setMessage(`Cache import failed: ${e?.message || e}`);
+    }
+    refreshCache();
+  }, [refreshCache]);
+
   const totalCount = rows.length;
-  const disabled = status === "running";
+  const disabled = status === "running" || !!experimentRun?.running || !!rankingRun?.running;
 
-  const useConcurrentQueue = (limit: number) => {
-    const running = useRef(0);
-    const queue = useRef<any[]>([]);
+  const newScheduler = useCallback(
+    () => new AdaptiveScheduler({ maxConcurrency: Math.max(1, Number(concurrency)), rpm: Math.max(0, Number(rpm)), tpm: Math.max(0, Number(tpm)) }, setSchedulerStats),
+    [concurrency, rpm, tpm]);
 
-    const run = useCallback(async (task: () => Promise<any>) => {
-      if (running.current >= limit) {
-        await new Promise<void>((resolve) => queue.current.push(resolve));
-      }
-      running.current++;
-      try {
-        const result = await task();
-        return result;
-      } finally {
-        running.current--;
-        const next = queue.current.shift();
-        if (next) next();
-      }
-    }, [limit]);
+  const [recoverable, setRecoverable] = useState<{ run: RunRecord; states: RowState[] } | null>(null);
 
-    return run;
-  };
+  useEffect(() => {
+    loadInterruptedRun().then(setRecoverable).catch(() => setRecoverable(null));
+  }, []);
 
-  const runConcurrent = useConcurrentQueue(Math.max(1, Number(concurrency)));
+  useEffect(() => { savePrices(prices); }, [prices]);
 
-  const handleStart = useCallback(async () => {
-    if (!apiKey) { setMessage("Please provide your OpenAI API Key."); return; }
-    if (!rows.length) { setMessage("Please load a CSV first."); return; }
+  useEffect(() => {
+    loadReviews().then(list => setReviews(Object.fromEntries(list.map(r => [r.rowKey, r])))).catch(() => setReviews({}));
+  }, []);
+
+  useEffect(() => { saveReviewer(reviewer); }, [reviewer]);
 
-    const effectivePrompt = userPrompt;
+  // Runs every row that is not yet done/failed (or just the rows in `only`); results are persisted row by row.
+  const executeRun = useCallback(async (run: RunRecord, states: RowState[], only?: number[]) => {
+    const cfg = run.config;
+    const total = run.sourceRows.length;
+    const finished = () => states.filter(s => s.status === "done" || s.status === "failed").length;
+
+    const budget = costSettings.budgetUSD;
+    const costSoFar = () => estimateStatesCost(states, cfg.model, prices);
+    let budgetHit = false;
+
+    runRef.current = run;
+    setRunId(run.id);
+    if (budget > 0 && costSoFar().totalUSD >= budget) {
+      setMessage(`The budget of $${budget.toFixed(2)} is already used up by this run. Raise it to continue.`);
+      return;
+    }
     cancelRef.current.cancel = false;
     setStatus("running");
-    setProgress(0);
+    setProgress(Math.round((finished() / Math.max(1, total)) * 100));
     setMessage("");
-    setErrorLog({});
+    run.status = "running";
+    await saveRun(run).catch(() => {});
+
+    const commit = (idx: number, state: RowState) => {
+      states[idx] = state;
+      setRowStates([...states]);
+      if (state.result) {
+        const result = state.result;
+        // rank.* columns come from a separate tournament and outlive a re-run of the row.
+        setRows(prev => { const next = [...prev]; next[idx] = { ...result, ...rankColumnsOf(prev[idx]) }; return next; });
+      }
+      saveRowState(run.id, idx, state).catch(() => {});
+      const pricing = costSoFar();
+      setCostInfo({ prompt: pricing.promptUSD, completion: pricing.completionUSD, total: pricing.totalUSD, unpriced: pricing.unpriced });
+      if (budget > 0 && pricing.totalUSD >= budget && !cancelRef.current.cancel) {
+        budgetHit = true;
+        cancelRef.current.cancel = true;
+      }
+    };
+
+    await runRows({
+      cfg,
+      rows: run.sourceRows,
+      states,
+      only,
+      apiKey,
+      scheduler: newScheduler(),
+      completionTokens: costSettings.completionTokens,
+      // A re-run asks the provider again; the cached answer would only reproduce the same output.
+      cache: only && cacheContext ? { ...cacheContext, read: false } : cacheContext,
+      isCancelled: () => cancelRef.current.cancel,
+      onStart: (idx) => commit(idx, { ...states[idx], status: "running" }),
+      onRow: (idx, state) => {
+        commit(idx, state);
+        setProgress(Math.round((finished() / Math.max(1, total)) * 100));
+      },
+      onError: (idx, msg) => setErrorLog(prev => ({ ...prev, [idx]: msg })),
+    });
 
+    const pricing = costSoFar();
+    setCostInfo({ prompt: pricing.promptUSD, completion: pricing.completionUSD, total: pricing.totalUSD, unpriced: pricing.unpriced });
+    if (cfg.consensus) {
+      const decisions = states.map(s => (s.samples || []).filter(x => x.valid && x.evals["eval.decision"] != null).map(x => String(x.evals["eval.decision"])));
+      setConsensusInfo({
+        kappa: fleissKappa(decisions),
+        flagged: states.filter(s => s.result?.["consensus.review"] === true).length,
+      });
+    } else {
+      setConsensusInfo(null);
+    }
 
-    let completed = 0;
-    let promptTokens = 0;
-    let completionTokens = 0;
+    const counts = summarizeRowStates(states);
+    const again = only ? only.filter(i => states[i].status === "failed" || states[i].result?.["eval.valid"] === false).length : 0;
+    const rerunNote = only ? `Re-ran ${only.length} row(s)${again ? ` (${again} still failed or invalid)` : ""}. ` : "";
+    if (counts.pending === 0 && counts.running === 0) {
+      await updateRunStatus(run.id, "done").catch(() => {});
+      setStatus("done");
+      setMessage(only
+        ? `${rerunNote}Estimated cost of the run ~$${pricing.totalUSD.toFixed(4)} USD`
+        : `Done: processed ${total} rows${counts.failed ? ` (${counts.failed} failed)` : ""}. Estimated cost ~$${pricing.totalUSD.toFixed(4)} USD`);
+    } else {
+      await updateRunStatus(run.id, "paused").catch(() => {});
+      setStatus("paused");
+      setMessage(rerunNote + (budgetHit
+        ? `Budget of $${budget.toFixed(2)} reached (~$${pricing.totalUSD.toFixed(4)} spent): ${counts.done + counts.failed}/${total} rows finished, ${counts.pending} left. Raise the budget and press Resume to continue.`
+        : `Paused: ${counts.done + counts.failed}/${total} rows finished, ${counts.pending} left. Press Resume to continue.`));
+    }
+    refreshCache();
+  }, [apiKey, newScheduler, costSettings, prices, cacheContext, refreshCache]);
+
+  // Only the loaded columns are input; result columns of an earlier run are dropped.
+  const sourceRowsOf = useCallback(() => rows.map(r => Object.fromEntries(columns.map(c => [c, r?.[c]]))), [rows, columns]);
+
+  // Human reviews of the loaded rows (by source row hash) && the table with their review.* / final.* columns merged in.
+  const rowKeys = useMemo(() => sourceRowsOf().map(reviewKey), [sourceRowsOf]);
+  const rowReviews = useMemo(() => rowKeys.map(k => reviews[k]), [rowKeys, reviews]);
+  const reviewed = rowReviews.some(Boolean);
+  const tableRows = useMemo(
+    () => reviewed ? rows.map((r, i) => ({ ...r, ...reviewColumns(rowReviews[i], r) })) : rows,
+    [rows, rowReviews, reviewed]);
+  const reviewAudit = useMemo(() => auditRows(Object.values(reviews).filter(r => rowKeys.includes(r.rowKey))), [reviews, rowKeys]);
+  const reviewList = useMemo(() => reviewQueue(rows, resultKey, review), [rows, resultKey, review]);
+
+  const handleReview = useCallback((index: number, input: ReviewInput) => {
+    const key = rowKeys[index];
+    try {
+      const rec = applyReview(reviews[key], input, { rowKey: key, row: index + 1, reviewer, model: rows[index] || {} });
+      setReviews(prev => ({ ...prev, [key]: rec }));
+      saveReview(rec).catch((e: any) => setMessage(`Could not store the review in this browser: ${e?.message || e}`));
+      return "";
+    } catch (e: any) {
+      return String(e?.message || e);
+    }
+  }, [rowKeys, reviews, reviewer, rows]);
 
-    const updatedRows = [...rows];
+  function handleExportAudit() {
+    const fields = ["at", "reviewer", "row", "row_key", "action", "changes", "comment"];
+    downloadTextFile("review-audit.csv", Papa.unparse({ fields, data: reviewAudit.map(e => fields.map(f => (e as any)[f] ?? "")) }));
+  }
 
-    await Promise.all(updatedRows.map((row, idx) => runConcurrent(async () => {
-      const submitText = textCol ? String(row[textCol] ?? "") : JSON.stringify(row);
-      const userTpl = renderTemplate(effectivePrompt, { ...row, submission: submitText });
+  const templateLint = useMemo((): LintIssue[] => {
+    const hidden = [calibration.goldScoreCol, calibration.goldDecisionCol].filter(Boolean);
+    const promptCfg = { userPrompt, textCol, rubric: rubricEnabled ? rubric : null, hiddenColumns: hidden };
+    const tpl = promptTemplate(promptCfg);
+    const issues = lintTemplate(tpl, columns.filter(c => !hidden.includes(c)), sourceRowsOf().map(r => promptContext(promptCfg, r)), {
+      builtins: ["submission"],
+      hidden,
+      render: (ctx) => `${systemPrompt}\n${renderTemplate(tpl, ctx)}`,
+      countTokens: approxTokens,
+      maxTokens: lintMaxTokens,
+    });
+    if (textCol && columns.length && !columns.includes(textCol)) issues.unshift({ level: "error", message: `Submission column "${textCol}" is not in the data.` });
+    return issues;
+  }, [userPrompt, systemPrompt, textCol, rubricEnabled, rubric, calibration, columns, sourceRowsOf, lintMaxTokens]);
+
+  // Validates the current settings and snapshots them into a run config; returns an error message instead when invalid.
+  const projectMissing = useMemo(() => missingColumns(projectSettings, columns), [projectSettings, columns]);
+
+  const buildRunConfig = useCallback((): RunConfig | string => {
+    // Without a key a run can still replay cached responses.
+    if (provider.needsKey && !apiKey && !cacheContext?.read) return `Please provide your ${provider.keyLabel || `${provider.label} API Key`}.`;
+    if (provider.needsBaseUrl && !baseUrl) return `Please provide the ${provider.label} endpoint URL.`;
+    if (!rows.length) return "Please load a dataset first.";
+    if (templateLint.some(i => i.level === "error")) return "Fix the prompt template problems listed next to the preview first.";
+    return runConfigFromSettings(projectSettings);
+  }, [provider, apiKey, baseUrl, rows, templateLint, projectSettings, cacheContext]);
+
+  // The Batch API request file the current settings would write, with its cost at batch && at live prices.
+  const batchPlan = useMemo(() => {
+    if (!rows.length) return null;
+    const base = runConfigFromSettings(projectSettings);
+    if (typeof base === "string") return { error: base };
+    const batch = batchConfig(base);
+    if (typeof batch === "string") return { error: batch };
+    const { cfg } = batch;
+    try {
+      const est = preflightEstimate(sourceRowsOf().map(r => `${cfg.systemPrompt}\n${renderRowPrompt(cfg, r)}`), [cfg.model], costSettings.completionTokens, prices);
+      const notes = [...batchLimitWarnings(est.rows), ...batch.notes];
+      return { cfg, notes, requests: est.rows, listUSD: est.totalUSD, batchUSD: est.totalUSD * BATCH_DISCOUNT, unpriced: est.unpriced };
+    } catch (e: any) {
+      return { error: String(e?.message || e) };
+    }
+  }, [rows.length, projectSettings, sourceRowsOf, costSettings.completionTokens, prices]);
 
-      let attempts = 0;
-      while (attempts <= maxRetries && !cancelRef.current.cancel) {
-        try {
-          const { content, usage } = await fetchOpenAIChat({
-            apiKey,
-            model,
-            systemPrompt,
-            userPrompt: userTpl,
-            temperature,
-          });
-
-          // Always store raw output
-          const raw = content ?? "";
-          const parsed = parseJsonLoose(raw);
-          const augmented: any = { ...row, [resultKey]: raw };
-          if (parsed.ok) {
-            augmented["eval.valid"] = true;
-            const val = parsed.value as any;
-            augmented[`${resultKey}_json`] = JSON.stringify(val);
-            if (val && typeof val === 'object') {
-              if (val.score !== undefined) augmented["eval.score"] = val.score;
-              if (val.decision !== undefined) augmented["eval.decision"] = val.decision;
-            }
-          } else {
-            augmented["eval.valid"] = false;
-            augmented[`${resultKey}_json`] = "";
-          }
-          updatedRows[idx] = augmented;
-
-          promptTokens += Number(usage?.prompt_tokens || 0);
-          completionTokens += Number(usage?.completion_tokens || 0);
-          break;
-        } catch (e: any) {
-          attempts++;
-          setErrorLog(prev => ({ ...prev, [idx]: e?.message || String(e) }));
-          if (attempts > maxRetries) {
-            updatedRows[idx] = { ...row, [resultKey]: `ERROR: ${e?.message || e}`, "eval.valid": false };
-            break;
-          }
-          await sleep(500 * attempts);
-        }
+  const handleStart = useCallback(async () => {
+    const config = buildRunConfig();
+    if (typeof config === "string") { setMessage(config); return; }
+
+    const sourceRows = sourceRowsOf();
+    const run: RunRecord = {
+      id: `run-${Date.now()}`,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      status: "running",
+      config,
+      columns,
+      sourceRows,
+    };
+    const states = sourceRows.map(() => newRowState());
+    setErrorLog({});
+    setRecoverable(null);
+    setRows(sourceRows);
+    setRowStates(states);
+    // Only one run is kept for recovery.
+    await deleteAllRuns().catch(() => {});
+    await executeRun(run, states);
+  }, [buildRunConfig, sourceRowsOf, columns, executeRun]);
+
+  // Writes the Batch API request file && keeps a paused run for it, so the results can be imported after a reload.
+  const handleDownloadBatch = useCallback(async () => {
+    if (!batchPlan || "error" in batchPlan) { setMessage(batchPlan?.error || "Please load a dataset first."); return; }
+    if (templateLint.some(i => i.level === "error")) { setMessage("Fix the prompt template problems listed next to the preview first."); return; }
+    const sourceRows = sourceRowsOf();
+    const run: RunRecord = {
+      id: `batch-${Date.now()}`,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      status: "paused",
+      config: batchPlan.cfg,
+      columns,
+      sourceRows,
+    };
+    const file = batchRequestFile(run.config, sourceRows);
+    const warnings = batchLimitWarnings(sourceRows.length, new Blob([file]).size);
+    downloadTextFile(`${run.id}.jsonl`, file, "application/jsonl");
+    await deleteAllRuns().catch(() => {});
+    await saveRun(run).catch(() => {});
+    runRef.current = run;
+    setRunId(run.id);
+    setErrorLog({});
+    setRecoverable(null);
+    setRows(sourceRows);
+    setRowStates(sourceRows.map(() => newRowState()));
+    setCostInfo({ prompt: 0, completion: 0, total: 0, unpriced: [] });
+    setProgress(0);
+    setStatus("paused");
+    setMessage(`Wrote ${sourceRows.length} request(s) to ${run.id}.jsonl. Create a batch from it with the ${run.config.model} model, then import its output and error files in the Batch API card.${warnings.length ? ` ${warnings.join(" ")}` : ""}`);
+  }, [batchPlan, templateLint, sourceRowsOf, columns]);
+
+  const handleImportBatch = useCallback(async (files: File[]) => {
+    const run = runRef.current;
+    if (!run?.id.startsWith("batch-")) { setMessage("Download the batch file first (or recover its run) so the results can be matched to its rows."); return; }
+    const results: ReturnType<typeof parseBatchResults>["results"] = [];
+    const invalid: string[] = [];
+    for (const f of files) {
+      const parsed = parseBatchResults(await f.text());
+      results.push(...parsed.results);
+      if (parsed.invalidLines.length) invalid.push(`${f.name} line(s) ${parsed.invalidLines.slice(0, 5).join(", ")}${parsed.invalidLines.length > 5 ? ", ..." : ""}`);
+    }
+    const skipped = invalid.length ? ` Skipped unreadable ${invalid.join("; ")}.` : "";
+    if (!results.length) { setMessage(`No batch results found in ${files.map(f => f.name).join(", ")}.${skipped}`); return; }
+
+    const merged = applyBatchResults(run.config, run.sourceRows, rowStates, results);
+    const states = merged.states;
+    const updated = new Set(merged.updated);
+    setRowStates(states);
+    setRows(prev => prev.map((r, i) => updated.has(i) && states[i].result ? { ...states[i].result, ...rankColumnsOf(r) } : r));
+    setErrorLog(prev => {
+      const next = { ...prev };
+      for (const i of merged.updated) {
+        if (states[i].error) next[i] = states[i].error!;
+        else delete next[i];
       }
+      return next;
+    });
+    for (const i of merged.updated) saveRowState(run.id, i, states[i]).catch(() => {});
+    const pricing = estimateStatesCost(states, run.config.model, prices);
+    setCostInfo({ prompt: pricing.promptUSD, completion: pricing.completionUSD, total: pricing.totalUSD, unpriced: pricing.unpriced });
+    const counts = summarizeRowStates(states);
+    setProgress(Math.round(((counts.done + counts.failed) / Math.max(1, states.length)) * 100));
+    const finished = counts.pending === 0 && counts.running === 0;
+    await updateRunStatus(run.id, finished ? "done" : "paused").catch(() => {});
+    setStatus(finished ? "done" : "paused");
+    const failed = merged.updated.filter(i => states[i].status === "failed").length;
+    setMessage(`Imported ${merged.updated.length} batch result(s)${failed ? ` (${failed} failed)` : ""}`
+      + `${merged.unknown.length ? `; ${merged.unknown.length} custom_id(s) do not belong to this batch` : ""}. `
+      + `${finished ? `All ${states.length} rows have a result.` : `${counts.pending} row(s) still pending.`} Estimated cost ~$${pricing.totalUSD.toFixed(4)} USD.${skipped}`);
+  }, [rowStates, prices]);
+
+  // Runs every variant over the same (sampled) rows; results stay out of the main table.
+  const handleRunExperiment = useCallback(async () => {
+    const config = buildRunConfig();
+    if (typeof config === "string") { setMessage(config); return; }
+    const variants = experiment.variants;
+    if (variants.length < 2) { setMessage("Add at least two variants."); return; }
+    for (const v of variants) {
+      try { parseTemplate(promptTemplate({ ...config, userPrompt: v.userPrompt })); } catch (e: any) { setMessage(`Variant "${v.name}": ${e?.message || e}`); return; }
+    }
 
-      completed++;
-      setProgress(Math.round((completed / Math.max(1, totalCount)) * 100));
-    })));
+    const sourceRows = sourceRowsOf();
+    const indices = sampleIndices(sourceRows.length, experiment.sampleSize, experiment.seed);
+    const states: Record<string, RowState[]> = Object.fromEntries(variants.map(v => [v.id, indices.map(() => newRowState())]));
+    const total = variants.length * indices.length;
+    let finished = 0;
+    const publish = () => setExperimentRun({ indices, variants, states: { ...states }, progress: Math.round((finished / Math.max(1, total)) * 100), running: finished < total && !experimentCancelRef.current });
+
+    experimentCancelRef.current = false;
+    publish();
+    const scheduler = newScheduler();
+    await Promise.all(variants.flatMap(v => {
+      const cfg: RunConfig = {
+        ...config,
+        systemPrompt: v.systemPrompt,
+        userPrompt: v.userPrompt,
+        model: v.model || config.model,
+        temperature: v.temperature ?? config.temperature,
+      };
+      return indices.map((rowIdx, i) => scheduler.run(async () => {
+        if (experimentCancelRef.current) return;
+        states[v.id][i] = await evaluateRow(cfg, sourceRows[rowIdx], states[v.id][i], {
+          apiKey,
+          isCancelled: () => experimentCancelRef.current,
+          onError: () => {},
+          scheduler,
+          completionTokens: costSettings.completionTokens,
+          cache: cacheContext,
+        });
+        finished++;
+        publish();
+      }));
+    }));
+    setExperimentRun(prev => prev && { ...prev, running: false });
+    setMessage(experimentCancelRef.current ? "Experiment stopped." : `Experiment done: ${variants.length} variants × ${indices.length} rows.`);
+    refreshCache();
+  }, [buildRunConfig, sourceRowsOf, experiment, newScheduler, apiKey, costSettings.completionTokens, cacheContext, refreshCache]);
+
+  const experimentStats = useMemo(() => {
+    if (!experimentRun) return null;
+    const results = Object.fromEntries(experimentRun.variants.map(v => [v.id, experimentRun.states[v.id].map(s => s.status === "done" || s.status === "failed" ? s.result : undefined)]));
+    const costs = Object.fromEntries(experimentRun.variants.map(v => [v.id, estimateStatesCost(experimentRun.states[v.id], v.model || model, prices).totalUSD]));
+    return { results, stats: compareVariants(experimentRun.variants, results, costs) };
+  }, [experimentRun, model, prices]);
+
+  function handleExportExperiment() {
+    if (!experimentRun || !experimentStats) return;
+    const data = experimentExportRows(experimentRun.indices, sourceRowsOf(), experimentRun.variants, experimentStats.results);
+    downloadTextFile("experiment.csv", Papa.unparse(data.map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [k, toCell(v)])))));
+  }
 
-    if (!cancelRef.current.cancel) {
-      setRows(updatedRows);
-      const pricing = estimateOpenAIPrice(model, promptTokens, completionTokens);
-      setCostInfo({ prompt: pricing.promptUSD, completion: pricing.completionUSD, total: pricing.totalUSD });
-      setStatus("done");
-      setMessage(`Done: processed ${totalCount} rows. Estimated cost ~$${pricing.totalUSD.toFixed(4)} USD`);
-    } else {
-      setStatus("paused");
-      setMessage("Paused.");
+  // Swiss tournament over all rows; the fitted rank.* columns are merged into the table when it ends (or is stopped).
+  const handleRunRanking = useCallback(async () => {
+    const config = buildRunConfig();
+    if (typeof config === "string") { setMessage(config); return; }
+    try { parseTemplate(ranking.prompt); } catch (e: any) { setMessage(`Comparison prompt: ${e?.message || e}`); return; }
+
+    const sourceRows = sourceRowsOf();
+    const seeds = rows.map(r => { const n = Number(r?.["eval.score"]); return r?.["eval.score"] === "" || r?.["eval.score"] == null || !Number.isFinite(n) ? undefined : n; });
+    rankingCancelRef.current = false;
+    setRankingRun({ round: 0, rounds: 0, calls: [], states: [], running: true });
+    const result = await runTournament({
+      cfg: config,
+      settings: ranking,
+      rows: sourceRows,
+      seeds,
+      apiKey,
+      isCancelled: () => rankingCancelRef.current,
+      onError: () => {},
+      scheduler: newScheduler(),
+      completionTokens: costSettings.completionTokens,
+      cache: cacheContext,
+      onProgress: (p) => setRankingRun({ ...p, running: true }),
+    });
+    setRankingRun({ ...result, running: false });
+    const cols = rankingColumns(sourceRows.length, result.calls);
+    setRows(prev => prev.map((r, i) => ({ ...r, ...cols[i] })));
+    setMessage(`${rankingCancelRef.current ? "Ranking stopped" : "Ranking done"}: ${result.calls.length} comparisons in ${result.round} round(s); rank.elo and rank.position added to the table.`);
+    refreshCache();
+  }, [buildRunConfig, ranking, sourceRowsOf, rows, apiKey, newScheduler, costSettings.completionTokens, cacheContext, refreshCache]);
+
+  const rankingInfo = useMemo(() => {
+    if (!rankingRun) return null;
+    const n = rows.length;
+    const cols = rankingColumns(n, rankingRun.calls);
+    const label = (r: any) => String((exportSettings.titleCol && r?.[exportSettings.titleCol]) || (textCol && r?.[textCol]) || "").replace(/\s+/g, " ").slice(0, 100);
+    const top: RankedRow[] = cols
+      .map((c, i) => ({ row: i, label: label(rows[i]), elo: c["rank.elo"], position: c["rank.position"], wins: c["rank.wins"], comparisons: c["rank.comparisons"], score: rows[i]?.["eval.score"] }))
+      .sort((a, b) => a.position - b.position)
+      .slice(0, 20);
+    return { top, stats: rankingStats(rankingRun.calls), costUSD: estimateStatesCost(rankingRun.states, model, prices).totalUSD };
+  }, [rankingRun, rows, exportSettings.titleCol, textCol, model, prices]);
+
+  // Comparison prompts of a few neighbouring pairs, scaled to the number of calls.
+  const rankingEstimate = useMemo(() => {
+    const config = rows.length >= 2 && model ? runConfigFromSettings(projectSettings) : null;
+    if (!config || typeof config === "string") return null;
+    try {
+      const cfg = pairConfig(config, ranking);
+      const source = sourceRowsOf();
+      const sample = Array.from({ length: Math.min(10, Math.floor(source.length / 2)) }, (_, i) => renderTemplate(cfg.userPrompt, pairRow(config, source[2 * i], source[2 * i + 1])));
+      const calls = tournamentCalls(ranking, source.length);
+      const est = preflightEstimate(sample, [model], costSettings.completionTokens, prices);
+      return est.unpriced.length ? null : est.totalUSD / Math.max(1, sample.length) * calls;
+    } catch {
+      return null;
     }
-  }, [apiKey, rows, userPrompt, model, systemPrompt, temperature, concurrency, maxRetries, resultKey, textCol, totalCount]);
+  }, [rows.length, model, projectSettings, ranking, sourceRowsOf, costSettings.completionTokens, prices]);
+
+  function handleExportRanking() {
+    if (!rankingRun) return;
+    const data = rankingRun.calls.map(c => ({ round: c.round, row_a: c.first + 1, row_b: c.second + 1, winner: c.verdict ?? "" }));
+    downloadTextFile("comparisons.csv", Papa.unparse(data));
+  }
+
+  const handleResume = useCallback(async () => {
+    const run = runRef.current;
+    if (!run) { setMessage("Nothing to resume."); return; }
+    const p = getProvider(run.config.providerId);
+    if (p.needsKey && !apiKey && !cacheContext?.read) { setMessage(`Please provide your ${p.keyLabel || `${p.label} API Key`} to resume.`); return; }
+    await executeRun(run, [...rowStates]);
+  }, [apiKey, rowStates, executeRun, cacheContext]);
+
+  // Evaluates just `indices` again with the settings of the current run; their earlier attempts stay in the history.
+  const handleRerun = useCallback(async (indices: number[]) => {
+    const run = runRef.current;
+    if (!run) { setMessage("Start a run first; re-runs use the settings it was started with."); return; }
+    if (!indices.length) { setMessage("No failed or invalid rows to re-run."); return; }
+    const p = getProvider(run.config.providerId);
+    if (p.needsKey && !apiKey) { setMessage(`Please provide your ${p.keyLabel || `${p.label} API Key`} to re-run rows.`); return; }
+    const selected = new Set(indices);
+    const states = rowStates.map((s, i) => selected.has(i) ? rerunRowState(s) : s);
+    setErrorLog(prev => Object.fromEntries(Object.entries(prev).filter(([i]) => !selected.has(Number(i)))));
+    await executeRun(run, states, indices);
+  }, [apiKey, rowStates, executeRun]);
+
+  // The prompts of the inspected row, rendered with the run's settings (or the current ones before a run).
+  const inspectedPrompts = useMemo((): { system: string; user: string } | { error: string } | null => {
+    if (inspectRow === null) return null;
+    const run = runRef.current && runRef.current.sourceRows.length === rows.length ? runRef.current : null;
+    const cfg = run ? run.config : runConfigFromSettings(projectSettings);
+    if (typeof cfg === "string") return { error: cfg };
+    try {
+      return { system: cfg.systemPrompt, user: renderRowPrompt(cfg, run ? run.sourceRows[inspectRow] : sourceRowsOf()[inspectRow] || {}) };
+    } catch (e: any) {
+      return { error: e?.message || String(e) };
+    }
+  }, [inspectRow, rows.length, projectSettings, sourceRowsOf, runId]);
+
+  const failedOrInvalid = useMemo(
+    () => rowStates.map((s, i) => s.status === "failed" || s.result?.["eval.valid"] === false ? i : -1).filter(i => i >= 0),
+    [rowStates]);
+
+  // Restores an interrupted run (e.g. after a reload) including the settings it was started with.
+  const recoverRun = useCallback(() => {
+    if (!recoverable) return;
+    const { run, states } = recoverable;
+    const cfg = run.config;
+    runRef.current = run;
+    setRunId(run.id);
+    setProviderId(cfg.providerId);
+    setBaseUrl(cfg.baseUrl);
+    setApiVersion(cfg.apiVersion);
+    setModel(cfg.model);
+    setTemperature(cfg.temperature);
+    setSystemPrompt(cfg.systemPrompt);
+    setUserPrompt(cfg.userPrompt);
+    setTextCol(cfg.textCol);
+    setResultKey(cfg.resultKey);
+    setMaxRetries(cfg.maxRetries);
+    setConsensus(cfg.consensus || { ...DEFAULT_CONSENSUS, enabled: false });
+    setLongInput(cfg.longInput || { ...DEFAULT_LONG_INPUT, enabled: false });
+    setDedupe(cfg.dedupe || { ...DEFAULT_DEDUPE, enabled: false });
+    setRedaction(cfg.redaction || { ...DEFAULT_REDACTION, enabled: false });
+    setRubricEnabled(!!cfg.rubric);
+    if (cfg.rubric) setRubric(cfg.rubric);
+    setOutputSchema(prev => {
+      const schema = cfg.rubric ? null : cfg.outputSchema || cfg.responseSchema;
+      return {
+        ...prev,
+        ...(schema ? { mode: "json" as const, json: JSON.stringify(schema, null, 2) } : {}),
+        validate: !!cfg.outputSchema,
+        repair: !!cfg.repair,
+        structured: !!cfg.responseSchema,
+      };
+    });
+    setColumns(run.columns);
+    setRows(run.sourceRows.map((r, i) => states[i].result ?? r));
+    setRowStates(states);
+    setErrorLog(Object.fromEntries(states.map((s, i) => [i, s.error]).filter(([, e]) => e)));
+    const counts = summarizeRowStates(states);
+    setProgress(Math.round(((counts.done + counts.failed) / Math.max(1, states.length)) * 100));
+    setStatus("paused");
+    setMessage(`Recovered run from ${new Date(run.createdAt).toLocaleString()}: ${counts.done + counts.failed}/${states.length} rows finished. Enter the API key if needed and press Resume.`);
+    setRecoverable(null);
+  }, [recoverable]);
+
+  const discardRecoverable = useCallback(async () => {
+    if (recoverable) await deleteRun(recoverable.run.id).catch(() => {});
+    setRecoverable(null);
+  }, [recoverable]);
 
   function handlePause() { cancelRef.current.cancel = true; }
 
-  function handleExportCSV() {
+  // All rows, or just `subset` (the explorer's filtered rows) with their row numbers in front.
+  function resultTable(subset?: number[]) {
+    return subset
+      ? exportTable(subset.map(i => ({ row: i + 1, ...tableRows[i] })), ["row", ...displayColumns], resultKey, exportSettings)
+      : exportTable(tableRows, displayColumns, resultKey, exportSettings);
+  }
+
+  function handleExportCSV(subset?: number[]) {
+    if (!rows.length) { setMessage("No results to export."); return; }
+    const table = resultTable(subset);
+    const csv = Papa.unparse({ fields: table.columns, data: table.rows.map(r => table.columns.map(c => r[c] ?? "")) });
+    downloadTextFile(subset ? "evaluations-filtered.csv" : "evaluations.csv", csv);
+  }
+
+  function handleExportXLSX(subset?: number[], filter = "") {
+    if (!rows.length) { setMessage("No results to export."); return; }
+    const counts = summarizeRowStates(rowStates);
+    const meta = runMetadata(runRef.current?.config ?? null, {
+      exportedAt: new Date(), rows: rows.length, done: counts.done, failed: counts.failed,
+      promptUSD: costInfo.prompt, completionUSD: costInfo.completion, totalUSD: costInfo.total, unpriced: costInfo.unpriced,
+      ...(runRef.current?.config.redaction ? { redactions: redactionTotals(rowStates.map(s => s.redactions)).totals } : {}),
+      ...(cacheInfo.hits + cacheInfo.misses > 0 ? { cache: cacheInfo } : {}),
+    });
+    if (subset) meta.push(["Filtered rows", `${subset.length} of ${rows.length}${filter ? ` (${filter})` : ""}`]);
+    const keep = subset && new Set(subset.map(i => i + 1));
+    const errors = errorRows(rowStates, errorLog).filter(e => !keep || keep.has(e.row));
+    const audit = reviewAudit.filter(e => !keep || keep.has(e.row));
+    const wb = resultsWorkbook(resultTable(subset), errors, meta, audit.length ? [{ name: "Review", rows: audit }] : []);
+    downloadFile(subset ? "evaluations-filtered.xlsx" : "evaluations.xlsx", workbookBytes(wb), "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  }
+
+  function handleExportReport() {
     if (!rows.length) { setMessage("No results to export."); return; }
-    const csv = Papa.unparse(rows);
-    downloadTextFile("evaluations.csv", csv);
+    const cfg = runRef.current?.config;
+    const html = reportHtml(tableRows, {
+      title: "Evaluation report",
+      resultKey,
+      titleCol: exportSettings.titleCol,
+      textCol,
+      rubric: cfg ? cfg.rubric : rubricEnabled ? rubric : null,
+      generatedAt: new Date(),
+    });
+    downloadTextFile("evaluation-report.html", html, "text/html;charset=utf-8");
+  }
+
+  function handleExportRedactionLog() {
+    const run = runRef.current;
+    if (!run?.config.redaction) { setMessage("The current run did not redact its prompts."); return; }
+    const log = redactionLog(run.config.redaction, rowStates.map(s => s.status === "done" || s.status === "failed" ? s.redactions ?? {} : undefined), { runId: run.id, model: run.config.model });
+    downloadTextFile(`redaction-log-${run.id}.json`, JSON.stringify(log, null, 2));
   }
 
   function handleExportJSON() {
     if (!rows.length) { setMessage("No results to export."); return; }
-    const json = JSON.stringify(rows, null, 2);
+    const json = JSON.stringify(tableRows, null, 2);
     downloadTextFile("evaluations.json", json);
   }
 
+  const cacheInfo = useMemo(() => summarizeCache(rowStates.map(s => s.cache), prices), [rowStates, prices]);
+
   const sampleRow = rows[0] || {};
   const templatedPreview = useMemo(() => {
     try {
       if (!userPrompt) return "";
-      return renderTemplate(userPrompt, { ...sampleRow, submission: sampleRow?.[textCol] ?? "" });
+      const tpl = rubricEnabled ? withRubric(userPrompt, rubric) : userPrompt;
+      const promptRow = omitColumns(sampleRow, [calibration.goldScoreCol, calibration.goldDecisionCol].filter(Boolean));
+      return renderTemplate(tpl, { ...promptRow, submission: promptRow?.[textCol] ?? "" });
     } catch (e: any) {
       return `Preview error: ${e?.message || e}`;
     }
-  }, [userPrompt, sampleRow, textCol]);
-
+  }, [userPrompt, sampleRow, textCol, rubricEnabled, rubric, calibration]);
+
+  // Near-duplicate clusters over the submission text of the loaded rows.
+  const duplicates = useMemo(() => {
+    if (!dedupe.enabled || !rows.length) return null;
+    const cfg = { dedupe, textCol, hiddenColumns: [calibration.goldScoreCol, calibration.goldDecisionCol].filter(Boolean) };
+    const sourceRows = sourceRowsOf();
+    return { report: duplicateReport(cfg, sourceRows)!, texts: sourceRows.map(r => String(promptContext(cfg, r).submission)) };
+  }, [dedupe, textCol, calibration, rows, sourceRowsOf]);
+
+  // What redaction would replace in the evaluation prompt of one row, plus counts over all loaded rows.
+  const [redactionRow, setRedactionRow] = useState(0);
+  const redactionPreview = useMemo(() => {
+    if (!redaction.enabled || !rows.length) return null;
+    const promptCfg = { userPrompt, textCol, rubric: rubricEnabled ? rubric : null, hiddenColumns: [calibration.goldScoreCol, calibration.goldDecisionCol].filter(Boolean) };
+    try {
+      const sourceRows = sourceRowsOf();
+      const perRow = sourceRows.map(r => previewRedaction(redaction, r, renderRowPrompt(promptCfg, r)));
+      const idx = Math.min(redactionRow, sourceRows.length - 1);
+      return { row: idx, preview: perRow[idx], ...redactionTotals(perRow.map(p => p.counts)) };
+    } catch (e: any) {
+      return { error: String(e?.message || e) };
+    }
+  }, [redaction, rows, sourceRowsOf, redactionRow, userPrompt, textCol, rubricEnabled, rubric, calibration]);
+
+  // Every prompt a run would send: evaluation prompts (oversized rows with their reduced notes approximated
+  // by one expected completion per chunk) && the long-input map prompts.
+  const promptPlan = useMemo(() => {
+    const promptCfg = {
+      userPrompt, textCol,
+      rubric: rubricEnabled ? rubric : null,
+      hiddenColumns: [calibration.goldScoreCol, calibration.goldDecisionCol].filter(Boolean),
+    };
+    const prompts: string[] = [];
+    const mapPrompts: string[] = [];
+    let oversized = 0;
+    // Duplicates copied from their representative are never sent.
+    const copied = (i: number) => dedupe.mode === "representative" && !!duplicates && duplicates.report.clusterOf[i] !== undefined && duplicates.report.clusterOf[i]!.representative !== i;
+    try {
+      for (const [i, r] of sourceRowsOf().entries()) {
+        if (copied(i)) continue;
+        const prompt = renderRowPrompt(promptCfg, r);
+        if (!isOversized(prompt, longInput)) { prompts.push(`${systemPrompt}\n${prompt}`); continue; }
+        oversized++;
+        if (!longInput.enabled) { prompts.push(`${systemPrompt}\n${prompt}`); continue; }
+        const context = promptContext(promptCfg, r);
+        const text = String(context.submission);
+        const chunks = splitIntoChunks(text, longInput.chunkTokens, longInput.overlapTokens);
+        for (const c of chunks) {
+          mapPrompts.push(`${systemPrompt}\n${renderTemplate(longInput.mapPrompt, { ...context, chunk: text.slice(c.start, c.end), chunk_index: c.index + 1, chunk_count: chunks.length })}`);
+        }
+        const notes = joinNotes(chunks.map(c => ({ ...c, output: "x".repeat(costSettings.completionTokens * 4) })));
+        const submission = renderTemplate(longInput.reducePrompt, { ...context, notes, chunk_count: chunks.length });
+        prompts.push(`${systemPrompt}\n${renderTemplate(promptTemplate(promptCfg), { ...context, submission })}`);
+      }
+    } catch {
+      return null;
+    }
+    return { prompts, mapPrompts, oversized };
+  }, [userPrompt, systemPrompt, textCol, rubricEnabled, rubric, calibration, longInput, costSettings.completionTokens, sourceRowsOf, dedupe.mode, duplicates]);
+
+  // Projected tokens && cost of a full run with the current settings.
+  const preflight = useMemo(() => {
+    if (!rows.length || !model || !promptPlan) return null;
+    const main = preflightEstimate(promptPlan.prompts, callModels(model, consensus.enabled ? consensus : null), costSettings.completionTokens, prices);
+    return promptPlan.mapPrompts.length
+      ? mergeEstimates(main, preflightEstimate(promptPlan.mapPrompts, [model], costSettings.completionTokens, prices))
+      : main;
+  }, [rows, model, promptPlan, consensus, costSettings.completionTokens, prices]);
+
+  // All rows get the rank.* columns at once, so the first row tells.
+  const ranked = rows.length > 0 && rows[0] != null && "rank.elo" in rows[0];
   const displayColumns = useMemo(() => {
     const base = Array.isArray(columns) ? columns : [];
     const extras = [resultKey, `${resultKey}_json`, "eval.valid", "eval.score", "eval.decision"];
+    if (outputSchema.validate) extras.push("eval.errors");
+    if (outputSchema.validate && outputSchema.repair) extras.push(`${resultKey}_repaired`, "eval.repaired");
+    if (rubricEnabled) extras.push(...rubricColumns(rubric));
+    if (consensus.enabled) extras.push(...CONSENSUS_COLUMNS);
+    if (longInput.enabled) extras.push(...LONG_INPUT_COLUMNS);
+    if (dedupe.enabled) extras.push(...DEDUPE_COLUMNS);
+    if (ranked) extras.push(...RANK_COLUMNS);
+    if (reviewed) extras.push(...REVIEW_COLUMNS);
     return Array.from(new Set([...base, ...extras]));
-  }, [columns, resultKey]);
+  }, [columns, resultKey, outputSchema.validate, outputSchema.repair, rubricEnabled, rubric, consensus.enabled, longInput.enabled, dedupe.enabled, ranked, reviewed]);
 
   const progressValue = Number.isFinite(progress) ? Math.max(0, Math.min(100, progress)) : 0;
 
@@ -388,9 +1016,173 @@ export default function App() {
       const out3 = renderTemplate(tpl3, { x: 1 });
       results.push({ name: "Template unknown key → empty", pass: out3 === "Missing: ''", detail: out3 });
 
-      const price = estimateOpenAIPrice("gpt-4o-mini", 2000, 3000);
+      const out4 = renderTemplate('{{#if note}}N={{note | upper}}{{else}}none{{/if}}|{{missing | default:"n/a"}}|{{long | truncate:3}}|\\{{x}}', { note: "", long: "abcdef" });
+      results.push({ name: "Template if/else, filters && escaping", pass: out4 === "none|n/a|abc…|{{x}}", detail: out4 });
+      const out5 = renderTemplate('{{#each "Q*"}}{{@index}}. {{@key}}: {{@value}}\n{{/each}}', { id: 1, Q1: "a", "Q2 why": "b" });
+      results.push({ name: "Template loops over matching columns", pass: out5 === "1. Q1: a\n2. Q2 why: b\n", detail: out5 });
+      let unclosed = "";
+      try { renderTemplate("{{#if a}}x", { a: 1 }); } catch (e: any) { unclosed = e.message; }
+      results.push({ name: "Template reports unclosed block", pass: /not closed/.test(unclosed), detail: unclosed });
+      const lint = lintTemplate("{{Titel}} {{body}}", ["Title", "body"], [{ Title: "t", body: "" }, { Title: "u", body: "" }], { builtins: [], render: () => "x".repeat(100), countTokens: approxTokens, maxTokens: 10 });
+      results.push({ name: "Template lint: typo, empty column, long prompt", pass: lint.length === 3 && /did you mean "Title"/.test(lint[0].message) && /empty in all 2/.test(lint[1].message) && /2 row/.test(lint[2].message), detail: lint.map(l => l.message).join(" / ") });
+
+      const price = estimateCost(DEFAULT_PRICES, "gpt-4o-mini", 2_000_000, 3_000_000);
       const expected = (2 * 0.15) + (3 * 0.6);
       results.push({ name: "Price estimate gpt-4o-mini", pass: Math.abs(price.totalUSD - expected) < 1e-9, detail: price.totalUSD.toFixed(4) });
+      const delays = [1, 2, 3, 4].map(f => backoffDelay(f, undefined, 500, 30_000, () => 1));
+      results.push({ name: "Backoff doubles per failure", pass: delays.join(",") === "500,1000,2000,4000" && backoffDelay(1, 7000, 500, 30_000, () => 0) === 7000, detail: delays.join(",") });
+      const hdr = new Map<string, string>([["retry-after", "2"], ["x-ratelimit-remaining-requests", "0"], ["x-ratelimit-reset-requests", "1m30s"], ["x-ratelimit-reset-tokens", "250ms"]]);
+      const rl = parseRateLimit({ get: (k: string) => hdr.get(k) ?? null });
+      results.push({ name: "Rate-limit headers parsed", pass: rl?.retryAfterMs === 2000 && rl?.remainingRequests === 0 && rl?.resetRequestsMs === 90_000 && rl?.resetTokensMs === 250, detail: JSON.stringify(rl) });
+      results.push({ name: "401 && 400 are not retried", pass: !isRetryable(new ProviderError("openai", "auth", "x", 401)) && !isRetryable(new ProviderError("openai", "bad_request", "x", 400)) && isRetryable(new ProviderError("openai", "rate_limit", "x", 429)) && isRetryable(new ProviderError("openai", "server", "x", 503)) });
+      results.push({ name: "408 && 409 are retried like a 5xx", pass: [408, 409, 503].every(st => isRetryable(new ProviderError("openai", kindForStatus(st), "x", st))) && !isRetryable(new ProviderError("openai", kindForStatus(422), "x", 422)), detail: [408, 409, 422].map(kindForStatus).join(", ") });
+      const sched = new AdaptiveScheduler({ maxConcurrency: 8, rpm: 2, tpm: 0 });
+      sched.onThrottle(undefined, 10_000);
+      sched.onThrottle(undefined, 10_500);
+      const afterThrottle = sched.limit;
+      for (let i = 0; i < 4; i++) sched.onSuccess();
+      results.push({ name: "AIMD halves once per burst, then grows", pass: afterThrottle === 4 && sched.limit === 5, detail: `${afterThrottle} → ${sched.limit}` });
+      // acquire counts a call before its first await when no wait is needed, so the fake clock can step between calls.
+      let clock = 1_000_000;
+      const rpmSched = new AdaptiveScheduler({ maxConcurrency: 8, rpm: 2, tpm: 0 }, undefined, () => clock);
+      void rpmSched.acquire(1);
+      clock += 40_000;
+      void rpmSched.acquire(1);
+      clock += 10_000;
+      const rpmDelay = rpmSched.delayFor(1);
+      results.push({ name: "RPM budget delays the next call", pass: rpmDelay === 10_000 && rpmSched.delayFor(1, clock + 10_000) === 0, detail: String(rpmDelay) });
+      const cp = decodeText(new Uint8Array([0x43, 0x61, 0x66, 0xe9]));
+      const u16 = decodeText(new Uint8Array([0xff, 0xfe, 0x68, 0x00, 0x69, 0x00]));
+      results.push({ name: "Encoding detection (1252, UTF-16)", pass: cp.encoding === "windows-1252" && cp.text === "Café" && u16.encoding === "utf-16le" && u16.text === "hi", detail: `${cp.encoding} ${u16.encoding}` });
+      const jl = parseJsonRows('{"id":1,"a":"x"}\n{"id":2,"b":{"c":1}}');
+      results.push({ name: "JSONL import", pass: jl.format === "jsonl" && jl.table.rows.length === 2 && jl.table.columns.join() === "id,a,b" && jl.table.rows[1].b === '{"c":1}', detail: JSON.stringify(jl.table.rows) });
+      const joined = joinSources([
+        { name: "apps.csv", key: "ID", columns: ["ID", "text"], rows: [{ ID: "1", text: "a" }, { ID: "2", text: "b" }] },
+        { name: "files.xlsx", key: "app_id", columns: ["app_id", "text"], rows: [{ app_id: "1", text: "p1" }, { app_id: " 1", text: "p2" }] },
+      ]);
+      results.push({ name: "Join on key (prefix collisions, concat matches)", pass: joined.columns.join() === "ID,text,files.text" && joined.rows[0]["files.text"] === "p1\n\np2" && joined.rows[1]["files.text"] === "" && joined.unmatched[1] === 1, detail: JSON.stringify(joined.rows) });
+      const longText = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} of the proposal.`).join(" ");
+      const chunks = splitIntoChunks(longText, 100, 10);
+      const covered = chunks.every((c, i) => i === 0 || c.start < chunks[i - 1].end) && chunks[0].start === 0 && chunks[chunks.length - 1].end === longText.length;
+      results.push({ name: "Long input splits into overlapping chunks at sentence ends", pass: chunks.length > 1 && covered && chunks.slice(0, -1).every(c => longText.slice(c.start, c.end).endsWith(". ")), detail: `${chunks.length} chunks` });
+      results.push({ name: "Long input threshold", pass: isOversized("x".repeat(48_004), DEFAULT_LONG_INPUT) && !isOversized("x".repeat(48_000), DEFAULT_LONG_INPUT) });
+
+      const proj = parseProjectFile(JSON.stringify({ ...toProjectFile("p", { ...DEFAULT_SETTINGS, textCol: "Abstract", userPrompt: "{{Title}}: {{submission}}" }), apiKey: "sk-x" }));
+      const projOld = parseProjectFile(JSON.stringify({ format: "llm-batch-evaluator/project", version: 1, settings: { model: "gpt-4o", temperature: "hot", apiKey: "sk-x" } }));
+      results.push({ name: "Project file round trip fills defaults, drops the key", pass: proj.settings.textCol === "Abstract" && projOld.settings.model === "gpt-4o" && projOld.settings.temperature === DEFAULT_SETTINGS.temperature && projOld.settings.rubric.criteria.length === DEFAULT_SETTINGS.rubric.criteria.length && !JSON.stringify(projOld).includes("sk-x") });
+      let newer = "";
+      try { parseProjectFile(JSON.stringify({ format: "llm-batch-evaluator/project", version: 99, settings: {} })); } catch (e: any) { newer = e?.message || ""; }
+      results.push({ name: "Newer project version is refused", pass: /version 99/.test(newer), detail: newer });
+      const projBad = parseProjectFile(JSON.stringify({ format: "llm-batch-evaluator/project", version: 1, settings: {
+        experiment: { variants: null, sampleSize: "5" }, rubricEnabled: true, rubric: { criteria: "oops" },
+        consensus: { models: ["gpt-4o", 7] }, redaction: { enabled: true, columns: { a: 1 } }, outputSchema: { fields: [null, { name: "score", type: "integer", required: true }] },
+      } }));
+      const badCfg = runConfigFromSettings(projBad.settings);
+      results.push({ name: "Malformed project file falls back to defaults", pass: projBad.settings.experiment.variants.length === 0 && projBad.settings.experiment.sampleSize === 0 && projBad.settings.rubric.criteria.length === DEFAULT_SETTINGS.rubric.criteria.length && JSON.stringify(projBad.settings.consensus.models) === '["gpt-4o"]' && projBad.settings.redaction.columns.length === 0 && projBad.settings.outputSchema.fields.length === 1 && missingColumns(projBad.settings, []).length === 0 && typeof badCfg !== "string" && !!badCfg.rubric, detail: typeof badCfg === "string" ? badCfg : "" });
+      const miss = missingColumns(proj.settings, ["Title", "Body"]);
+      results.push({ name: "Preset on other headers lists missing columns", pass: JSON.stringify(miss) === JSON.stringify(["Abstract"]), detail: miss.join(", ") });
+
+      const nested = { evaluation_json: JSON.stringify({ score: 4, strengths: ["a", "b"], meta: { lang: "en" } }) };
+      const flatCols = flattenOutput(nested, "evaluation", { flatten: "columns", joiner: "; " });
+      const flatJoined = flattenOutput(nested, "evaluation", { flatten: "joined", joiner: " | " });
+      results.push({ name: "Export flattens lists into columns or joined text", pass: flatCols["evaluation.strengths_2"] === "b" && flatCols["evaluation.meta.lang"] === "en" && flatJoined["evaluation.strengths"] === "a | b", detail: Object.keys(flatCols).join(", ") });
+      const xt = exportTable([{ id: 1, ...nested }, { id: 2, evaluation_json: "", "eval.errors": "x" }], ["id"], "evaluation", { flatten: "columns", joiner: "; " });
+      results.push({ name: "Export header covers every row", pass: xt.columns[0] === "id" && xt.columns.includes("eval.errors") && xt.columns.includes("evaluation.strengths_1") && xt.rows[1]["evaluation.score"] === undefined, detail: xt.columns.join(", ") });
+      const rep = reportHtml([{ title: "<b>", ...nested }], { title: "R", resultKey: "evaluation", titleCol: "title", textCol: "", rubric: null, generatedAt: new Date(0) });
+      results.push({ name: "Report escapes HTML, one page per row", pass: rep.includes("&lt;b&gt;") && !rep.includes("<h2><b>") && (rep.match(/class="page"/g) || []).length === 1 });
+
+      const para = "We propose a regional cold chain for small dairy farms with shared solar cooling units, a booking app and training for cooperatives in three districts over two years.";
+      const dd = findDuplicates([para, para.replace("three districts", "four districts"), "An open data portal for municipal budgets with citizen feedback.", para.toUpperCase() + "!!"], { threshold: 0.7, shingleSize: 4 });
+      results.push({ name: "Near-duplicates cluster with similarity", pass: dd.clusters.length === 1 && JSON.stringify(dd.clusters[0].rows) === "[0,1,3]" && dd.clusters[0].similarity[3] === 1 && dd.clusters[0].similarity[1] < 1 && !dd.clusterOf[2], detail: JSON.stringify(dd.clusters[0]?.similarity) });
+      const ddWords = "alpha bravo charlie delta echo foxtrot golf hotel india juliet kilo lima".split(" ");
+      const ddChain = findDuplicates([ddWords.slice(0, 10), ddWords.slice(1, 11), ddWords.slice(2, 12)].map(x => x.join(" ")), { threshold: 0.7, shingleSize: 1 });
+      results.push({ name: "Near-duplicates do not chain past the representative", pass: ddChain.clusters.length === 1 && JSON.stringify(ddChain.clusters[0].rows) === "[0,1]" && !ddChain.clusterOf[2], detail: JSON.stringify(ddChain.clusters.map(c => c.rows)) });
+      const rd = createRedactor({ ...DEFAULT_REDACTION, enabled: true, columns: ["author"] }, { author: "Jane Doe" });
+      const rdText = rd.redact("Jane Doe <jane@acme.org>, +49 30 1234 5678, jane@acme.org, 2023-2024");
+      results.push({ name: "Redaction uses stable placeholders", pass: rdText === "[AUTHOR_1] <[EMAIL_1]>, [PHONE_1], [EMAIL_1], 2023-2024" && rd.counts().EMAIL === 1, detail: rdText });
+      const rdBack = rd.restore('{"summary":"[AUTHOR_1] \\"[EMAIL_1]\\" [EMAIL_9]"}');
+      results.push({ name: "Redaction restores placeholders in output", pass: rdBack === '{"summary":"Jane Doe \\"jane@acme.org\\" [EMAIL_9]"}' && rd.restoreValue({ a: ["[AUTHOR_1]"] }).a[0] === "Jane Doe", detail: rdBack });
+      const cs = addCacheStats(addCacheStats(undefined, true, "gpt-4o-mini", { prompt_tokens: 1_000_000, completion_tokens: 0 }), false, "gpt-4o-mini", { prompt_tokens: 5, completion_tokens: 5 });
+      const csSum = summarizeCache([cs, undefined], { "gpt-4o-mini": { in: 0.15, out: 0.6 } });
+      results.push({ name: "Cache stats count hits, misses && saved cost", pass: csSum.hits === 1 && csSum.misses === 1 && Math.abs(csSum.savedUSD - 0.15) < 1e-9, detail: JSON.stringify(csSum) });
+      const cacheFile = JSON.stringify(toCacheFile([{ key: "a".repeat(64), providerId: "mock", model: "m", createdAt: 1, promptStart: "p", content: "{}", usage: { prompt_tokens: 3, completion_tokens: 4 } }, { key: "bad", content: "x" } as any]));
+      const cacheBack = parseCacheFile(cacheFile);
+      results.push({ name: "Cache file round-trip drops malformed entries", pass: cacheBack.length === 1 && cacheBack[0].usage.completion_tokens === 4, detail: `${cacheBack.length} entries` });
+
+      // Rows 0 && 3 both win three of four, but row 0 beat the stronger opponent; row 2 loses every game.
+      // The swapped repeats of 0 vs 3 disagree, && one call failed.
+      const games: PairCall[] = [
+        { round: 1, first: 0, second: 1, verdict: "A" }, { round: 1, first: 1, second: 0, verdict: "B" },
+        { round: 1, first: 2, second: 3, verdict: "B" }, { round: 1, first: 3, second: 2, verdict: "A" },
+        { round: 2, first: 0, second: 3, verdict: "A" }, { round: 2, first: 3, second: 0, verdict: "A" },
+        { round: 2, first: 1, second: 2, verdict: "A" }, { round: 2, first: 2, second: 1, verdict: null },
+      ];
+      const bt = fitBradleyTerry(4, games);
+      const rank = rankingColumns(4, games);
+      const rs = rankingStats(games);
+      results.push({ name: "Bradley-Terry ranks the unbeaten row first", pass: bt[0] > bt[3] && bt[3] > bt[1] && bt[1] > bt[2] && rank[0]["rank.position"] === 1 && rank[2]["rank.position"] === 4 && rank[0]["rank.elo"] > 1500 && rank[0]["rank.wins"] === 3, detail: rank.map(r => `${r["rank.position"]}:${r["rank.elo"]}`).join(" ") });
+      results.push({ name: "Ranking order consistency && first-position wins", pass: rs.consistency === 2 / 3 && rs.failed === 1 && Math.abs((rs.firstWinRate ?? 0) - 5 / 7) < 1e-12, detail: JSON.stringify(rs) });
+      const sw = swissPairs([4, 3, 2, 1, 0], new Set(["3:4"]), new Set([0]));
+      results.push({ name: "Swiss pairing avoids rematches && repeat byes", pass: sw.bye === 1 && JSON.stringify(sw.pairs) === "[[4,2],[3,0]]", detail: JSON.stringify(sw) });
+
+      const er = [
+        { id: "a", "eval.valid": true, "eval.score": 4, "eval.decision": "Go", evaluation: "{}" },
+        { id: "b", "eval.valid": false, "eval.score": "", evaluation: "ERROR: HTTP 500" },
+        { id: "c", "eval.valid": true, "eval.score": 10, "eval.decision": "No-Go", evaluation: "{}" },
+        { id: "d", "eval.valid": true, "eval.score": 2, "eval.decision": "Go", evaluation: "{}" },
+      ];
+      const eq = queryRows(er, ["id", "eval.score"], { search: "", filters: [{ column: "eval.decision", op: "=", value: "go" }, { column: "eval.score", op: ">=", value: "" }], sort: { column: "eval.score", dir: "desc" } });
+      const eb = queryRows(er, ["id", "eval.score"], { search: "", filters: [], sort: { column: "eval.score", dir: "asc" } });
+      results.push({ name: "Explorer filters && sorts numerically, empties last", pass: eq.join() === "0,3" && eb.join() === "3,0,2,1", detail: `${eq.join()} | ${eb.join()}` });
+      const es = summarizeResults(er, "evaluation", queryRows(er, ["id"], { search: "", filters: [{ column: "eval.valid", op: "=", value: "false" }], sort: null }).concat([0]));
+      results.push({ name: "Explorer summary counts the filtered rows", pass: es.rows === 2 && es.valid === 1 && es.failed === 1 && es.errors[0]?.message === "HTTP 500" && es.histogram["4"] === 1, detail: JSON.stringify(es) });
+      const failedRow: RowState = {
+        status: "failed", attempts: 3, error: "HTTP 500", raw: "x", usage: { prompt_tokens: 30, completion_tokens: 0 }, usageByModel: { m: { prompt_tokens: 30, completion_tokens: 0 } },
+        history: [{ purpose: "evaluate", model: "m", startedAt: 0, ms: 5, outcome: "error", httpStatus: 500, error: "HTTP 500", systemPrompt: "", userPrompt: "p" }],
+        result: { evaluation: "ERROR: HTTP 500" },
+      };
+      const again = rerunRowState(failedRow);
+      results.push({ name: "Re-run keeps a row's history && usage, drops its result", pass: again.status === "pending" && again.history?.length === 1 && again.usage?.prompt_tokens === 30 && again.result === undefined && again.error === undefined && again.attempts === 3 });
+
+      const reviewRows = [
+        { evaluation: "{}", "eval.score": 4, "eval.valid": true },
+        { evaluation: "{}", "eval.score": 3, "eval.valid": true },
+        { evaluation: "ERROR: HTTP 500", "eval.valid": false },
+        { evaluation: "{}", "eval.score": 1, "eval.valid": true, "consensus.review": true },
+        {},
+      ];
+      const scoped = (scope: ReviewSettings["scope"]) => reviewQueue(reviewRows, "evaluation", { scope, borderlineMin: 2.5, borderlineMax: 3.5 }).join(",");
+      results.push({ name: "Review queue scopes (all, flagged, borderline)", pass: scoped("all") === "0,1,2,3" && scoped("flagged") === "2,3" && scoped("borderline") === "1,2,3", detail: `${scoped("all")} | ${scoped("flagged")} | ${scoped("borderline")}` });
+      const ctx = { rowKey: reviewKey({ id: "1" }), row: 1, reviewer: "Ana", model: { "eval.score": 4, "eval.decision": "Go" } };
+      const accepted = applyReview(undefined, { status: "accepted", score: null, decision: "", comment: "" }, { ...ctx, at: new Date(0) });
+      const overridden = applyReview(accepted, { status: "overridden", score: 2, decision: "No-Go", comment: "Budget missing" }, { ...ctx, reviewer: "Ben", at: new Date(1000) });
+      const finalCols = reviewColumns(overridden, ctx.model);
+      let needsComment = false;
+      try { applyReview(accepted, { status: "overridden", score: 2, decision: "Go", comment: " " }, ctx); } catch { needsComment = true; }
+      results.push({ name: "Review audit trail records who changed what", pass: accepted.trail[0].changes.length === 0 && overridden.trail.length === 2 && overridden.trail[1].changes.map(c => `${c.field}:${c.from}>${c.to}`).join(",") === "score:4>2,decision:Go>No-Go" && finalCols["final.score"] === 2 && overridden.modelScore === 4 && auditRows([overridden])[1].reviewer === "Ben" && needsComment, detail: auditRows([overridden]).map(e => e.changes).join(" | ") });
+
+      const batchCfg = runConfigFromSettings({ ...DEFAULT_SETTINGS, textCol: "text", outputSchema: { ...DEFAULT_SETTINGS.outputSchema, validate: false, structured: false } });
+      if (typeof batchCfg === "string") throw new Error(batchCfg);
+      const batchRows = [{ text: "Solar dryer" }, { text: "Water filter" }];
+      const batchLines = batchRequestFile(batchCfg, batchRows).trim().split("\n").map(l => JSON.parse(l));
+      results.push({ name: "Batch request file has stable custom_ids && chat bodies", pass: batchLines.length === 2 && batchLines[0].custom_id === batchCustomId(0, { text: "Solar dryer" }) && batchLines[1].custom_id.startsWith("row-2-") && batchLines[0].url === "/v1/chat/completions" && batchLines[0].body.messages[1].content.includes("Solar dryer"), detail: batchLines.map(l => l.custom_id).join(", ") });
+      const batchOut = parseBatchResults([
+        JSON.stringify({ custom_id: batchLines[0].custom_id, response: { status_code: 200, body: { choices: [{ message: { content: '{"score":4,"decision":"Go"}' } }], usage: { prompt_tokens: 1000, completion_tokens: 100 } } }, error: null }),
+        JSON.stringify({ custom_id: batchLines[1].custom_id, response: { status_code: 400, body: { error: { message: "bad request" } } }, error: null }),
+        JSON.stringify({ custom_id: "row-7-x", response: null, error: { code: "batch_expired", message: "expired" } }),
+        "{not json",
+      ].join("\n"));
+      const batchMerged = applyBatchResults(batchCfg, batchRows, batchRows.map(() => newRowState()), batchOut.results);
+      const batchAgain = applyBatchResults(batchCfg, batchRows, batchMerged.states, batchOut.results);
+      const batchCost = estimateStatesCost(batchMerged.states, batchCfg.model, { [batchCfg.model]: { in: 1, out: 10 } });
+      results.push({ name: "Batch results merge through the eval.* parsing at batch prices", pass: batchOut.invalidLines.join() === "4" && batchMerged.states[0].result?.["eval.score"] === 4 && batchMerged.states[0].result?.["eval.decision"] === "Go" && batchMerged.states[1].status === "failed" && batchMerged.unknown.join() === "row-7-x" && batchAgain.updated.length === 0 && Math.abs(batchCost.totalUSD - 0.001) < 1e-12, detail: `${batchMerged.updated.join(",")} $${batchCost.totalUSD}` });
+      const batchOther = batchConfig({ ...batchCfg, providerId: "anthropic" });
+      const batchLimits = batchLimitWarnings(BATCH_MAX_REQUESTS + 1, BATCH_MAX_BYTES + 1);
+      results.push({ name: "Batch mode refuses other providers && warns over the Batch API limits", pass: typeof batchOther === "string" && typeof batchConfig(batchCfg) !== "string" && batchLimits.length === 2 && batchLimitWarnings(2, 1000).length === 0, detail: `${batchOther} | ${batchLimits.join(" | ")}` });
+      const unknown = estimateCost(DEFAULT_PRICES, "some-new-model", 1000, 1000);
+      results.push({ name: "Unknown model is unpriced, not guessed", pass: !unknown.priced && unknown.totalUSD === 0 });
+      const pf = preflightEstimate(["x".repeat(400), "x".repeat(800)], callModels("gpt-4o", { ...DEFAULT_CONSENSUS, enabled: true, samplesPerModel: 2, models: [] }), 100, DEFAULT_PRICES);
+      results.push({ name: "Pre-flight estimate counts every call", pass: pf.calls === 4 && pf.promptTokens === 600 && pf.completionTokens === 400 && Math.abs(pf.totalUSD - (600 * 2.5 + 400 * 10) / 1e6) < 1e-12, detail: pf.totalUSD.toFixed(6) });
 
       const fence = "```json\\n{\\n \\\"score\\\": 5, \\\"decision\\\": \\\"Go\\\"\\n}\\n```";
       const p1 = parseJsonLoose(fence);
@@ -398,6 +1190,62 @@ export default function App() {
       const bad = parseJsonLoose("not json at all");
       results.push({ name: "parseJsonLoose bad input", pass: (bad as any).ok === false, detail: (bad as any).error });
 
+      results.push({ name: "Mock provider hash is stable", pass: hashString("abc") === hashString("abc") && hashString("abc") !== hashString("abd"), detail: String(hashString("abc")) });
+      results.push({ name: "Unknown provider falls back to OpenAI", pass: getProvider("nope" as ProviderId).id === "openai" });
+
+      const counts = summarizeRowStates([newRowState(), { status: "done", attempts: 1 }, { status: "failed", attempts: 3 }]);
+      results.push({ name: "Row state summary", pass: counts.pending === 1 && counts.done === 1 && counts.failed === 1, detail: JSON.stringify(counts) });
+
+      const sch = fieldsToSchema(DEFAULT_OUTPUT_SCHEMA.fields);
+      const v1 = validateJson({ score: 4, summary: "ok", decision: "Go" }, sch);
+      results.push({ name: "Schema accepts valid output", pass: v1.length === 0, detail: formatSchemaErrors(v1) });
+      const v2 = validateJson({ score: "five", summary: "ok", decision: "Maybe" }, sch);
+      results.push({ name: "Schema flags bad score && decision", pass: v2.some(e => e.path === "/score") && v2.some(e => e.path === "/decision"), detail: formatSchemaErrors(v2) });
+      const d1 = deriveEvalColumns('{"score":9,"summary":"x","decision":"Go"}', "evaluation", sch);
+      results.push({ name: "Invalid score not copied to eval.score", pass: d1.cols["eval.score"] === undefined && d1.cols["eval.decision"] === "Go" && d1.cols["eval.valid"] === false, detail: d1.problem });
+
+      const d2 = deriveEvalColumns("not json", "evaluation", sch, { score: 3, summary: "s", decision: "No-Go" });
+      results.push({ name: "Structured output skips text scraping", pass: d2.cols["eval.valid"] === true && d2.cols["eval.score"] === 3, detail: d2.problem || "valid" });
+      const m1 = mockFromSchema(sch, 42);
+      results.push({ name: "Mock structured output satisfies schema", pass: validateJson(m1, sch).length === 0, detail: JSON.stringify(m1) });
+      results.push({ name: "Strict mode needs closed, fully required schema", pass: !isStrictCompatible(sch) && isStrictCompatible({ type: "object", properties: { a: { type: "string" } }, required: ["a"], additionalProperties: false }) });
+
+      const rb = scoreRubric(DEFAULT_RUBRIC, { criteria: { innovation: { score: 5 }, feasibility: { score: 0 }, impact: { score: 5 }, sustainability: { score: 0 } } });
+      results.push({ name: "Rubric weighted total", pass: rb.total === 2.5 && rb.scores.innovation === 5, detail: String(rb.total) });
+      const rb2 = scoreRubric({ ...DEFAULT_RUBRIC, criteria: DEFAULT_RUBRIC.criteria.map((c, i) => ({ ...c, weight: i === 0 ? 3 : 1 })) }, { criteria: { innovation: { score: 5 }, feasibility: { score: 9 }, impact: { score: 0 }, sustainability: { score: 0 } } });
+      results.push({ name: "Rubric skips out-of-range criterion", pass: rb2.scores.feasibility === undefined && rb2.total === 3, detail: String(rb2.total) });
+      const mr = mockFromSchema(rubricSchema(DEFAULT_RUBRIC), 7);
+      results.push({ name: "Rubric schema accepts rubric-shaped output", pass: validateJson(mr, rubricSchema(DEFAULT_RUBRIC)).length === 0, detail: JSON.stringify(mr.criteria) });
+      const withKeys = (keys: string[]) => runConfigFromSettings({ ...DEFAULT_SETTINGS, rubricEnabled: true, rubric: { ...DEFAULT_RUBRIC, criteria: keys.map((key, k) => ({ ...DEFAULT_RUBRIC.criteria[k], key })) } });
+      const rbReserved = withKeys(["innovation", "valid"]);
+      const rbDuplicate = withKeys(["impact", "impact"]);
+      results.push({ name: "Rubric keys may not repeat or overwrite eval.* columns", pass: typeof rbReserved === "string" && typeof rbDuplicate === "string" && typeof withKeys(["innovation", "impact"]) !== "string", detail: `${rbReserved} | ${rbDuplicate}` });
+
+      const agg = aggregateSamples([
+        { model: "a", sample: 0, valid: true, raw: "", evals: { "eval.score": 2, "eval.decision": "Go" } },
+        { model: "a", sample: 1, valid: true, raw: "", evals: { "eval.score": 4, "eval.decision": "Go" } },
+        { model: "b", sample: 0, valid: true, raw: "", evals: { "eval.score": 3, "eval.decision": "No-Go" } },
+      ], { ...DEFAULT_CONSENSUS, enabled: true });
+      results.push({ name: "Consensus mean + majority", pass: agg["eval.score"] === 3 && agg["eval.decision"] === "Go" && agg["consensus.agreement"] === 0.667 && agg["consensus.review"] === true, detail: JSON.stringify(agg) });
+      const k1 = fleissKappa([["Go", "Go", "Go"], ["No-Go", "No-Go", "No-Go"]]);
+      const k2 = fleissKappa([["Go", "No-Go"], ["No-Go", "Go"]]);
+      results.push({ name: "Fleiss' kappa perfect vs. disagreement", pass: k1 === 1 && (k2 ?? 0) < 0, detail: `${k1} / ${k2}` });
+
+      const cal = computeCalibration([
+        { gold: "1", human: "yes", "eval.score": 1, "eval.decision": "Go" },
+        { gold: "3", human: "no", "eval.score": 2, "eval.decision": "Go" },
+        { gold: "5", human: "No-Go", "eval.score": 5, "eval.decision": "No-Go" },
+      ], { goldScoreCol: "gold", goldDecisionCol: "human" });
+      results.push({ name: "Calibration MAE, Spearman && confusion", pass: Math.abs((cal.score?.mae ?? 0) - 1 / 3) < 1e-9 && cal.score?.spearman === 1 && cal.decision?.matrix[1][0] === 1 && cal.disagreements[0]?.idx === 1, detail: JSON.stringify(cal.decision?.matrix) });
+
+      const si = sampleIndices(100, 10, 7);
+      results.push({ name: "Experiment sample is seeded && sorted", pass: si.length === 10 && JSON.stringify(si) === JSON.stringify(sampleIndices(100, 10, 7)) && si.every((x, i) => i === 0 || x > si[i - 1]), detail: si.join(",") });
+      const cmp = compareVariants(
+        [{ id: "a", name: "A", systemPrompt: "", userPrompt: "", model: "", temperature: null }, { id: "b", name: "B", systemPrompt: "", userPrompt: "", model: "", temperature: null }],
+        { a: [{ "eval.score": 3, "eval.decision": "Go", "eval.valid": true }, { "eval.score": 1, "eval.decision": "No-Go", "eval.valid": true }], b: [{ "eval.score": 4, "eval.decision": "Go", "eval.valid": true }, { "eval.score": 4, "eval.decision": "Go", "eval.valid": false }] },
+        {});
+      results.push({ name: "Experiment flips && shift vs. baseline", pass: cmp[1].flips === 1 && cmp[1].meanShift === 2 && cmp[1].validRate === 0.5, detail: JSON.stringify({ flips: cmp[1].flips, shift: cmp[1].meanShift }) });
+
       results.push({ name: "toCell handles object", pass: toCell({ a: 1, b: [2,3] }).startsWith("{"), detail: toCell({ a: 1, b: [2,3] }) });
     } catch (e: any) {
       results.push({ name: "Tests threw", pass: false, detail: String(e) });
@@ -427,26 +1275,18 @@ export default function App() {
 
         {/* Upload & Sample */}
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 400px', gap: 20, marginTop: 20 }}>
-          <Card>
-            <CardHeader>
-              <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><FileUp size={18}/>Upload CSV</CardTitle>
-              <CardDescription>Headered CSV recommended. Use UTF‑8 encoding.</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
-                <div style={{ flex: 1, minWidth: 200 }}>
-                  <Input type="file" accept=".csv" ref={fileInputRef} onChange={(e) => {
-                    const f = (e.target as HTMLInputElement).files?.[0]; if (f) handleFile(f);
-                  }} />
-                </div>
-                <Button onClick={loadSample}><Database size={16} style={{ marginRight: 6 }}/>Load Sample</Button>
-                <Button onClick={resetAll}><Trash2 size={16} style={{ marginRight: 6 }}/>Reset</Button>
-              </div>
-              {Array.isArray(rows) && rows.length > 0 && (
-                <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>Loaded <b>{rows.length}</b> rows. Columns: {Array.isArray(columns) && columns.length ? columns.join(", ") : "(none)"}</div>
-              )}
-            </CardContent>
-          </Card>
+          <UploadCard
+            sources={sources}
+            onSourcesChange={applySources}
+            onFiles={handleFiles}
+            onLoadSample={loadSample}
+            onReset={resetAll}
+            rowCount={rows.length}
+            columns={columns}
+            unmatched={unmatched}
+            inputRef={fileInputRef}
+            disabled={disabled}
+          />
 
           <Card>
             <CardHeader>
@@ -455,17 +1295,42 @@ export default function App() {
             </CardHeader>
             <CardContent>
               <div style={{ marginBottom: 16 }}>
-                <Label>OpenAI API Key</Label>
-                <Input type="password" placeholder="sk-..." value={apiKey} onChange={(e) => setApiKey((e.target as HTMLInputElement).value)} />
+                <Label>Provider</Label>
+                <select style={{ width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' }} value={providerId} onChange={(e) => selectProvider((e.target as HTMLSelectElement).value as ProviderId)}>
+                  {Object.values(PROVIDERS).map(p => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
               </div>
+              {provider.needsBaseUrl && (
+                <div style={{ marginBottom: 16 }}>
+                  <Label>{providerId === "azure" ? "Azure endpoint" : providerId === "proxy" ? "Proxy URL" : "Base URL"}</Label>
+                  <Input placeholder={provider.defaultBaseUrl} value={baseUrl} onChange={(e) => setBaseUrl((e.target as HTMLInputElement).value)} />
+                </div>
+              )}
+              {providerId === "azure" && (
+                <div style={{ marginBottom: 16 }}>
+                  <Label>API version</Label>
+                  <Input value={apiVersion} onChange={(e) => setApiVersion((e.target as HTMLInputElement).value)} />
+                </div>
+              )}
+              {providerId !== "mock" && (
+                <div style={{ marginBottom: 16 }}>
+                  <Label>{provider.keyLabel || `${provider.label} API Key`}{provider.needsKey ? "" : " (optional)"}</Label>
+                  <Input type="password" placeholder={providerId === "anthropic" ? "sk-ant-..." : providerId === "proxy" ? "token issued by your admin" : "sk-..."} value={apiKey} onChange={(e) => setApiKey((e.target as HTMLInputElement).value)} />
+                </div>
+              )}
               <div style={{ marginBottom: 16 }}>
-                <Label>Model</Label>
-                <select style={{ width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' }} value={model} onChange={(e) => setModel((e.target as HTMLSelectElement).value)}>
-                  <option value="gpt-4o-mini">gpt-4o-mini</option>
-                  <option value="gpt-4o">gpt-4o</option>
-                  <option value="gpt-4.1-mini">gpt-4.1-mini</option>
-                  <option value="gpt-3.5-turbo">gpt-3.5-turbo</option>
-                </select>
+                <Label>{providerId === "azure" ? "Deployment name" : "Model"}</Label>
+                {provider.models.length > 0 ? (
+                  <select style={{ width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' }} value={model} onChange={(e) => setModel((e.target as HTMLSelectElement).value)}>
+                    {provider.models.map(m => (
+                      <option key={m} value={m}>{m}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Input placeholder={providerId === "azure" ? "my-gpt-4o-deployment" : providerId === "proxy" ? "gpt-4o-mini" : "llama3.1"} value={model} onChange={(e) => setModel((e.target as HTMLInputElement).value)} />
+                )}
               </div>
               <div>
                 <Label>Temperature</Label>
@@ -475,6 +1340,18 @@ export default function App() {
           </Card>
         </div>
 
+        <ProjectCard
+          presets={presets}
+          onSavePreset={savePreset}
+          onLoadPreset={(p) => applySettings(`preset "${p.name}"`, p.settings)}
+          onDeletePreset={deletePreset}
+          onExport={exportProject}
+          onImport={importProject}
+          missing={projectMissing}
+          hasData={columns.length > 0}
+          disabled={disabled}
+        />
+
         {/* Mapping & Prompt */}
         <div style={{ display: 'grid', gridTemplateColumns: '400px 1fr', gap: 20, marginTop: 20 }}>
           <Card>
@@ -496,18 +1373,26 @@ export default function App() {
           <Card>
             <CardHeader>
               <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Settings size={18}/>Run Settings</CardTitle>
-              <CardDescription>Concurrency && retries help with rate limits.</CardDescription>
+              <CardDescription>Concurrency adapts to rate limits: it halves after a 429 && grows back to the maximum. Requests && tokens per minute (0 = no limit) are enforced before each call; auth && bad-request errors are not retried.</CardDescription>
             </CardHeader>
             <CardContent>
               <div style={{ display:'grid', gridTemplateColumns:'1fr 1fr', gap: 16 }}>
                 <div>
-                  <Label>Concurrency</Label>
+                  <Label>Max concurrency</Label>
                   <Input type="number" min={1} max={20} value={concurrency} onChange={(e) => setConcurrency(parseInt((e.target as HTMLInputElement).value || "1"))} />
                 </div>
                 <div>
                   <Label>Max retries</Label>
                   <Input type="number" min={0} max={5} value={maxRetries} onChange={(e) => setMaxRetries(parseInt((e.target as HTMLInputElement).value || "0"))} />
                 </div>
+                <div>
+                  <Label>Requests / minute</Label>
+                  <Input type="number" min={0} value={rpm} onChange={(e) => setRpm(parseInt((e.target as HTMLInputElement).value || "0"))} />
+                </div>
+                <div>
+                  <Label>Tokens / minute</Label>
+                  <Input type="number" min={0} step={1000} value={tpm} onChange={(e) => setTpm(parseInt((e.target as HTMLInputElement).value || "0"))} />
+                </div>
                 <div style={{ gridColumn: '1 / -1' }}>
                   <Label>Result column name</Label>
                   <Input value={resultKey} onChange={(e) => setResultKey((e.target as HTMLInputElement).value || "evaluation")} />
@@ -521,7 +1406,9 @@ export default function App() {
           <CardHeader>
             <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Sparkles size={18}/>Prompt Template</CardTitle>
             <CardDescription>
-              Use {'{column}'} to reference a column; {'{submission}'} resolves to the selected text column; {'{json}'} inserts the whole row JSON.
+              Use {'{{column}}'} to reference a column; {'{{submission}}'} resolves to the selected text column; {'{{json}}'} inserts the whole row JSON.
+              Filters: {'{{column | truncate:2000 | default:"n/a"}}'} (also trim, upper, lower, json, escape). Blocks: {'{{#if column}}…{{else}}…{{/if}}'},
+              {'{{#unless column}}…{{/unless}}'}, and {'{{#each "Q*"}}{{@key}}: {{@value}}{{/each}}'} over the columns matching a pattern. Write \{'{{'} for a literal {'{{'}.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -533,34 +1420,108 @@ export default function App() {
               <Label>User Prompt</Label>
               <Textarea rows={8} value={userPrompt} onChange={(e) => setUserPrompt((e.target as HTMLTextAreaElement).value)} />
             </div>
-            <div>
-              <Label>Preview (from first row):</Label>
-              <pre style={{ marginTop: 6, padding: 12, background:'#f1f5f9', border:'1px solid #e2e8f0', borderRadius:8, fontSize:12, whiteSpace:'pre-wrap', maxHeight: 220, overflow:'auto' }}>{toCell(templatedPreview)}</pre>
+            <div style={{ display: 'grid', gridTemplateColumns: '3fr 2fr', gap: 16 }}>
+              <div>
+                <Label>Preview (from first row):</Label>
+                <pre style={{ marginTop: 6, padding: 12, background:'#f1f5f9', border:'1px solid #e2e8f0', borderRadius:8, fontSize:12, whiteSpace:'pre-wrap', maxHeight: 220, overflow:'auto' }}>{toCell(templatedPreview)}</pre>
+              </div>
+              <div>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+                  <Label>Template checks</Label>
+                  <label style={{ fontSize: 11, color: '#64748b' }}>
+                    warn above <input type="number" min={100} step={500} value={lintMaxTokens} onChange={(e) => setLintMaxTokens(Math.max(100, parseInt(e.target.value || "0") || 100))} style={{ width: 70 }} /> tokens
+                  </label>
+                </div>
+                <ul style={{ marginTop: 6, padding: '8px 12px', border:'1px solid #e2e8f0', borderRadius: 8, fontSize: 12, listStyle: 'none', maxHeight: 220, overflow: 'auto' }}>
+                  {templateLint.length === 0 && <li style={{ color: '#15803d', display: 'flex', gap: 6 }}><CheckCircle2 size={14}/>No problems found.</li>}
+                  {templateLint.map((issue, i) => (
+                    <li key={i} style={{ display: 'flex', gap: 6, marginBottom: 4, color: issue.level === "error" ? '#b91c1c' : issue.level === "warning" ? '#b45309' : '#475569' }}>
+                      {issue.level === "info" ? <Info size={14} style={{ flexShrink: 0 }}/> : <XCircle size={14} style={{ flexShrink: 0 }}/>}
+                      <span>{issue.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
             </div>
           </CardContent>
         </Card>
 
+        <RubricCard enabled={rubricEnabled} onToggle={setRubricEnabled} rubric={rubric} onChange={setRubric} disabled={disabled} />
+
+        <ConsensusCard value={consensus} onChange={setConsensus} disabled={disabled} runModel={model} suggestedModels={provider.models} temperature={temperature} />
+
+        <LongInputCard value={longInput} onChange={setLongInput} oversizedRows={promptPlan?.oversized ?? 0} totalRows={rows.length} disabled={disabled} />
+
+        <DedupeCard value={dedupe} onChange={setDedupe} report={duplicates?.report ?? null} texts={duplicates?.texts ?? []} textCol={textCol} disabled={disabled} />
+
+        <RedactionCard
+          value={redaction}
+          onChange={setRedaction}
+          columns={columns}
+          preview={redactionPreview}
+          previewRow={redactionRow}
+          onPreviewRow={setRedactionRow}
+          rowCount={rows.length}
+          runLog={runRef.current?.config.redaction ? redactionTotals(rowStates.map(s => s.redactions)) : null}
+          onExportLog={handleExportRedactionLog}
+          disabled={disabled}
+        />
+
+        <CacheCard
+          value={cacheSettings}
+          onChange={setCacheSettings}
+          entries={cacheEntries}
+          onRefresh={refreshCache}
+          onDelete={(key) => { deleteCacheEntry(key).catch(() => {}).then(refreshCache); }}
+          onClear={() => { if (window.confirm("Delete all cached responses in this browser?")) clearCache().catch(() => {}).then(refreshCache); }}
+          onExport={exportCache}
+          onImport={importCache}
+          disabled={disabled}
+        />
+
+        <OutputSchemaCard value={outputSchema} onChange={setOutputSchema} disabled={disabled} structuredSupport={provider.structured} rubricActive={rubricEnabled} />
+
+        <CostCard value={costSettings} onChange={setCostSettings} prices={prices} onPricesChange={setPrices} estimate={preflight} disabled={disabled} />
+
         {/* Controls */}
         <Card style={{ marginTop: 20 }}>
           <CardHeader>
             <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Play size={18}/>Run</CardTitle>
-            <CardDescription>You can pause anytime. Export JSON/CSV after completion.</CardDescription>
+            <CardDescription>You can pause anytime; finished rows are kept and saved in this browser, so Resume (or a reload) continues where it stopped. Export the results below.</CardDescription>
           </CardHeader>
           <CardContent>
+            {recoverable && status !== "running" && (
+              <div style={{ fontSize: 12, color:'#92400e', background:'#fffbeb', border:'1px solid #fde68a', borderRadius: 8, padding: '8px 12px', marginBottom: 12, display:'flex', gap: 12, alignItems:'center', flexWrap:'wrap' }}>
+                <span>
+                  An unfinished run from {new Date(recoverable.run.createdAt).toLocaleString()} was found
+                  ({summarizeRowStates(recoverable.states).done}/{recoverable.states.length} rows done).
+                </span>
+                <Button onClick={recoverRun}>Recover</Button>
+                <Button onClick={discardRecoverable}>Discard</Button>
+              </div>
+            )}
             <div style={{ display:'flex', gap: 12, flexWrap: 'wrap' }}>
               <Button onClick={handleStart} disabled={disabled}>
                 {status === "running" ? <Loader2 size={16} style={{ marginRight: 6 }} /> : <Play size={16} style={{ marginRight: 6 }} />}
-                {status === "running" ? "Running..." : "Start"}
+                {status === "running" ? "Running..." : status === "paused" ? "Start over" : "Start"}
+              </Button>
+              <Button onClick={handlePause} disabled={status !== "running"}><Pause size={16} style={{ marginRight: 6 }}/>Pause</Button>
+              <Button onClick={handleResume} disabled={status !== "paused" || !runRef.current}><Play size={16} style={{ marginRight: 6 }}/>Resume</Button>
+              <Button onClick={() => handleRerun(failedOrInvalid)} disabled={disabled || !runRef.current || !failedOrInvalid.length}>
+                <RotateCcw size={16} style={{ marginRight: 6 }}/>Re-run failed/invalid ({failedOrInvalid.length})
               </Button>
-              <Button onClick={() => cancelRef.current.cancel = true} disabled={status !== "running"}><Pause size={16} style={{ marginRight: 6 }}/>Pause</Button>
-              <Button onClick={handleExportJSON} disabled={!rows.length || status === "running"}><Download size={16} style={{ marginRight: 6 }}/>Export JSON</Button>
-              <Button onClick={handleExportCSV} disabled={!rows.length || status === "running"}><Download size={16} style={{ marginRight: 6 }}/>Export CSV</Button>
             </div>
 
             <div style={{ marginTop: 16 }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12, color:'#475569' }}>
                 <span>Progress: {Number.isFinite(progress) ? Math.max(0, Math.min(100, progress)) : 0}%</span>
-                <span>Rows: {totalCount}</span>
+                <span>
+                  Rows: {totalCount}
+                  {rowStates.length > 0 && (() => {
+                    const c = summarizeRowStates(rowStates);
+                    return ` · done ${c.done} · failed ${c.failed} · pending ${c.pending + c.running}`;
+                  })()}
+                </span>
               </div>
               <Progress value={Number.isFinite(progress) ? Math.max(0, Math.min(100, progress)) : 0} />
             </div>
@@ -571,18 +1532,40 @@ export default function App() {
               </div>
             )}
 
-            {(costInfo.total > 0) && (
+            {(costInfo.total > 0 || status === "running") && (
               <div style={{ fontSize: 11, color:'#64748b', marginTop: 8 }}>
-                Estimated cost (USD): prompt {costInfo.prompt.toFixed(4)}, completion {costInfo.completion.toFixed(4)}, total {costInfo.total.toFixed(4)}.
+                {status === "running" ? "Cost so far" : "Estimated cost"} (USD): prompt {costInfo.prompt.toFixed(4)}, completion {costInfo.completion.toFixed(4)}, total {costInfo.total.toFixed(4)}
+                {costSettings.budgetUSD > 0 ? ` of ${costSettings.budgetUSD.toFixed(2)} budget` : ""}.
+                {costInfo.unpriced.length > 0 && <span style={{ color: '#b45309' }}> No price for {costInfo.unpriced.join(", ")} (counted as $0).</span>}
+              </div>
+            )}
+
+            {cacheInfo.hits + cacheInfo.misses > 0 && (
+              <div style={{ fontSize: 11, color:'#64748b', marginTop: 4 }}>
+                Response cache: {cacheInfo.hits} hit(s), {cacheInfo.misses} miss(es); saved ~${cacheInfo.savedUSD.toFixed(4)} ({cacheInfo.savedTokens.toLocaleString()} tokens).
+              </div>
+            )}
+
+            {status === "running" && schedulerStats && (
+              <div style={{ fontSize: 11, color:'#64748b', marginTop: 4 }}>
+                Concurrency {schedulerStats.inFlight}/{schedulerStats.limit} (max {concurrency}), {schedulerStats.waiting} queued
+                {schedulerStats.throttled > 0 ? `, throttled ${schedulerStats.throttled}×` : ""}
+                {schedulerStats.pausedUntil > Date.now() ? `, waiting for the rate limit to reset (${Math.ceil((schedulerStats.pausedUntil - Date.now()) / 1000)}s)` : ""}.
+              </div>
+            )}
+
+            {consensusInfo && (
+              <div style={{ fontSize: 11, color:'#64748b', marginTop: 4 }}>
+                Consensus: Fleiss' kappa on decisions {consensusInfo.kappa === undefined ? "n/a" : consensusInfo.kappa.toFixed(3)}; {consensusInfo.flagged} row(s) flagged for review (consensus.review).
               </div>
             )}
 
             {Object.keys(errorLog).length > 0 && (
               <details style={{ fontSize: 11, color:'#dc2626', marginTop: 12 }}>
-                <summary>Error details (first 20)</summary>
-                <ul style={{ marginLeft: 18, marginTop: 6 }}>
-                  {Object.entries(errorLog).slice(0, 20).map(([i, e]) => (
-                    <li key={i}>Row {Number(i)+1}: {String(e)}</li>
+                <summary>Error details ({Object.keys(errorLog).length} rows; click one to inspect it)</summary>
+                <ul style={{ marginLeft: 18, marginTop: 6, maxHeight: 240, overflow: 'auto' }}>
+                  {Object.entries(errorLog).map(([i, e]) => (
+                    <li key={i} style={{ cursor: 'pointer' }} onClick={() => setInspectRow(Number(i))}>Row {Number(i)+1}: {String(e)}</li>
                   ))}
                 </ul>
               </details>
@@ -590,36 +1573,106 @@ export default function App() {
           </CardContent>
         </Card>
 
-        {/* Table preview */}
+        <BatchCard
+          plan={batchPlan}
+          pending={rowStates.filter(s => s.status === "pending").length}
+          active={!!runRef.current?.id.startsWith("batch-")}
+          disabled={disabled}
+          onDownload={handleDownloadBatch}
+          onImport={handleImportBatch}
+        />
+
+        <ExportCard
+          value={exportSettings}
+          onChange={setExportSettings}
+          columns={columns}
+          resultKey={resultKey}
+          onExportCSV={() => handleExportCSV()}
+          onExportXLSX={() => handleExportXLSX()}
+          onExportJSON={handleExportJSON}
+          onExportReport={handleExportReport}
+          disabled={!rows.length || status === "running"}
+        />
+
+        <ExperimentsCard
+          value={experiment}
+          onChange={setExperiment}
+          current={{ systemPrompt, userPrompt }}
+          suggestedModels={provider.models}
+          totalRows={rows.length}
+          stats={experimentStats?.stats ?? null}
+          progress={experimentRun?.progress ?? 0}
+          running={!!experimentRun?.running}
+          disabled={status === "running" || !!rankingRun?.running}
+          onRun={handleRunExperiment}
+          onStop={() => { experimentCancelRef.current = true; }}
+          onExport={handleExportExperiment}
+        />
+
+        <RankingCard
+          value={ranking}
+          onChange={setRanking}
+          totalRows={rows.length}
+          calls={tournamentCalls(ranking, rows.length)}
+          costUSD={rankingInfo?.costUSD ?? 0}
+          estimateUSD={rankingEstimate}
+          round={rankingRun?.round ?? 0}
+          rounds={rankingRun?.rounds ?? 0}
+          stats={rankingInfo?.stats ?? null}
+          top={rankingInfo?.top ?? []}
+          progress={rankingRun ? Math.round((rankingRun.calls.length / Math.max(1, tournamentCalls(ranking, rows.length))) * 100) : 0}
+          running={!!rankingRun?.running}
+          disabled={status === "running" || !!experimentRun?.running}
+          onRun={handleRunRanking}
+          onStop={() => { rankingCancelRef.current = true; }}
+          onExport={handleExportRanking}
+        />
+
+        <CalibrationCard columns={columns} rows={rows} value={calibration} onChange={setCalibration} disabled={disabled} />
+
         {Array.isArray(rows) && rows.length > 0 && (
-          <Card style={{ marginTop: 20 }}>
-            <CardHeader>
-              <CardTitle>Data Preview (first 10 rows)</CardTitle>
-              <CardDescription>Appends columns: "{resultKey}", "{resultKey}_json", "eval.valid", "eval.score", "eval.decision".</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div style={{ overflow: 'auto' }}>
-                <table style={{ width:'100%', fontSize: 13 }}>
-                  <thead>
-                    <tr style={{ textAlign:'left', borderBottom:'1px solid #e2e8f0' }}>
-                      {displayColumns.map((c, i) => (
-                        <th key={`${i}-${String(c)}`} style={{ padding:'8px 16px', color:'#475569' }}>{toCell(c)}</th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {rows.slice(0, 10).map((r, i) => (
-                      <tr key={i} style={{ borderBottom:'1px solid #e2e8f0' }}>
-                        {displayColumns.map((c, j) => (
-                          <td key={`${j}-${String(c)}`} style={{ padding:'8px 16px', verticalAlign:'top', maxWidth: 600, whiteSpace: 'pre-wrap' }}>{toCell((r as any)?.[c as any])}</td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </CardContent>
-          </Card>
+          <ReviewCard
+            value={review}
+            onChange={setReview}
+            reviewer={reviewer}
+            onReviewerChange={setReviewer}
+            rows={rows}
+            records={rowReviews}
+            queue={reviewList}
+            resultKey={resultKey}
+            textCol={textCol}
+            auditEntries={reviewAudit.length}
+            disabled={status === "running"}
+            onSubmit={handleReview}
+            onInspect={setInspectRow}
+            onExportAudit={handleExportAudit}
+          />
+        )}
+
+        {Array.isArray(rows) && rows.length > 0 && (
+          <ResultsExplorerCard
+            rows={tableRows}
+            columns={displayColumns}
+            resultKey={resultKey}
+            onExportCSV={(idx) => handleExportCSV(idx)}
+            onExportXLSX={(idx, label) => handleExportXLSX(idx, label)}
+            onRowClick={setInspectRow}
+            disabled={status === "running"}
+          />
+        )}
+
+        {inspectRow !== null && rows[inspectRow] && inspectedPrompts && (
+          <RowInspector
+            index={inspectRow}
+            row={rows[inspectRow]}
+            state={rowStates[inspectRow]}
+            resultKey={resultKey}
+            prompts={inspectedPrompts}
+            loggedError={errorLog[inspectRow]}
+            canRerun={!disabled && !!runRef.current && !!rowStates[inspectRow]}
+            onRerun={() => handleRerun([inspectRow])}
+            onClose={() => setInspectRow(null)}
+          />
         )}
 
         {/* Built-in tiny tests */}
@@ -627,7 +1680,7 @@ export default function App() {
           <CardHeader>
             <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
               { /* icon conditional rendered via text since we don't have Tailwind */ }
-              {testsPassed ? "✅" : "❌"} Built-in tests (template, pricing, JSON parsing)
+              {testsPassed ? "✅" : "❌"} Built-in tests (template, pricing, JSON parsing, providers)
             </CardTitle>
             <CardDescription>Quick local tests for helper functions only.</CardDescription>
           </CardHeader>
@@ -644,7 +1697,7 @@ export default function App() {
 
         <div style={{ fontSize: 11, color:'#64748b' }}>
           <p><b>Data & Compliance:</b> Ensure UNIDO && partner data policies are followed. If sensitive or confidential data is involved, run locally or in an approved environment && use approved models/keys.</p>
-          <p style={{ marginTop: 6 }}><b>Tips:</b> If you hit CORS/rate limits, use your backend as a proxy for OpenAI requests, or lower concurrency.</p>
+          <p style={{ marginTop: 6 }}><b>Tips:</b> If you hit CORS/rate limits, use your backend as a proxy for provider requests, or lower concurrency.</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,312 @@
+/**
+ * Headless batch evaluation: the web app's evaluation core (src/lib/evaluate.ts) run from Node
+ * - Input: CSV / TSV / JSON / JSONL / XLSX (first sheet), read with the same importers as the app
+ * - Run config: a project file exported from the app, or a JSON file with the RunConfig fields plus the scheduler
+ *   && cost settings (see README)
+ * - Output: JSON Lines, one line per finished row, appended as rows finish; --resume skips rows already done
+ * - The API key comes from an environment variable, never from the config file
+ * - --cache reads && updates a response cache file (the app's cache export format), so a run can be replayed offline
+ */
+import fs from "node:fs";
+import { ProviderId, PROVIDERS, getProvider, hashString } from "../lib/providers";
+import { rubricKeyProblem, rubricSchema } from "../lib/rubric";
+import { DEFAULT_CONSENSUS } from "../lib/consensus";
+import { DEFAULT_LONG_INPUT } from "../lib/chunking";
+import { DEFAULT_DEDUPE } from "../lib/dedupe";
+import { DEFAULT_REDACTION, formatCounts, redactionTotals } from "../lib/redaction";
+import { CacheError, MemoryCache, parseCacheFile, summarizeCache, toCacheFile } from "../lib/responseCache";
+import { DEFAULT_PRICES, PriceTable } from "../lib/pricing";
+import { AdaptiveScheduler } from "../lib/scheduler";
+import { parseTemplate } from "../lib/template";
+import { readDataSource } from "../lib/importers";
+import { estimateStatesCost, runRows } from "../lib/evaluate";
+import { DEFAULT_SETTINGS, PROJECT_FORMAT, ProjectSettings, parseProjectFile, runConfigFromSettings } from "../lib/project";
+import { RowState, RunConfig, newRowState, summarizeRowStates } from "../lib/runStore";
+
+const USAGE = `Usage: npm run cli -- --input <data.csv|.jsonl|.xlsx> --config <run.json> --output <results.jsonl> [--resume] [--api-key-env NAME]
+                    [--cache <cache.json>] [--bypass-cache]
+
+  --input        Dataset to evaluate (CSV, TSV, JSON, JSONL or XLSX)
+  --config       Project file exported from the app, or a run config (JSON): provider, model, prompts, schema, concurrency, ...
+  --output       JSON Lines file the results are appended to
+  --resume       Continue an interrupted run: rows marked done in --output are skipped
+  --api-key-env  Environment variable holding the API key (default depends on the provider)
+  --cache        Response cache file (exported from the app or written by an earlier run); cached prompts are not sent,
+                 new responses are added to the file at the end
+  --bypass-cache Send every prompt and refresh the cache file with the new responses`;
+
+const KEY_ENV: Record<ProviderId, string> = {
+  openai: "OPENAI_API_KEY",
+  azure: "AZURE_OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  compatible: "LLM_API_KEY",
+  proxy: "LLM_PROXY_TOKEN",
+  mock: "",
+};
+
+class UsageError extends Error {}
+
+interface CliArgs {
+  input: string;
+  config: string;
+  output: string;
+  resume: boolean;
+  apiKeyEnv: string;
+  cache: string;
+  bypassCache: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { input: "", config: "", output: "", resume: false, apiKeyEnv: "", cache: "", bypassCache: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (!v || v.startsWith("--")) throw new UsageError(`${a} needs a value.`);
+      return v;
+    };
+    if (a === "--input") args.input = value();
+    else if (a === "--config") args.config = value();
+    else if (a === "--output") args.output = value();
+    else if (a === "--api-key-env") args.apiKeyEnv = value();
+    else if (a === "--resume") args.resume = true;
+    else if (a === "--cache") args.cache = value();
+    else if (a === "--bypass-cache") args.bypassCache = true;
+    else throw new UsageError(`Unknown option ${a}.`);
+  }
+  if (!args.input || !args.config || !args.output) throw new UsageError("--input, --config and --output are required.");
+  if (args.bypassCache && !args.cache) throw new UsageError("--bypass-cache needs --cache.");
+  return args;
+}
+
+export interface CliConfig extends RunConfig {
+  concurrency: number;
+  rpm: number;
+  tpm: number;
+  completionTokens: number;
+  /** Stop starting rows once the priced cost of the run reaches this; 0 = no cap. */
+  budgetUSD: number;
+  /** Merged over the built-in price table (USD per 1M tokens). */
+  prices: PriceTable;
+}
+
+function checkPrompts(cfg: CliConfig) {
+  try {
+    parseTemplate(cfg.userPrompt);
+    if (cfg.longInput) { parseTemplate(cfg.longInput.mapPrompt); parseTemplate(cfg.longInput.reducePrompt); }
+  } catch (e: any) {
+    throw new UsageError(`Prompt template: ${e?.message || e}`);
+  }
+  return cfg;
+}
+
+// A project file runs exactly as the app would; prices are the built-in table since the app keeps its own per browser.
+export function configFromProject(s: ProjectSettings): CliConfig {
+  const run = runConfigFromSettings(s);
+  if (typeof run === "string") throw new UsageError(run);
+  return checkPrompts({
+    ...run,
+    concurrency: s.concurrency,
+    rpm: s.rpm,
+    tpm: s.tpm,
+    completionTokens: s.cost.completionTokens,
+    budgetUSD: s.cost.budgetUSD,
+    prices: { ...DEFAULT_PRICES },
+  });
+}
+
+// A whole number of at least `min` for a config field, or `fallback` when the field is absent.
+function wholeNumber(v: any, name: string, min: number, fallback: number) {
+  if (v === undefined || v === null) return fallback;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < min) throw new UsageError(`${name} must be a whole number of at least ${min} (got ${JSON.stringify(v)}).`);
+  return v;
+}
+
+// Missing fields take the web app's defaults; a rubric without an explicit schema validates against the rubric's schema.
+export function normalizeConfig(raw: any): CliConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new UsageError("The run config must be a JSON object.");
+  if (raw.apiKey) throw new UsageError("Do not put the API key in the run config; pass it through an environment variable.");
+  const providerId: ProviderId = raw.providerId || "openai";
+  if (!PROVIDERS[providerId]) throw new UsageError(`Unknown providerId "${providerId}" (${Object.keys(PROVIDERS).join(", ")}).`);
+  if (!raw.userPrompt) throw new UsageError("The run config needs a userPrompt.");
+  const rubric = raw.rubric || null;
+  if (rubric && rubricKeyProblem(rubric)) throw new UsageError(rubricKeyProblem(rubric));
+  const schema = raw.outputSchema || (rubric ? rubricSchema(rubric) : null);
+  const cfg: CliConfig = {
+    providerId,
+    baseUrl: raw.baseUrl || "",
+    apiVersion: raw.apiVersion || DEFAULT_SETTINGS.apiVersion,
+    model: raw.model || getProvider(providerId).models[0] || "",
+    temperature: raw.temperature ?? DEFAULT_SETTINGS.temperature,
+    systemPrompt: raw.systemPrompt ?? DEFAULT_SETTINGS.systemPrompt,
+    userPrompt: raw.userPrompt,
+    textCol: raw.textCol || "",
+    resultKey: raw.resultKey || DEFAULT_SETTINGS.resultKey,
+    maxRetries: raw.maxRetries ?? DEFAULT_SETTINGS.maxRetries,
+    outputSchema: raw.validate === false ? null : schema,
+    repair: raw.repair ?? false,
+    responseSchema: raw.structured ? schema : null,
+    rubric,
+    consensus: raw.consensus
+      ? { ...DEFAULT_CONSENSUS, ...raw.consensus, enabled: true, samplesPerModel: wholeNumber(raw.consensus.samplesPerModel, "consensus.samplesPerModel", 1, DEFAULT_CONSENSUS.samplesPerModel) }
+      : null,
+    hiddenColumns: raw.hiddenColumns || [],
+    longInput: raw.longInput ? { ...DEFAULT_LONG_INPUT, ...raw.longInput, enabled: true } : null,
+    dedupe: raw.dedupe ? { ...DEFAULT_DEDUPE, ...raw.dedupe, enabled: true } : null,
+    redaction: raw.redaction ? { ...DEFAULT_REDACTION, ...raw.redaction, enabled: true } : null,
+    concurrency: wholeNumber(raw.concurrency, "concurrency", 1, DEFAULT_SETTINGS.concurrency),
+    rpm: wholeNumber(raw.rpm, "rpm", 0, DEFAULT_SETTINGS.rpm),
+    tpm: wholeNumber(raw.tpm, "tpm", 0, DEFAULT_SETTINGS.tpm),
+    completionTokens: raw.completionTokens ?? DEFAULT_SETTINGS.cost.completionTokens,
+    budgetUSD: raw.budgetUSD ?? DEFAULT_SETTINGS.cost.budgetUSD,
+    prices: { ...DEFAULT_PRICES, ...(raw.prices || {}) },
+  };
+  if (!cfg.model) throw new UsageError("The run config needs a model.");
+  return checkPrompts(cfg);
+}
+
+function readConfig(path: string) {
+  const text = fs.readFileSync(path, "utf8");
+  let raw: any;
+  try { raw = JSON.parse(text); } catch (e: any) { throw new UsageError(`${path} is not valid JSON (${e?.message || e}).`); }
+  if (raw?.format !== PROJECT_FORMAT) return normalizeConfig(raw);
+  try {
+    return configFromProject(parseProjectFile(text).settings);
+  } catch (e: any) {
+    throw new UsageError(`${path}: ${e?.message || e}`);
+  }
+}
+
+// Ties an output line to its input row, so --resume notices when the dataset changed under it.
+function rowHash(row: Record<string, any>) {
+  return hashString(JSON.stringify(row)).toString(36);
+}
+
+export function outputLine(idx: number, row: Record<string, any>, state: RowState) {
+  return JSON.stringify({
+    _row: idx,
+    _input: rowHash(row),
+    _status: state.status,
+    _attempts: state.attempts,
+    ...(state.error ? { _error: state.error } : {}),
+    ...(state.usageByModel ? { _usageByModel: state.usageByModel } : {}),
+    ...(state.redactions ? { _redactions: state.redactions } : {}),
+    ...(state.result || row),
+  });
+}
+
+// Latest line per row from an earlier run; later lines (a retried row) win. The line minus its _ fields is the row's
+// result, which representative-mode dedupe copies to the row's duplicates.
+export function readFinishedRows(text: string, rows: Record<string, any>[]) {
+  const finished = new Map<number, Pick<RowState, "status" | "attempts" | "usageByModel" | "redactions" | "result">>();
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let rec: any;
+    try { rec = JSON.parse(line); } catch { throw new UsageError(`Output line ${i + 1} is not valid JSON; fix or truncate it before resuming.`); }
+    const idx = rec?._row;
+    if (!Number.isInteger(idx) || idx < 0 || idx >= rows.length || rec._input !== rowHash(rows[idx])) {
+      throw new UsageError(`Output line ${i + 1} does not match row ${idx} of the input; was the dataset changed?`);
+    }
+    const result = Object.fromEntries(Object.entries(rec).filter(([k]) => !k.startsWith("_")));
+    finished.set(idx, { status: rec._status, attempts: Number(rec._attempts || 0), usageByModel: rec._usageByModel, redactions: rec._redactions, result });
+  });
+  return finished;
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv);
+  const cfg = readConfig(args.config);
+  const source = readDataSource(args.input, new Uint8Array(fs.readFileSync(args.input)));
+  const rows = source.rows;
+  if (!rows.length) throw new UsageError(`${args.input} has no rows.`);
+
+  const provider = getProvider(cfg.providerId);
+  if (provider.needsBaseUrl && !cfg.baseUrl) throw new UsageError(`${provider.label} needs a baseUrl.`);
+  const keyEnv = args.apiKeyEnv || KEY_ENV[cfg.providerId];
+  const apiKey = keyEnv ? process.env[keyEnv] || "" : "";
+  let cache: MemoryCache | null = null;
+  if (args.cache) {
+    try {
+      cache = new MemoryCache(fs.existsSync(args.cache) ? parseCacheFile(fs.readFileSync(args.cache, "utf8")) : []);
+    } catch (e: any) {
+      throw new UsageError(`${args.cache}: ${e instanceof CacheError ? e.message : e?.message || e}`);
+    }
+  }
+  // Replaying from a cache file needs no key; prompts missing from it then fail.
+  if (provider.needsKey && !apiKey && !(cache && !args.bypassCache)) throw new UsageError(`Set ${keyEnv || "--api-key-env"} to your ${provider.label} API key.`);
+
+  const states: RowState[] = rows.map(() => newRowState());
+  const exists = fs.existsSync(args.output) && fs.statSync(args.output).size > 0;
+  if (exists && !args.resume) throw new UsageError(`${args.output} already exists; pass --resume to continue it or choose another file.`);
+  if (exists) {
+    // Finished rows are skipped; failed rows are tried again, keeping their attempts && usage.
+    for (const [idx, rec] of readFinishedRows(fs.readFileSync(args.output, "utf8"), rows)) {
+      states[idx] = rec.status === "done"
+        ? { status: "done", attempts: rec.attempts, usageByModel: rec.usageByModel, redactions: rec.redactions, result: rec.result }
+        : { status: "pending", attempts: rec.attempts, usageByModel: rec.usageByModel, redactions: rec.redactions };
+    }
+  }
+
+  const total = rows.length;
+  const skipped = states.filter(s => s.status === "done").length;
+  process.stderr.write(`${source.name}: ${total} rows, ${cfg.providerId}/${cfg.model}${skipped ? `, ${skipped} already done` : ""}\n`);
+
+  let cancelled = false;
+  let stopReason = "";
+  const onSigint = () => {
+    if (cancelled) process.exit(130);
+    cancelled = true;
+    stopReason = "interrupted";
+    process.stderr.write("\nStopping after the rows in flight (Ctrl+C again to quit now)...\n");
+  };
+  process.on("SIGINT", onSigint);
+
+  const scheduler = new AdaptiveScheduler({ maxConcurrency: cfg.concurrency, rpm: cfg.rpm, tpm: cfg.tpm });
+  let finished = skipped;
+  await runRows({
+    cfg,
+    rows,
+    states,
+    apiKey,
+    scheduler,
+    completionTokens: cfg.completionTokens,
+    cache: cache && { store: cache, read: !args.bypassCache },
+    isCancelled: () => cancelled,
+    onError: (idx, msg) => process.stderr.write(`row ${idx + 1}: ${msg}\n`),
+    onRow: (idx, state) => {
+      states[idx] = state;
+      if (state.status === "pending") return;
+      fs.appendFileSync(args.output, `${outputLine(idx, rows[idx], state)}\n`);
+      finished++;
+      const cost = estimateStatesCost(states, cfg.model, cfg.prices);
+      process.stderr.write(`[${finished}/${total}] row ${idx + 1} ${state.status} · ~$${cost.totalUSD.toFixed(4)}\n`);
+      if (cfg.budgetUSD > 0 && cost.totalUSD >= cfg.budgetUSD && !cancelled) {
+        cancelled = true;
+        stopReason = `budget of $${cfg.budgetUSD} reached`;
+      }
+    },
+  });
+  process.off("SIGINT", onSigint);
+
+  const counts = summarizeRowStates(states);
+  const cost = estimateStatesCost(states, cfg.model, cfg.prices);
+  process.stderr.write(`Done: ${counts.done}, failed: ${counts.failed}, not run: ${counts.pending + counts.running} · ~$${cost.totalUSD.toFixed(4)}` +
+    `${cost.unpriced.length ? ` (no price for ${cost.unpriced.join(", ")})` : ""}\n`);
+  if (cache) {
+    fs.writeFileSync(args.cache, JSON.stringify(toCacheFile(Array.from(cache.entries.values()))));
+    const c = summarizeCache(states.map(s => s.cache), cfg.prices);
+    process.stderr.write(`Cache: ${c.hits} hit(s), ${c.misses} miss(es), saved ~$${c.savedUSD.toFixed(4)}; ${cache.entries.size} response(s) in ${args.cache}\n`);
+  }
+  if (cfg.redaction) {
+    const redacted = redactionTotals(states.map(s => s.redactions));
+    process.stderr.write(`Redacted in ${redacted.rows} row(s): ${formatCounts(redacted.totals)}\n`);
+  }
+  if (stopReason) process.stderr.write(`Stopped: ${stopReason}. Run again with --resume to continue.\n`);
+  return stopReason === "interrupted" ? 130 : counts.failed || counts.pending ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; }, (e: any) => {
+  process.stderr.write(`${e?.message || e}\n`);
+  if (e instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+  process.exitCode = 2;
+});
@@ -0,0 +1,62 @@
+import React from "react";
+import { Download, Layers, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { BATCH_DISCOUNT } from "../lib/pricing";
+
+export function BatchCard({ plan, pending, active, disabled, onDownload, onImport }: {
+  /** Requests the file would hold && their projected cost, or why it cannot be written. */
+  plan: { requests: number; listUSD: number; batchUSD: number; unpriced: string[]; notes: string[] } | { error: string } | null;
+  /** Rows of the current batch run still waiting for a result. */
+  pending: number;
+  /** Whether the current run was started from a batch file. */
+  active: boolean;
+  disabled?: boolean;
+  onDownload: () => void;
+  onImport: (files: File[]) => void;
+}) {
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Layers size={18}/>OpenAI Batch API</CardTitle>
+        <CardDescription>
+          Writes one Chat Completions request per row to a JSONL file for the OpenAI Batch API, which answers within 24 hours at {Math.round((1 - BATCH_DISCOUNT) * 100)}% off.
+          Upload it on the OpenAI platform (or with the API), close the browser, and import the output and error files here when the batch has finished.
+          Results are matched to rows by custom_id and parsed like a live run; the run is kept in this browser until then.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {plan && "error" in plan && <div style={{ fontSize: 12, color: '#dc2626' }}>{plan.error}</div>}
+        {plan && !("error" in plan) && (
+          <>
+            <div style={{ fontSize: 12, color: '#475569' }}>
+              {plan.requests} request(s), ~${plan.batchUSD.toFixed(4)} USD at batch prices (~${plan.listUSD.toFixed(4)} live).
+              {plan.unpriced.length > 0 && <span style={{ color: '#b45309' }}> No price for {plan.unpriced.join(", ")} (counted as $0).</span>}
+            </div>
+            {plan.notes.map((n, i) => <div key={i} style={{ fontSize: 12, color: '#b45309', marginTop: 4 }}>{n}</div>)}
+          </>
+        )}
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+          <Button disabled={disabled || !plan || "error" in plan} onClick={onDownload}><Download size={16} style={{ marginRight: 6 }}/>Download batch JSONL</Button>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+            <Upload size={16}/>Import output / error files
+            <Input type="file" multiple accept=".jsonl,.json,.txt" disabled={disabled || !active} style={{ maxWidth: 260 }} onChange={(e) => {
+              const input = e.target as HTMLInputElement;
+              const files = Array.from(input.files || []);
+              if (files.length) onImport(files);
+              input.value = "";
+            }} />
+          </label>
+        </div>
+        {active && (
+          <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>
+            {pending ? `${pending} row(s) of the current batch still waiting for a result. Resume in the Run card evaluates them live instead.` : "Every row of the current batch has a result."}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default BatchCard;
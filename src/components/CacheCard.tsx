@@ -0,0 +1,100 @@
+import React from "react";
+import { Database, Download, RefreshCw, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { CacheEntry, CacheSettings } from "../lib/responseCache";
+
+const cell: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0', verticalAlign: 'top' };
+
+function excerpt(s: string, n = 120) {
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > n ? `${t.slice(0, n)}…` : t;
+}
+
+export function CacheCard({ value, onChange, entries, onRefresh, onDelete, onClear, onExport, onImport, disabled }: {
+  value: CacheSettings;
+  onChange: (v: CacheSettings) => void;
+  /** Stored responses, newest first; null until loaded. */
+  entries: CacheEntry[] | null;
+  onRefresh: () => void;
+  onDelete: (key: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}) {
+  const set = (patch: Partial<CacheSettings>) => onChange({ ...value, ...patch });
+  const tokens = (entries || []).reduce((n, e) => n + e.usage.prompt_tokens + e.usage.completion_tokens, 0);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Database size={18}/>Response Cache</CardTitle>
+        <CardDescription>
+          Stores every response in this browser, keyed on provider, model, temperature, system prompt and the prompt as sent. Sending the
+          same prompt again (after a pause, a new result column or a crash) answers from the cache at no cost. Export the cache so a
+          teammate can replay the run offline and get the same outputs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', fontSize: 13 }}>
+          <label><input type="checkbox" checked={value.enabled} disabled={disabled} onChange={(e) => set({ enabled: e.target.checked })} /> Use the response cache</label>
+          <label title="Every prompt goes to the provider; the fresh responses replace the cached ones">
+            <input type="checkbox" checked={value.bypass} disabled={disabled || !value.enabled} onChange={(e) => set({ bypass: e.target.checked })} /> Bypass cache for the next run
+          </label>
+        </div>
+        {value.enabled && !value.bypass && (
+          <div style={{ fontSize: 11, color: '#64748b', marginTop: 6 }}>A run can start without an API key; prompts that are not cached then fail.</div>
+        )}
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+          <Button onClick={onRefresh}><RefreshCw size={16} style={{ marginRight: 6 }}/>Refresh</Button>
+          <Button disabled={!entries?.length} onClick={onExport}><Download size={16} style={{ marginRight: 6 }}/>Export cache</Button>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+            <Upload size={16}/>Import cache
+            <Input type="file" accept=".json,application/json" disabled={disabled} style={{ maxWidth: 260 }} onChange={(e) => {
+              const input = e.target as HTMLInputElement;
+              const file = input.files?.[0];
+              if (file) onImport(file);
+              input.value = "";
+            }} />
+          </label>
+          <Button disabled={disabled || !entries?.length} onClick={onClear}><Trash2 size={16} style={{ marginRight: 6 }}/>Clear cache</Button>
+        </div>
+
+        {entries && (
+          <div style={{ fontSize: 12, color: '#475569', marginTop: 12 }}>
+            {entries.length ? `${entries.length} cached response(s), ${tokens.toLocaleString()} tokens of original usage.` : "The cache is empty."}
+          </div>
+        )}
+        {entries && entries.length > 0 && (
+          <div style={{ maxHeight: 280, overflow: 'auto', marginTop: 8, border: '1px solid #e2e8f0', borderRadius: 8 }}>
+            <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: '#f8fafc', textAlign: 'left' }}>
+                  <th style={cell}>Stored</th><th style={cell}>Model</th><th style={cell}>Tokens</th><th style={cell}>Prompt</th><th style={cell}>Response</th><th style={cell} />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.slice(0, 100).map(e => (
+                  <tr key={e.key}>
+                    <td style={cell} title={e.key}>{new Date(e.createdAt).toLocaleString()}</td>
+                    <td style={cell}>{e.providerId}/{e.model}</td>
+                    <td style={cell}>{e.usage.prompt_tokens}+{e.usage.completion_tokens}</td>
+                    <td style={cell}>{excerpt(e.promptStart)}</td>
+                    <td style={cell}>{excerpt(e.content)}</td>
+                    <td style={cell}><Button disabled={disabled} onClick={() => onDelete(e.key)}><Trash2 size={14}/></Button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length > 100 && <div style={{ fontSize: 11, color: '#64748b', padding: 6 }}>Showing the newest 100 entries; export the cache to see all.</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CacheCard;
@@ -0,0 +1,127 @@
+import React, { useMemo } from "react";
+import { Target } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Label } from "./ui/label";
+import { CalibrationSettings, computeCalibration } from "../lib/calibration";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+const cell: React.CSSProperties = { padding: '4px 10px', border: '1px solid #e2e8f0', textAlign: 'center' };
+
+function fmt(n: number | undefined, d = 3) {
+  return n === undefined || !Number.isFinite(n) ? "n/a" : n.toFixed(d);
+}
+
+export function CalibrationCard({ columns, rows, value, onChange, disabled }: {
+  columns: string[];
+  rows: Record<string, any>[];
+  value: CalibrationSettings;
+  onChange: (v: CalibrationSettings) => void;
+  disabled?: boolean;
+}) {
+  const active = !!(value.goldScoreCol || value.goldDecisionCol);
+  const report = useMemo(() => active ? computeCalibration(rows, value) : null, [active, rows, value]);
+  const hasResults = rows.some(r => r?.["eval.score"] !== undefined || r?.["eval.decision"] !== undefined);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Target size={18}/>Calibration vs. Human Labels</CardTitle>
+        <CardDescription>
+          Map columns that already hold a human score and/or Go/No-Go decision. They are withheld from the prompt and compared with
+          "eval.score" / "eval.decision" after the run. Scores are compared as-is, so both must use the same scale.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+          <div>
+            <Label>Gold score column</Label>
+            <select style={selectStyle} value={value.goldScoreCol} disabled={disabled} onChange={(e) => onChange({ ...value, goldScoreCol: e.target.value })}>
+              <option value="">None</option>
+              {columns.map((c, i) => <option key={`${i}-${c}`} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <Label>Gold decision column</Label>
+            <select style={selectStyle} value={value.goldDecisionCol} disabled={disabled} onChange={(e) => onChange({ ...value, goldDecisionCol: e.target.value })}>
+              <option value="">None</option>
+              {columns.map((c, i) => <option key={`${i}-${c}`} value={c}>{c}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {report && !hasResults && (
+          <div style={{ fontSize: 12, color: '#475569', marginTop: 12 }}>The report appears once rows have been evaluated.</div>
+        )}
+
+        {report && hasResults && (
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 20, marginTop: 16, fontSize: 13 }}>
+            <div>
+              <b>Score</b>
+              {report.score ? (
+                <ul style={{ marginLeft: 18, marginTop: 6 }}>
+                  <li>Compared rows: {report.score.n}</li>
+                  <li>MAE: {fmt(report.score.mae)}</li>
+                  <li>RMSE: {fmt(report.score.rmse)}</li>
+                  <li>Spearman ρ: {fmt(report.score.spearman)}</li>
+                </ul>
+              ) : <div style={{ color: '#64748b', marginTop: 6 }}>No rows with both a gold and a model score.</div>}
+            </div>
+            <div>
+              <b>Decision</b>
+              {report.decision ? (
+                <>
+                  <div style={{ marginTop: 6 }}>Accuracy {fmt(report.decision.accuracy * 100, 1)}% over {report.decision.n} rows</div>
+                  <table style={{ borderCollapse: 'collapse', marginTop: 8, fontSize: 12 }}>
+                    <thead>
+                      <tr>
+                        <th style={cell}>gold ↓ / model →</th>
+                        {report.decision.labels.map(l => <th key={l} style={cell}>{l}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.decision.labels.map((g, i) => (
+                        <tr key={g}>
+                          <th style={cell}>{g}</th>
+                          {report.decision!.matrix[i].map((n, j) => (
+                            <td key={j} style={{ ...cell, background: i === j ? '#dcfce7' : n ? '#fee2e2' : undefined }}>{n}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              ) : <div style={{ color: '#64748b', marginTop: 6 }}>No rows with both a gold and a model decision.</div>}
+            </div>
+            <div style={{ gridColumn: '1 / -1' }}>
+              <b>Biggest disagreements</b>
+              {report.disagreements.length ? (
+                <table style={{ borderCollapse: 'collapse', marginTop: 8, fontSize: 12, width: '100%' }}>
+                  <thead>
+                    <tr>
+                      <th style={cell}>Row</th><th style={cell}>Gold score</th><th style={cell}>Model score</th><th style={cell}>Δ</th>
+                      <th style={cell}>Gold decision</th><th style={cell}>Model decision</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.disagreements.map(d => (
+                      <tr key={d.idx}>
+                        <td style={cell}>{d.idx + 1}</td>
+                        <td style={cell}>{d.goldScore ?? ""}</td>
+                        <td style={cell}>{d.modelScore ?? ""}</td>
+                        <td style={cell}>{d.scoreDiff === undefined ? "" : (d.scoreDiff > 0 ? "+" : "") + fmt(d.scoreDiff, 2)}</td>
+                        <td style={cell}>{d.goldDecision ?? ""}</td>
+                        <td style={{ ...cell, color: d.decisionMismatch ? '#b91c1c' : undefined }}>{d.modelDecision ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : <div style={{ color: '#64748b', marginTop: 6 }}>None.</div>}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CalibrationCard;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ConsensusSettings } from "../lib/consensus";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+
+export function ConsensusCard({ value, onChange, disabled, runModel, suggestedModels, temperature }: {
+  value: ConsensusSettings;
+  onChange: (v: ConsensusSettings) => void;
+  disabled?: boolean;
+  runModel: string;
+  suggestedModels: string[];
+  temperature: number;
+}) {
+  const set = (patch: Partial<ConsensusSettings>) => onChange({ ...value, ...patch });
+  const parseModels = (text: string) => text.split(",").map(m => m.trim()).filter(Boolean);
+  // Raw text is kept locally so a trailing comma survives while typing.
+  const [modelsText, setModelsText] = useState(value.models.join(", "));
+  useEffect(() => {
+    if (parseModels(modelsText).join(",") !== value.models.join(",")) setModelsText(value.models.join(", "));
+  }, [value.models]);
+  const models = value.models.length ? value.models : [runModel];
+  const calls = models.length * Math.max(0, value.samplesPerModel);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Users size={18}/>Consensus Scoring</CardTitle>
+        <CardDescription>
+          Sample each row several times (optionally across models) and aggregate. Adds "consensus.n", "consensus.score_sd",
+          "consensus.agreement" and "consensus.review"; the individual samples are kept in the JSON export under "consensus.samples".
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label style={{ fontSize: 13 }}><input type="checkbox" checked={value.enabled} disabled={disabled} onChange={(e) => set({ enabled: e.target.checked })} /> Enable consensus mode</label>
+        {value.enabled && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr 1fr', gap: 16, marginTop: 12 }}>
+              <div>
+                <Label>Samples per model</Label>
+                <Input type="number" min={1} max={20} value={value.samplesPerModel} disabled={disabled} onChange={(e) => set({ samplesPerModel: parseInt(e.target.value || "1") })} />
+              </div>
+              <div>
+                <Label>Aggregate scores by</Label>
+                <select style={selectStyle} value={value.aggregate} disabled={disabled} onChange={(e) => set({ aggregate: e.target.value as ConsensusSettings["aggregate"] })}>
+                  <option value="mean">Mean</option>
+                  <option value="median">Median</option>
+                </select>
+              </div>
+              <div>
+                <Label>Flag if score SD &gt;</Label>
+                <Input type="number" min={0} step={0.1} value={value.maxScoreSd} disabled={disabled} onChange={(e) => set({ maxScoreSd: Number(e.target.value) || 0 })} />
+              </div>
+              <div>
+                <Label>Flag if decision agreement &lt;</Label>
+                <Input type="number" min={0} max={1} step={0.05} value={value.minAgreement} disabled={disabled} onChange={(e) => set({ minAgreement: Number(e.target.value) || 0 })} />
+              </div>
+            </div>
+            <div style={{ marginTop: 12 }}>
+              <Label>Models (comma-separated; empty = {runModel || "the selected model"})</Label>
+              <Input
+                list="consensus-models"
+                placeholder={suggestedModels.join(", ")}
+                value={modelsText}
+                disabled={disabled}
+                onChange={(e) => { setModelsText(e.target.value); set({ models: parseModels(e.target.value) }); }}
+              />
+              <datalist id="consensus-models">
+                {suggestedModels.map(m => <option key={m} value={m} />)}
+              </datalist>
+            </div>
+            <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>
+              {calls} call(s) per row{calls > 1 && temperature === 0 ? " — with temperature 0 the samples of one model will mostly be identical; raise it for self-consistency." : "."}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ConsensusCard;
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { AlertTriangle, DollarSign, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { CostSettings, DEFAULT_PRICES, PreflightEstimate, PriceTable } from "../lib/pricing";
+
+const cell: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0' };
+
+function usd(n: number) {
+  return n < 0.01 && n > 0 ? n.toFixed(6) : n.toFixed(4);
+}
+
+export function CostCard({ value, onChange, prices, onPricesChange, estimate, disabled }: {
+  value: CostSettings;
+  onChange: (v: CostSettings) => void;
+  prices: PriceTable;
+  onPricesChange: (p: PriceTable) => void;
+  estimate: PreflightEstimate | null;
+  disabled?: boolean;
+}) {
+  const [newModel, setNewModel] = useState("");
+  const setPrice = (m: string, key: "in" | "out", v: string) => onPricesChange({ ...prices, [m]: { ...prices[m], [key]: Math.max(0, Number(v) || 0) } });
+  const addModel = (m: string) => {
+    const name = m.trim();
+    if (!name || prices[name]) return;
+    onPricesChange({ ...prices, [name]: { in: 0, out: 0 } });
+    setNewModel("");
+  };
+  const removeModel = (m: string) => onPricesChange(Object.fromEntries(Object.entries(prices).filter(([k]) => k !== m)));
+  const overBudget = !!estimate && value.budgetUSD > 0 && estimate.totalUSD > value.budgetUSD;
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><DollarSign size={18}/>Cost & Budget</CardTitle>
+        <CardDescription>
+          Prices are USD per 1M tokens and are saved in this browser. The estimate counts ~4 characters per token of the rendered prompts;
+          retries and repair calls are not included. With a budget set, the run pauses once the running cost reaches it (calls already in
+          flight still finish).
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+          <div>
+            <Label>Expected completion tokens per call</Label>
+            <Input type="number" min={0} value={value.completionTokens} disabled={disabled} onChange={(e) => onChange({ ...value, completionTokens: Math.max(0, parseInt(e.target.value || "0")) })} />
+          </div>
+          <div>
+            <Label>Budget limit in USD (0 = none)</Label>
+            <Input type="number" min={0} step={0.01} value={value.budgetUSD} disabled={disabled} onChange={(e) => onChange({ ...value, budgetUSD: Math.max(0, Number(e.target.value) || 0) })} />
+          </div>
+        </div>
+
+        {estimate && (
+          <div style={{ fontSize: 13, marginTop: 12, padding: '8px 12px', background: overBudget ? '#fef2f2' : '#f8fafc', border: '1px solid #e2e8f0', borderRadius: 8 }}>
+            <b>Pre-flight estimate:</b> {estimate.rows} row(s), {estimate.calls} call(s), ~{estimate.promptTokens.toLocaleString()} prompt
+            + ~{estimate.completionTokens.toLocaleString()} completion tokens (largest prompt ~{estimate.maxPromptTokens.toLocaleString()}).
+            Projected cost <b>${usd(estimate.totalUSD)}</b>{estimate.rows ? ` (~$${usd(estimate.totalUSD / estimate.rows)} per row)` : ""}.
+            {overBudget && <div style={{ color: '#b91c1c', marginTop: 4 }}>The projection exceeds the budget; the run will pause before finishing.</div>}
+            {estimate.unpriced.length > 0 && (
+              <div style={{ color: '#b45309', marginTop: 4, display: 'flex', gap: 6, alignItems: 'center', flexWrap: 'wrap' }}>
+                <AlertTriangle size={14}/> No price for {estimate.unpriced.join(", ")}; these calls are counted as $0.
+                {estimate.unpriced.map(m => <Button key={m} disabled={disabled} onClick={() => addModel(m)}>Add {m}</Button>)}
+              </div>
+            )}
+          </div>
+        )}
+
+        <details style={{ marginTop: 12 }}>
+          <summary style={{ fontSize: 13, cursor: 'pointer' }}>Price table ({Object.keys(prices).length} models)</summary>
+          <table style={{ fontSize: 12, borderCollapse: 'collapse', marginTop: 8, width: '100%' }}>
+            <thead>
+              <tr style={{ color: '#475569', textAlign: 'left' }}>
+                <th style={cell}>Model</th><th style={cell}>Input / 1M</th><th style={cell}>Output / 1M</th><th style={cell} />
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(prices).map(([m, p]) => (
+                <tr key={m}>
+                  <td style={cell}>{m}</td>
+                  <td style={cell}><Input type="number" min={0} step={0.01} value={p.in} disabled={disabled} onChange={(e) => setPrice(m, "in", e.target.value)} /></td>
+                  <td style={cell}><Input type="number" min={0} step={0.01} value={p.out} disabled={disabled} onChange={(e) => setPrice(m, "out", e.target.value)} /></td>
+                  <td style={cell}><Button disabled={disabled} onClick={() => removeModel(m)}><Trash2 size={14}/></Button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+            <Input placeholder="model name" value={newModel} disabled={disabled} onChange={(e) => setNewModel(e.target.value)} style={{ maxWidth: 260 }} />
+            <Button disabled={disabled || !newModel.trim() || !!prices[newModel.trim()]} onClick={() => addModel(newModel)}><Plus size={14} style={{ marginRight: 6 }}/>Add model</Button>
+            <Button disabled={disabled} onClick={() => onPricesChange({ ...DEFAULT_PRICES })}><RotateCcw size={14} style={{ marginRight: 6 }}/>Reset to defaults</Button>
+          </div>
+        </details>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CostCard;
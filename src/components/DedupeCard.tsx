@@ -0,0 +1,105 @@
+import React from "react";
+import { Copy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { DedupeMode, DedupeSettings, DuplicateReport, skippedDuplicates } from "../lib/dedupe";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+const cell: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0', verticalAlign: 'top' };
+
+function excerpt(s: string, n = 140) {
+  const t = s.replace(/\s+/g, " ").trim();
+  return t.length > n ? `${t.slice(0, n)}…` : t;
+}
+
+export function DedupeCard({ value, onChange, report, texts, textCol, disabled }: {
+  value: DedupeSettings;
+  onChange: (v: DedupeSettings) => void;
+  /** Clusters for the loaded rows with the current settings; null while disabled. */
+  report: DuplicateReport | null;
+  /** Submission text per row, for the excerpts. */
+  texts: string[];
+  textCol: string;
+  disabled?: boolean;
+}) {
+  const set = (patch: Partial<DedupeSettings>) => onChange({ ...value, ...patch });
+  const clustered = report ? report.clusters.reduce((n, c) => n + c.rows.length, 0) : 0;
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Copy size={18}/>Near-Duplicates</CardTitle>
+        <CardDescription>
+          Compares the submission text of all rows locally (word shingles, MinHash) before the run. Rows at or above the similarity
+          threshold form a cluster; its first row is the representative. Tag mode evaluates every row and adds "dup.cluster", "dup.of"
+          and "dup.similarity"; representative mode evaluates only the representative and copies its result to the other rows
+          ("dup.copied"), which saves their cost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label style={{ fontSize: 13 }}><input type="checkbox" checked={value.enabled} disabled={disabled} onChange={(e) => set({ enabled: e.target.checked })} /> Detect near-duplicates</label>
+        {value.enabled && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16, marginTop: 12 }}>
+              <div>
+                <Label>Similarity threshold (0–1)</Label>
+                <Input type="number" min={0.3} max={1} step={0.05} value={value.threshold} disabled={disabled} onChange={(e) => set({ threshold: Math.min(1, Math.max(0.3, Number(e.target.value) || 0.8)) })} />
+              </div>
+              <div>
+                <Label>Words per shingle</Label>
+                <Input type="number" min={1} max={10} value={value.shingleSize} disabled={disabled} onChange={(e) => set({ shingleSize: Math.min(10, Math.max(1, parseInt(e.target.value || "4") || 4)) })} />
+              </div>
+              <div>
+                <Label>Duplicates are</Label>
+                <select style={selectStyle} value={value.mode} disabled={disabled} onChange={(e) => set({ mode: e.target.value as DedupeMode })}>
+                  <option value="tag">Evaluated and tagged</option>
+                  <option value="representative">Copied from the representative</option>
+                </select>
+              </div>
+            </div>
+
+            {!textCol && (
+              <div style={{ fontSize: 12, color: '#b45309', marginTop: 8 }}>
+                No submission column is selected, so whole rows are compared as JSON; an id column then makes every row unique.
+              </div>
+            )}
+
+            {report && (
+              <div style={{ fontSize: 12, color: '#475569', marginTop: 12 }}>
+                {report.clusters.length
+                  ? <>{report.clusters.length} cluster(s) with {clustered} rows.{value.mode === "representative" ? ` ${skippedDuplicates(report)} row(s) will not be sent to the model.` : ""}</>
+                  : "No near-duplicates found."}
+              </div>
+            )}
+
+            {report && report.clusters.length > 0 && (
+              <div style={{ maxHeight: 320, overflow: 'auto', marginTop: 8, border: '1px solid #e2e8f0', borderRadius: 8 }}>
+                <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ background: '#f8fafc', textAlign: 'left' }}>
+                      <th style={cell}>Cluster</th><th style={cell}>Row</th><th style={cell}>Similarity</th><th style={cell}>Text</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.clusters.slice(0, 50).flatMap(c => c.rows.map(i => (
+                      <tr key={`${c.id}-${i}`} style={{ background: i === c.representative ? '#f0f9ff' : undefined }}>
+                        <td style={cell}>{i === c.representative ? `#${c.id}` : ""}</td>
+                        <td style={cell}>{i + 1}{i === c.representative ? " (representative)" : ""}</td>
+                        <td style={cell}>{i === c.representative ? "–" : `${Math.round(c.similarity[i] * 100)}%`}</td>
+                        <td style={cell}>{excerpt(texts[i] || "")}</td>
+                      </tr>
+                    )))}
+                  </tbody>
+                </table>
+                {report.clusters.length > 50 && <div style={{ fontSize: 11, color: '#64748b', padding: 6 }}>Showing the first 50 clusters; all are tagged in the results.</div>}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DedupeCard;
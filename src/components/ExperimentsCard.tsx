@@ -0,0 +1,174 @@
+import React from "react";
+import { Download, FlaskConical, Play, Plus, Square, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { ExperimentSettings, PromptVariant, VariantStats, newVariantId } from "../lib/experiments";
+
+const cell: React.CSSProperties = { padding: '6px 10px', borderBottom: '1px solid #e2e8f0', textAlign: 'right', whiteSpace: 'nowrap' };
+
+function fmt(n: number | undefined, d = 2) {
+  return n === undefined || !Number.isFinite(n) ? "–" : n.toFixed(d);
+}
+
+function pct(n: number | undefined) {
+  return n === undefined ? "–" : `${(n * 100).toFixed(1)}%`;
+}
+
+function Histogram({ histogram }: { histogram: Record<string, number> }) {
+  const keys = Object.keys(histogram).map(Number).sort((a, b) => a - b);
+  if (!keys.length) return <span>–</span>;
+  const max = Math.max(...keys.map(k => histogram[String(k)]));
+  return (
+    <div style={{ display: 'flex', alignItems: 'flex-end', gap: 2, height: 32 }} title={keys.map(k => `${k}: ${histogram[String(k)]}`).join("\n")}>
+      {keys.map(k => (
+        <div key={k} style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', fontSize: 9, color: '#64748b' }}>
+          <div style={{ width: 12, height: Math.max(2, (histogram[String(k)] / max) * 22), background: '#6366f1', borderRadius: 2 }} />
+          {k}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ExperimentsCard({ value, onChange, current, suggestedModels, totalRows, stats, progress, running, disabled, onRun, onStop, onExport }: {
+  value: ExperimentSettings;
+  onChange: (v: ExperimentSettings) => void;
+  current: { systemPrompt: string; userPrompt: string };
+  suggestedModels: string[];
+  totalRows: number;
+  stats: VariantStats[] | null;
+  progress: number;
+  running: boolean;
+  disabled?: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onExport: () => void;
+}) {
+  const locked = disabled || running;
+  const setVariant = (i: number, patch: Partial<PromptVariant>) =>
+    onChange({ ...value, variants: value.variants.map((v, j) => j === i ? { ...v, ...patch } : v) });
+  const addVariant = () => onChange({
+    ...value,
+    variants: [...value.variants, {
+      id: newVariantId(),
+      name: String.fromCharCode(65 + (value.variants.length % 26)),
+      systemPrompt: current.systemPrompt,
+      userPrompt: current.userPrompt,
+      model: "",
+      temperature: null,
+    }],
+  });
+  const rowsPerVariant = value.sampleSize > 0 ? Math.min(value.sampleSize, totalRows) : totalRows;
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><FlaskConical size={18}/>Prompt Experiments (A/B)</CardTitle>
+        <CardDescription>
+          Run several prompt variants over the same rows and compare them side by side. The first variant is the baseline for decision flips
+          and score shift. Other settings (provider, schema, rubric, consensus) come from the main configuration; experiment results do not
+          touch the main table.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {value.variants.map((v, i) => (
+          <div key={v.id} style={{ border: '1px solid #e2e8f0', borderRadius: 8, padding: 12, marginBottom: 10 }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1.5fr 120px 40px', gap: 8, alignItems: 'end' }}>
+              <div>
+                <Label>Variant name{i === 0 ? " (baseline)" : ""}</Label>
+                <Input value={v.name} disabled={locked} onChange={(e) => setVariant(i, { name: e.target.value })} />
+              </div>
+              <div>
+                <Label>Model (empty = selected model)</Label>
+                <Input list="experiment-models" value={v.model} disabled={locked} onChange={(e) => setVariant(i, { model: e.target.value.trim() })} />
+              </div>
+              <div>
+                <Label>Temperature</Label>
+                <Input type="number" min={0} max={2} step={0.1} placeholder="run" value={v.temperature ?? ""} disabled={locked}
+                  onChange={(e) => setVariant(i, { temperature: e.target.value === "" ? null : parseFloat(e.target.value) })} />
+              </div>
+              <Button disabled={locked} onClick={() => onChange({ ...value, variants: value.variants.filter((_, j) => j !== i) })}><Trash2 size={14}/></Button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 2fr', gap: 8, marginTop: 8 }}>
+              <div>
+                <Label>System prompt</Label>
+                <Textarea rows={4} value={v.systemPrompt} disabled={locked} onChange={(e) => setVariant(i, { systemPrompt: e.target.value })} />
+              </div>
+              <div>
+                <Label>User prompt</Label>
+                <Textarea rows={4} value={v.userPrompt} disabled={locked} onChange={(e) => setVariant(i, { userPrompt: e.target.value })} />
+              </div>
+            </div>
+          </div>
+        ))}
+        <datalist id="experiment-models">
+          {suggestedModels.map(m => <option key={m} value={m} />)}
+        </datalist>
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'end', flexWrap: 'wrap' }}>
+          <Button disabled={locked} onClick={addVariant}><Plus size={14} style={{ marginRight: 6 }}/>Add variant from current prompt</Button>
+          <div style={{ width: 140 }}>
+            <Label>Rows (0 = all)</Label>
+            <Input type="number" min={0} value={value.sampleSize} disabled={locked} onChange={(e) => onChange({ ...value, sampleSize: Math.max(0, parseInt(e.target.value || "0")) })} />
+          </div>
+          <div style={{ width: 100 }}>
+            <Label>Sample seed</Label>
+            <Input type="number" value={value.seed} disabled={locked || !value.sampleSize} onChange={(e) => onChange({ ...value, seed: parseInt(e.target.value || "1") })} />
+          </div>
+          <span style={{ flex: 1 }} />
+          {running
+            ? <Button onClick={onStop}><Square size={14} style={{ marginRight: 6 }}/>Stop</Button>
+            : <Button disabled={disabled || value.variants.length < 2 || !totalRows} onClick={onRun}><Play size={14} style={{ marginRight: 6 }}/>Run experiment</Button>}
+          <Button disabled={running || !stats} onClick={onExport}><Download size={14} style={{ marginRight: 6 }}/>Export comparison CSV</Button>
+        </div>
+        <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>
+          {value.variants.length} variant(s) × {rowsPerVariant} row(s) = {value.variants.length * rowsPerVariant} evaluations.
+        </div>
+
+        {(running || stats) && (
+          <div style={{ marginTop: 12 }}>
+            <Progress value={progress} />
+          </div>
+        )}
+
+        {stats && (
+          <div style={{ overflow: 'auto', marginTop: 12 }}>
+            <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ color: '#475569' }}>
+                  <th style={{ ...cell, textAlign: 'left' }}>Variant</th>
+                  <th style={cell}>Rows</th><th style={cell}>Valid</th><th style={cell}>Mean</th><th style={cell}>Median</th><th style={cell}>SD</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>Score distribution</th>
+                  <th style={cell}>Go rate</th><th style={cell}>Flips vs. baseline</th><th style={cell}>Shift vs. baseline</th><th style={cell}>Cost (USD)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map(s => (
+                  <tr key={s.id}>
+                    <td style={{ ...cell, textAlign: 'left' }}>{s.name}</td>
+                    <td style={cell}>{s.n}</td>
+                    <td style={cell}>{pct(s.validRate)}</td>
+                    <td style={cell}>{fmt(s.meanScore)}</td>
+                    <td style={cell}>{fmt(s.medianScore)}</td>
+                    <td style={cell}>{fmt(s.sdScore)}</td>
+                    <td style={{ ...cell, textAlign: 'left' }}><Histogram histogram={s.histogram} /></td>
+                    <td style={cell}>{pct(s.goRate)}</td>
+                    <td style={cell}>{s.flips ?? "–"}</td>
+                    <td style={cell}>{s.meanShift === undefined ? "–" : (s.meanShift > 0 ? "+" : "") + fmt(s.meanShift)}</td>
+                    <td style={cell}>{s.costUSD.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ExperimentsCard;
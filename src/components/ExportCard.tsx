@@ -0,0 +1,69 @@
+import React from "react";
+import { Download, FileText } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ExportSettings, FlattenMode } from "../lib/exporters";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+
+export function ExportCard({ value, onChange, columns, resultKey, onExportCSV, onExportXLSX, onExportJSON, onExportReport, disabled }: {
+  value: ExportSettings;
+  onChange: (v: ExportSettings) => void;
+  columns: string[];
+  resultKey: string;
+  onExportCSV: () => void;
+  onExportXLSX: () => void;
+  onExportJSON: () => void;
+  onExportReport: () => void;
+  disabled?: boolean;
+}) {
+  const set = (patch: Partial<ExportSettings>) => onChange({ ...value, ...patch });
+  const example = value.flatten === "columns" ? `${resultKey}.strengths_1, ${resultKey}.strengths_2, …`
+    : value.flatten === "joined" ? `${resultKey}.strengths = "a${value.joiner}b"` : `${resultKey}_json only`;
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Download size={18}/>Export</CardTitle>
+        <CardDescription>
+          CSV and XLSX can spread the parsed model output over real columns. The XLSX file has a "Results" sheet, an "Errors" sheet and a
+          "Run" sheet with model, prompts, cost and timestamp. The HTML report has one printable page per submission.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16 }}>
+          <div>
+            <Label>Parsed output in CSV / XLSX</Label>
+            <select style={selectStyle} value={value.flatten} disabled={disabled} onChange={(e) => set({ flatten: e.target.value as FlattenMode })}>
+              <option value="columns">One column per field and list item</option>
+              <option value="joined">One column per field, lists joined</option>
+              <option value="none">Keep as JSON text</option>
+            </select>
+            <div style={{ fontSize: 11, color: '#64748b', marginTop: 4 }}>{example}</div>
+          </div>
+          <div>
+            <Label>List separator</Label>
+            <Input value={value.joiner} disabled={disabled || value.flatten !== "joined"} onChange={(e) => set({ joiner: e.target.value })} />
+          </div>
+          <div>
+            <Label>Report page title column</Label>
+            <select style={selectStyle} value={value.titleCol} disabled={disabled} onChange={(e) => set({ titleCol: e.target.value })}>
+              <option value="">Row number</option>
+              {columns.map((c, i) => <option key={`${i}-${c}`} value={c}>{c}</option>)}
+            </select>
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginTop: 12 }}>
+          <Button onClick={onExportCSV} disabled={disabled}><Download size={16} style={{ marginRight: 6 }}/>Export CSV</Button>
+          <Button onClick={onExportXLSX} disabled={disabled}><Download size={16} style={{ marginRight: 6 }}/>Export XLSX</Button>
+          <Button onClick={onExportJSON} disabled={disabled}><Download size={16} style={{ marginRight: 6 }}/>Export JSON</Button>
+          <Button onClick={onExportReport} disabled={disabled}><FileText size={16} style={{ marginRight: 6 }}/>HTML report</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ExportCard;
@@ -0,0 +1,70 @@
+import React from "react";
+import { Scissors } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { LongInputSettings } from "../lib/chunking";
+
+export function LongInputCard({ value, onChange, oversizedRows, totalRows, disabled }: {
+  value: LongInputSettings;
+  onChange: (v: LongInputSettings) => void;
+  /** Rows whose rendered prompt is above the threshold with the current settings. */
+  oversizedRows: number;
+  totalRows: number;
+  disabled?: boolean;
+}) {
+  const set = (patch: Partial<LongInputSettings>) => onChange({ ...value, ...patch });
+  const int = (v: string, min: number) => Math.max(min, parseInt(v || "0") || min);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Scissors size={18}/>Long Inputs (map-reduce)</CardTitle>
+        <CardDescription>
+          Rows whose prompt is above the threshold have their submission split into chunks. Each chunk is summarized with the map prompt,
+          and the reduce prompt turns the notes into the {'{{submission}}'} of the normal evaluation prompt. Such rows get
+          "longinput.chunked" and "longinput.chunks"; the chunk notes are kept under "longinput.notes" in the JSON export.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label style={{ fontSize: 13 }}><input type="checkbox" checked={value.enabled} disabled={disabled} onChange={(e) => set({ enabled: e.target.checked })} /> Enable long-input mode</label>
+        {totalRows > 0 && (
+          <span style={{ fontSize: 12, color: oversizedRows ? '#b45309' : '#475569', marginLeft: 12 }}>
+            {oversizedRows} of {totalRows} row(s) are above ~{value.maxInputTokens.toLocaleString()} tokens.
+          </span>
+        )}
+        {value.enabled && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16, marginTop: 12 }}>
+              <div>
+                <Label>Chunk rows above (tokens)</Label>
+                <Input type="number" min={500} step={500} value={value.maxInputTokens} disabled={disabled} onChange={(e) => set({ maxInputTokens: int(e.target.value, 500) })} />
+              </div>
+              <div>
+                <Label>Chunk size (tokens)</Label>
+                <Input type="number" min={200} step={500} value={value.chunkTokens} disabled={disabled} onChange={(e) => set({ chunkTokens: int(e.target.value, 200) })} />
+              </div>
+              <div>
+                <Label>Overlap (tokens)</Label>
+                <Input type="number" min={0} step={50} value={value.overlapTokens} disabled={disabled} onChange={(e) => set({ overlapTokens: Math.max(0, parseInt(e.target.value || "0") || 0) })} />
+              </div>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16, marginTop: 12 }}>
+              <div>
+                <Label>Map prompt ({'{{chunk}}, {{chunk_index}}, {{chunk_count}}'} + columns)</Label>
+                <Textarea rows={6} value={value.mapPrompt} disabled={disabled} onChange={(e) => set({ mapPrompt: e.target.value })} />
+              </div>
+              <div>
+                <Label>Reduce prompt ({'{{notes}}, {{chunk_count}}'} + columns)</Label>
+                <Textarea rows={6} value={value.reducePrompt} disabled={disabled} onChange={(e) => set({ reducePrompt: e.target.value })} />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default LongInputCard;
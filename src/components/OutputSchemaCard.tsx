@@ -0,0 +1,89 @@
+import React from "react";
+import { ListChecks, Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { FieldType, OutputSchemaSettings, SchemaField, fieldsToSchema, resolveSchema } from "../lib/schema";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:36, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 8px', backgroundColor: 'white' };
+
+const FIELD_TYPES: FieldType[] = ["string", "integer", "number", "boolean", "enum", "string[]"];
+
+export function OutputSchemaCard({ value, onChange, disabled, structuredSupport, rubricActive }: {
+  value: OutputSchemaSettings;
+  onChange: (v: OutputSchemaSettings) => void;
+  disabled?: boolean;
+  structuredSupport: "json_schema" | "tool" | null;
+  rubricActive?: boolean;
+}) {
+  const resolved = resolveSchema(value);
+  const set = (patch: Partial<OutputSchemaSettings>) => onChange({ ...value, ...patch });
+  const setField = (i: number, patch: Partial<SchemaField>) => set({ fields: value.fields.map((f, j) => j === i ? { ...f, ...patch } : f) });
+  const num = (s: string) => s.trim() === "" ? undefined : Number(s);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><ListChecks size={18}/>Output Schema</CardTitle>
+        <CardDescription>Validate every parsed response. Field errors show in "eval.errors"; repair sends the errors back to the model once and keeps both outputs.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'center', fontSize: 13, marginBottom: 12 }}>
+          <label><input type="checkbox" checked={value.validate} disabled={disabled} onChange={(e) => set({ validate: e.target.checked })} /> Validate output</label>
+          <label><input type="checkbox" checked={value.repair} disabled={disabled || !value.validate} onChange={(e) => set({ repair: e.target.checked })} /> Repair retry on invalid output</label>
+          <label title="json_schema response format or a forced tool call, depending on the provider"><input type="checkbox" checked={value.structured} disabled={disabled} onChange={(e) => set({ structured: e.target.checked })} /> Structured output mode</label>
+          <span style={{ flex: 1 }} />
+          <Button disabled={disabled || value.mode === "form"} onClick={() => set({ mode: "form" })}>Form</Button>
+          <Button disabled={disabled || value.mode === "json"} onClick={() => set({ mode: "json", json: JSON.stringify(fieldsToSchema(value.fields), null, 2) })}>JSON Schema</Button>
+        </div>
+
+        {rubricActive && (
+          <div style={{ fontSize: 12, color: '#92400e', marginBottom: 12 }}>
+            The active rubric defines the output schema; the fields below are ignored while it is on. The checkboxes still apply.
+          </div>
+        )}
+
+        {value.structured && (
+          <div style={{ fontSize: 12, color: '#475569', marginBottom: 12 }}>
+            {structuredSupport === "json_schema" && <>The schema is sent as <code>response_format: json_schema</code>; the response is used as-is without text scraping.</>}
+            {structuredSupport === "tool" && <>The schema is sent as a forced tool call; the tool arguments are used as the result.</>}
+            {structuredSupport === null && <>This provider has no structured output support; the prompt + loose JSON parsing is used instead.</>}
+            {" "}Responses that come back without structured data still fall back to the loose parser.
+          </div>
+        )}
+
+        {value.mode === "form" ? (
+          <div>
+            <div style={{ display: 'grid', gridTemplateColumns: '2fr 1.2fr 0.8fr 0.8fr 2fr 70px 40px', gap: 8, fontSize: 12, color: '#475569', marginBottom: 4 }}>
+              <span>Field</span><span>Type</span><span>Min</span><span>Max</span><span>Options (enum)</span><span>Required</span><span />
+            </div>
+            {value.fields.map((f, i) => (
+              <div key={i} style={{ display: 'grid', gridTemplateColumns: '2fr 1.2fr 0.8fr 0.8fr 2fr 70px 40px', gap: 8, marginBottom: 6, alignItems: 'center' }}>
+                <Input value={f.name} disabled={disabled} onChange={(e) => setField(i, { name: e.target.value })} />
+                <select style={selectStyle} value={f.type} disabled={disabled} onChange={(e) => setField(i, { type: e.target.value as FieldType })}>
+                  {FIELD_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+                <Input type="number" value={f.min ?? ""} disabled={disabled || f.type === "enum" || f.type === "boolean"} onChange={(e) => setField(i, { min: num(e.target.value) })} />
+                <Input type="number" value={f.max ?? ""} disabled={disabled || f.type === "enum" || f.type === "boolean"} onChange={(e) => setField(i, { max: num(e.target.value) })} />
+                <Input value={f.options ?? ""} disabled={disabled || f.type !== "enum"} placeholder="Go, No-Go" onChange={(e) => setField(i, { options: e.target.value })} />
+                <input type="checkbox" checked={f.required} disabled={disabled} onChange={(e) => setField(i, { required: e.target.checked })} />
+                <Button disabled={disabled} onClick={() => set({ fields: value.fields.filter((_, j) => j !== i) })}><Trash2 size={14}/></Button>
+              </div>
+            ))}
+            <Button disabled={disabled} onClick={() => set({ fields: [...value.fields, { name: "", type: "string", required: false }] })}><Plus size={14} style={{ marginRight: 6 }}/>Add field</Button>
+          </div>
+        ) : (
+          <div>
+            <Label>JSON Schema</Label>
+            <Textarea rows={12} value={value.json} disabled={disabled} style={{ fontFamily: 'monospace', fontSize: 12 }} onChange={(e) => set({ json: e.target.value })} />
+            {!resolved.ok && <div style={{ fontSize: 12, color: '#b91c1c', marginTop: 6 }}>Invalid schema JSON: {resolved.error}</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default OutputSchemaCard;
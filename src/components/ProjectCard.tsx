@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { AlertTriangle, Download, FolderOpen, Save, Trash2, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Preset } from "../lib/project";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+
+export function ProjectCard({ presets, onSavePreset, onLoadPreset, onDeletePreset, onExport, onImport, missing, hasData, disabled }: {
+  presets: Preset[];
+  onSavePreset: (name: string) => void;
+  onLoadPreset: (preset: Preset) => void;
+  onDeletePreset: (name: string) => void;
+  onExport: (name: string) => void;
+  onImport: (file: File) => void;
+  /** Columns the current settings refer to that the loaded data lacks. */
+  missing: string[];
+  hasData: boolean;
+  disabled?: boolean;
+}) {
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState("");
+  const current = presets.find(p => p.name === selected);
+  const exists = presets.some(p => p.name === name.trim());
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><FolderOpen size={18}/>Presets & Project File</CardTitle>
+        <CardDescription>
+          A preset stores prompts, column mapping, rubric, schema, consensus, long-input, calibration, experiment, run and cost settings in
+          this browser. Export the same settings as a project file to share them; the API key and the data are never included.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16 }}>
+          <div>
+            <Label>Save current settings as</Label>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <Input placeholder="Preset name" value={name} disabled={disabled} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === "Enter" && name.trim()) { onSavePreset(name.trim()); setSelected(name.trim()); } }} />
+              <Button disabled={disabled || !name.trim()} onClick={() => { onSavePreset(name.trim()); setSelected(name.trim()); }}>
+                <Save size={16} style={{ marginRight: 6 }}/>{exists ? "Overwrite" : "Save"}
+              </Button>
+            </div>
+          </div>
+          <div>
+            <Label>Saved presets</Label>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <select style={selectStyle} value={selected} disabled={disabled || !presets.length} onChange={(e) => setSelected(e.target.value)}>
+                <option value="">{presets.length ? "Choose a preset…" : "No presets saved yet"}</option>
+                {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+              <Button disabled={disabled || !current} onClick={() => { if (current) { onLoadPreset(current); setName(current.name); } }}>Load</Button>
+              <Button disabled={disabled || !current} onClick={() => { if (current) { onDeletePreset(current.name); setSelected(""); } }}><Trash2 size={16}/></Button>
+            </div>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+          <Button disabled={disabled} onClick={() => onExport(name.trim() || selected || "project")}><Download size={16} style={{ marginRight: 6 }}/>Export project</Button>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 13 }}>
+            <Upload size={16}/>Import project
+            <Input type="file" accept=".json,application/json" disabled={disabled} style={{ maxWidth: 260 }} onChange={(e) => {
+              const input = e.target as HTMLInputElement;
+              const file = input.files?.[0];
+              if (file) onImport(file);
+              input.value = "";
+            }} />
+          </label>
+        </div>
+
+        {hasData && missing.length > 0 && (
+          <div style={{ display: 'flex', gap: 8, alignItems: 'flex-start', fontSize: 12, color: '#b45309', marginTop: 12 }}>
+            <AlertTriangle size={16} style={{ flexShrink: 0 }}/>
+            <span>
+              The settings refer to column(s) the loaded data does not have: {missing.map(c => `"${c}"`).join(", ")}. Pick the submission and
+              gold-label columns again, or adjust the prompt.
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ProjectCard;
@@ -0,0 +1,122 @@
+import React from "react";
+import { Download, Play, Square, Trophy } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { RankingSettings, rankingStats, tournamentRounds } from "../lib/ranking";
+
+const cell: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0', textAlign: 'left' };
+
+function pct(n: number | undefined) {
+  return n === undefined ? "–" : `${(n * 100).toFixed(1)}%`;
+}
+
+export interface RankedRow {
+  row: number;
+  label: string;
+  elo: number;
+  position: number;
+  wins: number;
+  comparisons: number;
+  score?: any;
+}
+
+export function RankingCard({ value, onChange, totalRows, calls, costUSD, estimateUSD, round, rounds, stats, top, progress, running, disabled, onRun, onStop, onExport }: {
+  value: RankingSettings;
+  onChange: (v: RankingSettings) => void;
+  totalRows: number;
+  /** Model calls the tournament makes at most. */
+  calls: number;
+  costUSD: number;
+  estimateUSD: number | null;
+  round: number;
+  rounds: number;
+  stats: ReturnType<typeof rankingStats> | null;
+  /** Best rows by rating, best first. */
+  top: RankedRow[];
+  progress: number;
+  running: boolean;
+  disabled?: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onExport: () => void;
+}) {
+  const locked = disabled || running;
+  const set = (patch: Partial<RankingSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Trophy size={18}/>Pairwise Ranking</CardTitle>
+        <CardDescription>
+          Ranks the rows by asking the model which of two submissions is stronger, in Swiss rounds that pair rows of similar rating.
+          The verdicts are fitted to a Bradley-Terry model and added to the table as rank.elo and rank.position next to the eval.* columns.
+          Provider, model, retries, cache and redaction come from the main configuration; run the evaluation first to seed round 1 by eval.score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Label>Comparison prompt ({"{{a}}"} and {"{{b}}"} are the submissions, {"{{a.column}}"} / {"{{b.column}}"} their other columns)</Label>
+        <Textarea rows={6} value={value.prompt} disabled={locked} onChange={(e) => set({ prompt: e.target.value })} />
+
+        <div style={{ display: 'flex', gap: 16, alignItems: 'end', flexWrap: 'wrap', marginTop: 10 }}>
+          <div style={{ width: 140 }}>
+            <Label>Rounds (0 = auto)</Label>
+            <Input type="number" min={0} value={value.rounds} disabled={locked} onChange={(e) => set({ rounds: Math.max(0, parseInt(e.target.value || "0")) })} />
+          </div>
+          <label style={{ fontSize: 13 }} title="Each pair is asked twice with A and B exchanged; disagreeing answers count as a tie">
+            <input type="checkbox" checked={value.swapOrder} disabled={locked} onChange={(e) => set({ swapOrder: e.target.checked })} /> Repeat every pair with A and B swapped
+          </label>
+          <span style={{ flex: 1 }} />
+          {running
+            ? <Button onClick={onStop}><Square size={14} style={{ marginRight: 6 }}/>Stop</Button>
+            : <Button disabled={disabled || totalRows < 2} onClick={onRun}><Play size={14} style={{ marginRight: 6 }}/>Run ranking</Button>}
+          <Button disabled={running || !stats} onClick={onExport}><Download size={14} style={{ marginRight: 6 }}/>Export comparisons CSV</Button>
+        </div>
+        <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>
+          {tournamentRounds(value, totalRows)} round(s) over {totalRows} row(s) = up to {calls} comparison calls
+          {estimateUSD !== null ? `, ~$${estimateUSD.toFixed(4)} USD` : ""}.
+        </div>
+
+        {(running || stats) && (
+          <div style={{ marginTop: 12 }}>
+            <Progress value={progress} />
+            <div style={{ fontSize: 12, color: '#475569', marginTop: 6 }}>
+              Round {round}/{rounds}
+              {stats && <> · {stats.calls} call(s), {stats.failed} failed, {stats.ties} tie(s) · order consistency {pct(stats.consistency)} · first position wins {pct(stats.firstWinRate)}</>}
+              {" "}· cost ~${costUSD.toFixed(4)}
+            </div>
+          </div>
+        )}
+
+        {top.length > 0 && (
+          <div style={{ maxHeight: 320, overflow: 'auto', marginTop: 12, border: '1px solid #e2e8f0', borderRadius: 8 }}>
+            <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: '#f8fafc' }}>
+                  <th style={cell}>Position</th><th style={cell}>Row</th><th style={cell}>Submission</th><th style={cell}>Elo</th><th style={cell}>Wins</th><th style={cell}>eval.score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {top.map(r => (
+                  <tr key={r.row}>
+                    <td style={cell}>{r.position}</td>
+                    <td style={cell}>{r.row + 1}</td>
+                    <td style={cell}>{r.label}</td>
+                    <td style={cell}>{r.elo.toFixed(1)}</td>
+                    <td style={cell}>{r.wins}/{r.comparisons}</td>
+                    <td style={cell}>{r.score ?? "–"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RankingCard;
@@ -0,0 +1,115 @@
+import React from "react";
+import { Download, EyeOff } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { RedactionPreview, RedactionSettings, formatCounts } from "../lib/redaction";
+
+const cell: React.CSSProperties = { padding: '4px 8px', borderBottom: '1px solid #e2e8f0', verticalAlign: 'top' };
+
+const KINDS: { key: "emails" | "phones" | "urls" | "ids"; label: string }[] = [
+  { key: "emails", label: "E-mail addresses" },
+  { key: "phones", label: "Phone numbers" },
+  { key: "urls", label: "URLs" },
+  { key: "ids", label: "ID numbers (IBAN, 9+ digits, AB123456)" },
+];
+
+export function RedactionCard({ value, onChange, columns, preview, previewRow, onPreviewRow, rowCount, runLog, onExportLog, disabled }: {
+  value: RedactionSettings;
+  onChange: (v: RedactionSettings) => void;
+  columns: string[];
+  /** Dry run over the loaded rows with the current settings; null while disabled or without data. */
+  preview: { row: number; preview: RedactionPreview; totals: Record<string, number>; rows: number } | { error: string } | null;
+  previewRow: number;
+  onPreviewRow: (idx: number) => void;
+  rowCount: number;
+  /** Counts recorded by the current run; null when it did not redact. */
+  runLog: { totals: Record<string, number>; rows: number } | null;
+  onExportLog: () => void;
+  disabled?: boolean;
+}) {
+  const set = (patch: Partial<RedactionSettings>) => onChange({ ...value, ...patch });
+  const toggleColumn = (c: string, on: boolean) => set({ columns: on ? [...value.columns, c] : value.columns.filter(x => x !== c) });
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><EyeOff size={18}/>PII Redaction</CardTitle>
+        <CardDescription>
+          Replaces personal data in every prompt with placeholders such as [EMAIL_1] or [AUTHOR_1] before it is sent; the same value keeps
+          its placeholder across all prompts of a row. Placeholders in the model output are turned back into the original values. Only
+          counts per kind are recorded, never the values.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label style={{ fontSize: 13 }}><input type="checkbox" checked={value.enabled} disabled={disabled} onChange={(e) => set({ enabled: e.target.checked })} /> Redact prompts</label>
+        {value.enabled && (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16, marginTop: 12 }}>
+              <div>
+                <Label>Detect</Label>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 13, marginTop: 4 }}>
+                  {KINDS.map(k => (
+                    <label key={k.key}><input type="checkbox" checked={value[k.key]} disabled={disabled} onChange={(e) => set({ [k.key]: e.target.checked })} /> {k.label}</label>
+                  ))}
+                  <label style={{ marginTop: 6 }}><input type="checkbox" checked={value.restore} disabled={disabled} onChange={(e) => set({ restore: e.target.checked })} /> Restore original values in the output</label>
+                </div>
+              </div>
+              <div>
+                <Label>Name / organization columns</Label>
+                <div style={{ maxHeight: 140, overflow: 'auto', border: '1px solid #e2e8f0', borderRadius: 8, padding: 6, fontSize: 13, marginTop: 4 }}>
+                  {columns.length ? columns.map((c, i) => (
+                    <label key={`${i}-${c}`} style={{ display: 'block' }}>
+                      <input type="checkbox" checked={value.columns.includes(c)} disabled={disabled} onChange={(e) => toggleColumn(c, e.target.checked)} /> {c}
+                    </label>
+                  )) : <span style={{ color: '#64748b' }}>Load data to choose columns.</span>}
+                </div>
+                <div style={{ fontSize: 11, color: '#64748b', marginTop: 4 }}>Their values are replaced wherever they occur in the prompt, also inside the submission.</div>
+              </div>
+            </div>
+
+            {preview && "error" in preview && <div style={{ fontSize: 12, color: '#b91c1c', marginTop: 12 }}>Preview error: {preview.error}</div>}
+            {preview && !("error" in preview) && (
+              <>
+                <div style={{ fontSize: 12, color: '#475569', marginTop: 12 }}>
+                  Loaded data: {preview.rows} of {rowCount} row(s) contain personal data ({formatCounts(preview.totals)}). Map prompts of long inputs are redacted the same way.
+                </div>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 8 }}>
+                  <Label>Preview row</Label>
+                  <Input type="number" min={1} max={rowCount} value={previewRow + 1} style={{ width: 100 }} onChange={(e) => onPreviewRow(Math.min(rowCount, Math.max(1, parseInt(e.target.value || "1") || 1)) - 1)} />
+                </div>
+                {preview.preview.items.length > 0 ? (
+                  <div style={{ maxHeight: 200, overflow: 'auto', marginTop: 8, border: '1px solid #e2e8f0', borderRadius: 8 }}>
+                    <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse' }}>
+                      <thead>
+                        <tr style={{ background: '#f8fafc', textAlign: 'left' }}>
+                          <th style={cell}>Placeholder</th><th style={cell}>Kind</th><th style={cell}>Value</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.preview.items.map(it => (
+                          <tr key={it.placeholder}><td style={cell}><code>{it.placeholder}</code></td><td style={cell}>{it.kind.toLowerCase()}</td><td style={cell}>{it.value}</td></tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : <div style={{ fontSize: 12, color: '#64748b', marginTop: 8 }}>Nothing to redact in row {preview.row + 1}.</div>}
+                <pre style={{ marginTop: 8, padding: 12, background:'#f1f5f9', border:'1px solid #e2e8f0', borderRadius:8, fontSize:12, whiteSpace:'pre-wrap', maxHeight: 220, overflow:'auto' }}>{preview.preview.redacted}</pre>
+              </>
+            )}
+          </>
+        )}
+
+        {runLog && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginTop: 12, fontSize: 12, color: '#475569' }}>
+            <span>Current run: {runLog.rows} row(s) redacted ({formatCounts(runLog.totals)}).</span>
+            <Button onClick={onExportLog}><Download size={16} style={{ marginRight: 6 }}/>Redaction log</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RedactionCard;
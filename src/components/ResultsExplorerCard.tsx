@@ -0,0 +1,207 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Download, Plus, Search, Table2, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { ColumnFilter, EMPTY_QUERY, ExplorerQuery, FILTER_OPS, FilterOp, ResultsSummary, activeFilters, describeQuery, queryRows, summarizeResults } from "../lib/explorer";
+import { toCell } from "../lib/exporters";
+
+const ROW_HEIGHT = 34;
+const VIEW_HEIGHT = 480;
+const OVERSCAN = 8;
+const COL_WIDTH = 180;
+
+const cell: React.CSSProperties = {
+  height: ROW_HEIGHT, padding: '0 10px', borderBottom: '1px solid #e2e8f0', width: COL_WIDTH, maxWidth: COL_WIDTH,
+  overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', textAlign: 'left', boxSizing: 'border-box',
+};
+const selectStyle: React.CSSProperties = { height: 36, border: '1px solid #cbd5e1', borderRadius: 8, padding: '0 8px', backgroundColor: 'white' };
+
+function pct(n: number, of: number) {
+  return of ? `${((n / of) * 100).toFixed(1)}%` : "–";
+}
+
+function Bars({ counts, order, color }: { counts: Record<string, number>; order?: (a: string, b: string) => number; color: string }) {
+  const keys = Object.keys(counts).sort(order);
+  if (!keys.length) return <div style={{ fontSize: 12, color: '#94a3b8' }}>–</div>;
+  const max = Math.max(...keys.map(k => counts[k]));
+  return (
+    <div style={{ display: 'grid', gap: 3 }}>
+      {keys.map(k => (
+        <div key={k} style={{ display: 'grid', gridTemplateColumns: '70px 1fr 44px', gap: 6, alignItems: 'center', fontSize: 11, color: '#475569' }}>
+          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={k}>{k}</span>
+          <div style={{ height: 10, width: `${Math.max(2, (counts[k] / max) * 100)}%`, background: color, borderRadius: 2 }} />
+          <span style={{ textAlign: 'right' }}>{counts[k]}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SummaryPanel({ s, total }: { s: ResultsSummary; total: number }) {
+  const box: React.CSSProperties = { border: '1px solid #e2e8f0', borderRadius: 8, padding: 10 };
+  const head: React.CSSProperties = { fontSize: 12, fontWeight: 600, color: '#334155', marginBottom: 6 };
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: 12, marginTop: 12 }}>
+      <div style={box}>
+        <div style={head}>Rows</div>
+        <div style={{ fontSize: 12, color: '#475569', display: 'grid', gap: 2 }}>
+          <span>{s.rows} shown of {total}</span>
+          <span>Valid: {s.valid}/{s.checked} ({pct(s.valid, s.checked)})</span>
+          <span>Mean score: {s.meanScore === undefined ? "–" : s.meanScore.toFixed(2)}</span>
+          <span>Failed calls: {s.failed} · schema errors: {s.schemaErrors}</span>
+        </div>
+      </div>
+      <div style={box}>
+        <div style={head}>Score distribution</div>
+        <Bars counts={s.histogram} order={(a, b) => Number(a) - Number(b)} color="#6366f1" />
+      </div>
+      <div style={box}>
+        <div style={head}>Decisions</div>
+        <Bars counts={s.decisions} order={(a, b) => s.decisions[b] - s.decisions[a]} color="#10b981" />
+      </div>
+      <div style={box}>
+        <div style={head}>Most frequent errors</div>
+        {s.errors.length ? s.errors.map(e => (
+          <div key={e.message} style={{ fontSize: 11, color: '#b91c1c', marginBottom: 3 }} title={e.message}>{e.count}× {e.message.length > 90 ? `${e.message.slice(0, 90)}…` : e.message}</div>
+        )) : <div style={{ fontSize: 12, color: '#94a3b8' }}>None</div>}
+      </div>
+    </div>
+  );
+}
+
+export function ResultsExplorerCard({ rows, columns, resultKey, onExportCSV, onExportXLSX, onRowClick, disabled }: {
+  rows: Record<string, any>[];
+  /** Columns shown, in order. */
+  columns: string[];
+  resultKey: string;
+  /** Exports the given rows (indices into `rows`); `label` describes the filter. */
+  onExportCSV: (indices: number[], label: string) => void;
+  onExportXLSX: (indices: number[], label: string) => void;
+  /** Opens the row inspector. */
+  onRowClick?: (index: number) => void;
+  disabled?: boolean;
+}) {
+  const [query, setQuery] = useState<ExplorerQuery>(EMPTY_QUERY);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewRef = useRef<HTMLDivElement>(null);
+  const shown = useMemo(() => queryRows(rows, columns, query), [rows, columns, query]);
+  const summary = useMemo(() => summarizeResults(rows, resultKey, shown), [rows, resultKey, shown]);
+  const filtered = activeFilters(query.filters).length > 0 || query.search.trim() !== "";
+
+  useEffect(() => {
+    if (viewRef.current) viewRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [query]);
+
+  // Distinct values of the filtered columns, as suggestions.
+  const suggestions = useMemo(() => {
+    const out: Record<string, string[]> = {};
+    for (const f of query.filters) {
+      if (out[f.column]) continue;
+      const seen = new Set<string>();
+      for (const r of rows) {
+        const v = toCell(r?.[f.column]);
+        if (v && v.length <= 60) seen.add(v);
+        if (seen.size >= 50) break;
+      }
+      out[f.column] = Array.from(seen).sort();
+    }
+    return out;
+  }, [rows, query.filters]);
+
+  const setFilter = (i: number, patch: Partial<ColumnFilter>) =>
+    setQuery(q => ({ ...q, filters: q.filters.map((f, j) => j === i ? { ...f, ...patch } : f) }));
+  const addFilter = (f: ColumnFilter) => setQuery(q => ({ ...q, filters: [...q.filters, f] }));
+  const toggleSort = (column: string) => setQuery(q => ({
+    ...q,
+    sort: q.sort?.column !== column ? { column, dir: "asc" } : q.sort.dir === "asc" ? { column, dir: "desc" } : null,
+  }));
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(shown.length, Math.ceil((scrollTop + VIEW_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const width = columns.length * COL_WIDTH + 60;
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Table2 size={18}/>Results Explorer</CardTitle>
+        <CardDescription>
+          All {rows.length} rows with the result columns ("{resultKey}", "{resultKey}_json", eval.*). Click a header to sort, add column filters
+          or search the text; the summary and the exports below follow the filtered rows. Click a row to inspect its prompt, attempts and output.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, flex: 1, minWidth: 240 }}>
+            <Search size={16} color="#64748b"/>
+            <Input placeholder="Search all shown columns" value={query.search} onChange={(e) => { const search = e.target.value; setQuery(q => ({ ...q, search })); }} />
+          </div>
+          <Button onClick={() => addFilter({ column: columns.includes("eval.score") ? "eval.score" : columns[0] || "", op: ">=", value: "" })}><Plus size={14} style={{ marginRight: 6 }}/>Add filter</Button>
+          <Button onClick={() => addFilter({ column: "eval.valid", op: "=", value: "false" })}>Invalid only</Button>
+          <Button disabled={!filtered && !query.sort} onClick={() => setQuery(EMPTY_QUERY)}><X size={14} style={{ marginRight: 6 }}/>Reset</Button>
+        </div>
+
+        {query.filters.map((f, i) => (
+          <div key={i} style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8 }}>
+            <select style={{ ...selectStyle, minWidth: 200 }} value={f.column} onChange={(e) => setFilter(i, { column: e.target.value })}>
+              {columns.map((c, j) => <option key={`${j}-${c}`} value={c}>{c}</option>)}
+            </select>
+            <select style={selectStyle} value={f.op} onChange={(e) => setFilter(i, { op: e.target.value as FilterOp })}>
+              {FILTER_OPS.map(op => <option key={op} value={op}>{op}</option>)}
+            </select>
+            <Input list={`explorer-values-${i}`} style={{ maxWidth: 240 }} value={f.value} disabled={f.op === "empty" || f.op === "not empty"}
+              onChange={(e) => setFilter(i, { value: e.target.value })} />
+            <datalist id={`explorer-values-${i}`}>
+              {(suggestions[f.column] || []).map(v => <option key={v} value={v} />)}
+            </datalist>
+            <Button onClick={() => setQuery(q => ({ ...q, filters: q.filters.filter((_, j) => j !== i) }))}><Trash2 size={14}/></Button>
+          </div>
+        ))}
+
+        <SummaryPanel s={summary} total={rows.length} />
+
+        <div ref={viewRef} onScroll={(e) => setScrollTop((e.target as HTMLDivElement).scrollTop)}
+          style={{ height: Math.min(VIEW_HEIGHT, (shown.length + 1) * ROW_HEIGHT + 2), overflow: 'auto', marginTop: 12, border: '1px solid #e2e8f0', borderRadius: 8 }}>
+          <table style={{ width, tableLayout: 'fixed', fontSize: 13, borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {["#", ...columns].map((c, i) => {
+                  const sorted = query.sort?.column === c;
+                  return (
+                    <th key={`${i}-${c}`} title={c} onClick={i ? () => toggleSort(c) : undefined}
+                      style={{ ...cell, position: 'sticky', top: 0, background: '#f8fafc', color: '#475569', cursor: i ? 'pointer' : 'default', zIndex: 1, ...(i ? {} : { width: 60 }) }}>
+                      {c}{sorted && (query.sort!.dir === "asc" ? <ArrowUp size={12}/> : <ArrowDown size={12}/>)}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }}><td colSpan={columns.length + 1} /></tr>}
+              {shown.slice(first, last).map(i => (
+                <tr key={i} onClick={onRowClick && (() => onRowClick(i))} style={{ cursor: onRowClick ? 'pointer' : undefined }}>
+                  <td style={{ ...cell, width: 60, color: '#94a3b8' }}>{i + 1}</td>
+                  {columns.map((c, j) => {
+                    const v = toCell(rows[i]?.[c]);
+                    return <td key={`${j}-${c}`} style={cell} title={v.length > 20 ? v.slice(0, 2000) : undefined}>{v}</td>;
+                  })}
+                </tr>
+              ))}
+              {last < shown.length && <tr style={{ height: (shown.length - last) * ROW_HEIGHT }}><td colSpan={columns.length + 1} /></tr>}
+            </tbody>
+          </table>
+          {!shown.length && <div style={{ padding: 12, fontSize: 13, color: '#64748b' }}>No rows match.</div>}
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginTop: 12 }}>
+          <span style={{ fontSize: 12, color: '#475569', flex: 1 }}>{shown.length} of {rows.length} rows{filtered ? ` (${describeQuery(query)})` : ""}</span>
+          <Button disabled={disabled || !shown.length} onClick={() => onExportCSV(shown, describeQuery(query))}><Download size={16} style={{ marginRight: 6 }}/>Export {filtered ? "filtered " : ""}CSV</Button>
+          <Button disabled={disabled || !shown.length} onClick={() => onExportXLSX(shown, describeQuery(query))}><Download size={16} style={{ marginRight: 6 }}/>Export {filtered ? "filtered " : ""}XLSX</Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ResultsExplorerCard;
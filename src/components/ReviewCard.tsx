@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Check, ChevronLeft, ChevronRight, Download, SkipForward, UserCheck } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { Progress } from "./ui/progress";
+import { ReviewInput, ReviewRecord, ReviewScope, ReviewSettings, isFlagged } from "../lib/review";
+import { toCell } from "../lib/exporters";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+const pre: React.CSSProperties = {
+  whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontSize: 12, background: '#f8fafc', border: '1px solid #e2e8f0',
+  borderRadius: 6, padding: 8, maxHeight: 220, overflow: 'auto', margin: '4px 0 10px',
+};
+
+const SCOPES: { value: ReviewScope; label: string }[] = [
+  { value: "all", label: "All evaluated rows" },
+  { value: "flagged", label: "Flagged rows only" },
+  { value: "borderline", label: "Flagged + borderline scores" },
+];
+
+export function ReviewCard({ value, onChange, reviewer, onReviewerChange, rows, records, queue, resultKey, textCol, auditEntries, disabled, onSubmit, onInspect, onExportAudit }: {
+  value: ReviewSettings;
+  onChange: (v: ReviewSettings) => void;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  rows: Record<string, any>[];
+  /** Review of each row, aligned with `rows`. */
+  records: (ReviewRecord | undefined)[];
+  /** Row indices in the current scope, in table order. */
+  queue: number[];
+  resultKey: string;
+  textCol: string;
+  auditEntries: number;
+  disabled?: boolean;
+  /** Returns an error message, or "" when the review was saved. */
+  onSubmit: (index: number, input: ReviewInput) => string;
+  onInspect: (index: number) => void;
+  onExportAudit: () => void;
+}) {
+  const [pos, setPos] = useState(0);
+  const [score, setScore] = useState("");
+  const [decision, setDecision] = useState("");
+  const [comment, setComment] = useState("");
+  const [error, setError] = useState("");
+
+  const at = Math.min(pos, Math.max(0, queue.length - 1));
+  const index = queue.length ? queue[at] : -1;
+  const row = index >= 0 ? rows[index] : undefined;
+  const record = index >= 0 ? records[index] : undefined;
+  const done = queue.filter(i => records[i]).length;
+  const decisions = useMemo(
+    () => Array.from(new Set(rows.map(r => r?.["eval.decision"]).filter(d => d !== undefined && d !== null && d !== "").map(String))).sort(),
+    [rows]);
+
+  // The form starts from the human values in effect, else the model's.
+  useEffect(() => {
+    setScore(toCell(record ? record.score ?? "" : row?.["eval.score"] ?? ""));
+    setDecision(toCell(record ? record.decision : row?.["eval.decision"] ?? ""));
+    setComment("");
+    setError("");
+  }, [index, record, row]);
+
+  const set = (patch: Partial<ReviewSettings>) => onChange({ ...value, ...patch });
+  const go = (p: number) => setPos(Math.max(0, Math.min(queue.length - 1, p)));
+  const nextUnreviewed = () => {
+    const later = queue.findIndex((i, p) => p > at && !records[i]);
+    const any = later >= 0 ? later : queue.findIndex(i => !records[i]);
+    if (any >= 0) go(any);
+  };
+  const submit = (input: ReviewInput) => {
+    const err = onSubmit(index, input);
+    setError(err);
+    if (!err) {
+      const later = queue.findIndex((i, p) => p > at && !records[i]);
+      if (later >= 0) go(later);
+    }
+  };
+  const override = () => {
+    const n = score.trim() === "" ? null : Number(score);
+    if (n !== null && !Number.isFinite(n)) { setError("The score must be a number."); return; }
+    submit({ status: "overridden", score: n, decision, comment });
+  };
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><UserCheck size={18}/>Human Review</CardTitle>
+        <CardDescription>
+          Walk through the evaluated rows and accept the model's score and decision or override them with a comment.
+          Reviews are stored in this browser per source row, so they survive reloads and re-runs of the same data; every change is kept in the audit trail.
+          Exports add review.* (the human values) and final.score / final.decision next to the model's eval.* columns.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 120px 120px', gap: 12, alignItems: 'end' }}>
+          <div>
+            <Label>Reviewer</Label>
+            <Input value={reviewer} placeholder="Your name" onChange={(e) => onReviewerChange(e.target.value)} />
+          </div>
+          <div>
+            <Label>Queue</Label>
+            <select style={selectStyle} value={value.scope} onChange={(e) => { set({ scope: e.target.value as ReviewScope }); setPos(0); }}>
+              {SCOPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <Label>Borderline from</Label>
+            <Input type="number" step="0.5" value={value.borderlineMin} disabled={value.scope !== "borderline"} onChange={(e) => set({ borderlineMin: Number(e.target.value) })} />
+          </div>
+          <div>
+            <Label>to</Label>
+            <Input type="number" step="0.5" value={value.borderlineMax} disabled={value.scope !== "borderline"} onChange={(e) => set({ borderlineMax: Number(e.target.value) })} />
+          </div>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <Progress value={queue.length ? Math.round((done / queue.length) * 100) : 0} />
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', fontSize: 12, color: '#475569', marginTop: 6 }}>
+            <span>{done} of {queue.length} row(s) in the queue reviewed</span>
+            <span style={{ flex: 1 }} />
+            <Button disabled={at <= 0} onClick={() => go(at - 1)}><ChevronLeft size={14}/></Button>
+            <span>{queue.length ? `${at + 1} / ${queue.length}` : "–"}</span>
+            <Button disabled={at >= queue.length - 1} onClick={() => go(at + 1)}><ChevronRight size={14}/></Button>
+            <Button disabled={done === queue.length} onClick={nextUnreviewed}><SkipForward size={14} style={{ marginRight: 6 }}/>Next unreviewed</Button>
+            <Button disabled={!auditEntries} onClick={onExportAudit}><Download size={14} style={{ marginRight: 6 }}/>Audit trail CSV ({auditEntries})</Button>
+          </div>
+        </div>
+
+        {!row && <div style={{ fontSize: 12, color: '#94a3b8', marginTop: 12 }}>No evaluated rows in this queue yet.</div>}
+        {row && (
+          <div style={{ marginTop: 12, borderTop: '1px solid #e2e8f0', paddingTop: 12 }}>
+            <div style={{ display: 'flex', gap: 12, alignItems: 'center', fontSize: 13 }}>
+              <b>Row {index + 1}</b>
+              {isFlagged(row, resultKey) && <span style={{ fontSize: 12, color: '#b45309' }}>flagged</span>}
+              {record && <span style={{ fontSize: 12, color: '#059669' }}>{record.status} by {record.reviewer}, {new Date(record.at).toLocaleString()}</span>}
+              <span style={{ flex: 1 }} />
+              <Button onClick={() => onInspect(index)}>Open in inspector</Button>
+            </div>
+            <pre style={pre}>{toCell(textCol ? row[textCol] : JSON.stringify(row))}</pre>
+            <div style={{ fontSize: 12, color: '#475569', display: 'flex', gap: 16, flexWrap: 'wrap' }}>
+              <span>Model score: <b>{toCell(row["eval.score"]) || "–"}</b></span>
+              <span>Model decision: <b>{toCell(row["eval.decision"]) || "–"}</b></span>
+              <span>eval.valid: {toCell(row["eval.valid"]) || "–"}</span>
+              {row["consensus.review"] === true && <span style={{ color: '#b45309' }}>models disagree</span>}
+            </div>
+            {row["eval.errors"] && <div style={{ fontSize: 12, color: '#b45309', marginTop: 4 }}>Schema: {toCell(row["eval.errors"])}</div>}
+            {typeof row[resultKey] === "string" && row[resultKey].startsWith("ERROR:") && <div style={{ fontSize: 12, color: '#dc2626', marginTop: 4 }}>{row[resultKey]}</div>}
+
+            <div style={{ display: 'grid', gridTemplateColumns: '120px 200px 1fr', gap: 12, alignItems: 'start', marginTop: 10 }}>
+              <div>
+                <Label>Score</Label>
+                <Input value={score} disabled={disabled} onChange={(e) => setScore(e.target.value)} />
+              </div>
+              <div>
+                <Label>Decision</Label>
+                <Input list="review-decisions" value={decision} disabled={disabled} onChange={(e) => setDecision(e.target.value)} />
+                <datalist id="review-decisions">{decisions.map(d => <option key={d} value={d} />)}</datalist>
+              </div>
+              <div>
+                <Label>Comment (required for an override)</Label>
+                <Textarea rows={2} value={comment} disabled={disabled} onChange={(e) => setComment(e.target.value)} />
+              </div>
+            </div>
+            <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+              <Button disabled={disabled} onClick={() => submit({ status: "accepted", score: null, decision: "", comment })}><Check size={14} style={{ marginRight: 6 }}/>Accept model</Button>
+              <Button disabled={disabled} onClick={override}>Save override</Button>
+              {error && <span style={{ fontSize: 12, color: '#dc2626' }}>{error}</span>}
+            </div>
+
+            {record && record.trail.length > 0 && (
+              <div style={{ marginTop: 10, fontSize: 12, color: '#475569' }}>
+                <div style={{ fontWeight: 600, color: '#334155' }}>History</div>
+                {record.trail.map((e, i) => (
+                  <div key={i} style={{ borderTop: '1px solid #f1f5f9', padding: '3px 0' }}>
+                    {new Date(e.at).toLocaleString()} · {e.reviewer} · {e.action}
+                    {e.changes.length ? ` · ${e.changes.map(c => `${c.field} ${toCell(c.from) || "–"} → ${toCell(c.to) || "–"}`).join(", ")}` : ""}
+                    {e.comment ? ` · "${e.comment}"` : ""}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ReviewCard;
@@ -0,0 +1,107 @@
+import React, { useEffect } from "react";
+import { RotateCcw, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { AttemptRecord, RowState } from "../lib/runStore";
+import { toCell } from "../lib/exporters";
+
+const pre: React.CSSProperties = {
+  whiteSpace: 'pre-wrap', wordBreak: 'break-word', fontSize: 12, background: '#f8fafc', border: '1px solid #e2e8f0',
+  borderRadius: 6, padding: 8, maxHeight: 260, overflow: 'auto', margin: '4px 0 10px',
+};
+const heading: React.CSSProperties = { fontSize: 13, fontWeight: 600, color: '#334155', margin: '16px 0 4px' };
+const STATUS_COLOR: Record<string, string> = { done: '#059669', failed: '#dc2626', running: '#2563eb', pending: '#64748b' };
+
+function prettyJson(text: any) {
+  try {
+    return JSON.stringify(typeof text === "string" ? JSON.parse(text) : text, null, 2);
+  } catch {
+    return toCell(text);
+  }
+}
+
+function attemptLabel(a: AttemptRecord, i: number) {
+  const outcome = a.outcome === "error" ? `failed${a.httpStatus ? ` (HTTP ${a.httpStatus})` : ""}` : a.outcome === "cached" ? "from cache" : "ok";
+  const tokens = a.usage ? ` · ${a.usage.prompt_tokens}+${a.usage.completion_tokens} tokens` : "";
+  return `#${i + 1} ${a.purpose}${a.sample !== undefined ? ` (sample ${a.sample + 1})` : ""} · ${a.model} · ${new Date(a.startedAt).toLocaleTimeString()} · ${(a.ms / 1000).toFixed(2)}s · ${outcome}${tokens}`;
+}
+
+export function RowInspector({ index, row, state, resultKey, prompts, loggedError, canRerun, onRerun, onClose }: {
+  index: number;
+  row: Record<string, any>;
+  state?: RowState;
+  resultKey: string;
+  /** System && user prompt rendered for this row (before redaction), or why they could not be rendered. */
+  prompts: { system: string; user: string } | { error: string };
+  loggedError?: string;
+  canRerun: boolean;
+  onRerun: () => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const history = state?.history || [];
+  const json = row?.[`${resultKey}_json`];
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, zIndex: 50, background: 'rgba(15, 23, 42, 0.3)' }} onClick={onClose}>
+      <div style={{ position: 'absolute', top: 0, right: 0, bottom: 0, width: 'min(760px, 100vw)', background: 'white', boxShadow: '-4px 0 24px rgba(0,0,0,0.15)', overflow: 'auto', padding: 20, boxSizing: 'border-box' }}
+        onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          <div style={{ fontSize: 18, fontWeight: 600 }}>Row {index + 1}</div>
+          {state && <span style={{ fontSize: 12, color: 'white', background: STATUS_COLOR[state.status], borderRadius: 10, padding: '2px 8px' }}>{state.status}</span>}
+          {state && <span style={{ fontSize: 12, color: '#64748b' }}>{state.attempts} call(s){state.usage ? ` · ${state.usage.prompt_tokens}+${state.usage.completion_tokens} tokens` : ""}</span>}
+          <span style={{ flex: 1 }} />
+          <Button disabled={!canRerun} onClick={onRerun}><RotateCcw size={14} style={{ marginRight: 6 }}/>Re-run this row</Button>
+          <Button onClick={onClose}><X size={14}/></Button>
+        </div>
+        {(state?.error || loggedError) && <div style={{ fontSize: 12, color: '#dc2626', marginTop: 8 }}>{state?.error || loggedError}</div>}
+
+        <div style={heading}>Result</div>
+        <div style={{ fontSize: 12, color: '#475569', display: 'flex', gap: 16, flexWrap: 'wrap' }}>
+          <span>eval.valid: {toCell(row?.["eval.valid"]) || "–"}</span>
+          <span>eval.score: {toCell(row?.["eval.score"]) || "–"}</span>
+          <span>eval.decision: {toCell(row?.["eval.decision"]) || "–"}</span>
+        </div>
+        {row?.["eval.errors"] && <div style={{ fontSize: 12, color: '#b45309', marginTop: 4 }}>Schema: {toCell(row["eval.errors"])}</div>}
+        {json ? <pre style={pre}>{prettyJson(json)}</pre> : row?.[resultKey] ? <pre style={pre}>{toCell(row[resultKey])}</pre> : <div style={{ fontSize: 12, color: '#94a3b8' }}>Not evaluated yet.</div>}
+
+        <div style={heading}>Prompt</div>
+        {"error" in prompts ? <div style={{ fontSize: 12, color: '#dc2626' }}>{prompts.error}</div> : (
+          <>
+            <div style={{ fontSize: 12, color: '#64748b' }}>System</div>
+            <pre style={pre}>{prompts.system || "(none)"}</pre>
+            <div style={{ fontSize: 12, color: '#64748b' }}>User</div>
+            <pre style={pre}>{prompts.user}</pre>
+          </>
+        )}
+
+        <div style={heading}>Attempts ({history.length})</div>
+        {!history.length && <div style={{ fontSize: 12, color: '#94a3b8' }}>{state?.result?.["dup.copied"] ? "Copied from the cluster's representative; no call was made." : "No calls recorded for this row."}</div>}
+        {history.map((a, i) => (
+          <details key={i} style={{ borderTop: '1px solid #e2e8f0', padding: '6px 0' }} open={i === history.length - 1}>
+            <summary style={{ fontSize: 12, cursor: 'pointer', color: a.outcome === "error" ? '#dc2626' : '#334155' }}>{attemptLabel(a, i)}</summary>
+            {a.error && <div style={{ fontSize: 12, color: '#dc2626', margin: '4px 0' }}>{a.error}</div>}
+            {"error" in prompts || a.userPrompt !== prompts.user ? (
+              <>
+                <div style={{ fontSize: 12, color: '#64748b' }}>User prompt as sent</div>
+                <pre style={pre}>{a.userPrompt}</pre>
+              </>
+            ) : <div style={{ fontSize: 12, color: '#64748b' }}>Sent the user prompt above.</div>}
+            {a.raw !== undefined && (
+              <>
+                <div style={{ fontSize: 12, color: '#64748b' }}>Raw response</div>
+                <pre style={pre}>{a.raw}</pre>
+              </>
+            )}
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default RowInspector;
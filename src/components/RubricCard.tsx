@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { Plus, Save, Scale, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Label } from "./ui/label";
+import { Rubric, RubricCriterion, criterionKey, deleteSavedRubric, loadSavedRubrics, rubricKeyProblem, rubricPromptSection, saveRubric } from "../lib/rubric";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+
+export function RubricCard({ enabled, onToggle, rubric, onChange, disabled }: {
+  enabled: boolean;
+  onToggle: (v: boolean) => void;
+  rubric: Rubric;
+  onChange: (r: Rubric) => void;
+  disabled?: boolean;
+}) {
+  const [saved, setSaved] = useState<Rubric[]>(() => loadSavedRubrics());
+  const [showPrompt, setShowPrompt] = useState(false);
+  const setCriterion = (i: number, patch: Partial<RubricCriterion>) =>
+    onChange({ ...rubric, criteria: rubric.criteria.map((c, j) => j === i ? { ...c, ...patch } : c) });
+  const totalWeight = rubric.criteria.reduce((a, c) => a + (Number(c.weight) || 0), 0);
+  const keyProblem = rubricKeyProblem(rubric);
+
+  return (
+    <Card style={{ marginTop: 20 }}>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><Scale size={18}/>Rubric</CardTitle>
+        <CardDescription>
+          Score each criterion on its own scale. The rubric is inserted at {'{{rubric}}'} (or appended to the prompt), defines the output schema,
+          and adds "eval.&lt;criterion&gt;" columns plus a weighted total (also used as "eval.score").
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', fontSize: 13, marginBottom: 12 }}>
+          <label><input type="checkbox" checked={enabled} disabled={disabled} onChange={(e) => onToggle(e.target.checked)} /> Use rubric</label>
+          <span style={{ flex: 1 }} />
+          <select style={{ ...selectStyle, width: 220 }} value="" disabled={disabled} onChange={(e) => {
+            const r = saved.find(x => x.name === e.target.value);
+            if (r) onChange(r);
+          }}>
+            <option value="">Load saved rubric…</option>
+            {saved.map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
+          </select>
+          <Button disabled={disabled || !rubric.name.trim()} onClick={() => setSaved(saveRubric(rubric))}><Save size={14} style={{ marginRight: 6 }}/>Save</Button>
+          <Button disabled={disabled || !saved.some(r => r.name === rubric.name)} onClick={() => setSaved(deleteSavedRubric(rubric.name))}><Trash2 size={14} style={{ marginRight: 6 }}/>Delete saved</Button>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 160px', gap: 16, marginBottom: 12 }}>
+          <div>
+            <Label>Rubric name</Label>
+            <Input value={rubric.name} disabled={disabled} onChange={(e) => onChange({ ...rubric, name: e.target.value })} />
+          </div>
+          <div>
+            <Label>Weighted total max</Label>
+            <Input type="number" min={1} value={rubric.totalMax} disabled={disabled} onChange={(e) => onChange({ ...rubric, totalMax: Number(e.target.value) || 5 })} />
+          </div>
+        </div>
+
+        {rubric.criteria.map((c, i) => (
+          <div key={i} style={{ border: '1px solid #e2e8f0', borderRadius: 8, padding: 12, marginBottom: 10 }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1.5fr 1fr 80px 80px 90px 40px', gap: 8, alignItems: 'end' }}>
+              <div>
+                <Label>Criterion</Label>
+                <Input value={c.name} disabled={disabled} onChange={(e) => setCriterion(i, { name: e.target.value, key: criterionKey(e.target.value) })} />
+              </div>
+              <div>
+                <Label>Column key</Label>
+                <Input value={c.key} disabled={disabled} onChange={(e) => setCriterion(i, { key: criterionKey(e.target.value) })} />
+              </div>
+              <div>
+                <Label>Min</Label>
+                <Input type="number" value={c.min} disabled={disabled} onChange={(e) => setCriterion(i, { min: Number(e.target.value) || 0 })} />
+              </div>
+              <div>
+                <Label>Max</Label>
+                <Input type="number" value={c.max} disabled={disabled} onChange={(e) => setCriterion(i, { max: Number(e.target.value) || 0 })} />
+              </div>
+              <div>
+                <Label>Weight</Label>
+                <Input type="number" min={0} step={0.05} value={c.weight} disabled={disabled} onChange={(e) => setCriterion(i, { weight: Number(e.target.value) || 0 })} />
+              </div>
+              <Button disabled={disabled} onClick={() => onChange({ ...rubric, criteria: rubric.criteria.filter((_, j) => j !== i) })}><Trash2 size={14}/></Button>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8, marginTop: 8 }}>
+              <div>
+                <Label>Description</Label>
+                <Textarea rows={3} value={c.description} disabled={disabled} onChange={(e) => setCriterion(i, { description: e.target.value })} />
+              </div>
+              <div>
+                <Label>Anchors (one per line, "score: meaning")</Label>
+                <Textarea rows={3} value={c.anchors} disabled={disabled} onChange={(e) => setCriterion(i, { anchors: e.target.value })} />
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+          <Button disabled={disabled} onClick={() => onChange({ ...rubric, criteria: [...rubric.criteria, { key: `criterion_${rubric.criteria.length + 1}`, name: "", description: "", min: 0, max: 5, weight: 1, anchors: "" }] })}>
+            <Plus size={14} style={{ marginRight: 6 }}/>Add criterion
+          </Button>
+          <Button onClick={() => setShowPrompt(v => !v)}>{showPrompt ? "Hide" : "Show"} generated prompt section</Button>
+          <span style={{ fontSize: 12, color: '#475569' }}>Total weight: {totalWeight} (weights are normalized)</span>
+          {keyProblem && <span style={{ fontSize: 12, color: '#b91c1c' }}>{keyProblem}</span>}
+        </div>
+
+        {showPrompt && (
+          <pre style={{ marginTop: 12, padding: 12, background:'#f1f5f9', border:'1px solid #e2e8f0', borderRadius:8, fontSize:12, whiteSpace:'pre-wrap', maxHeight: 260, overflow:'auto' }}>{rubricPromptSection(rubric)}</pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RubricCard;
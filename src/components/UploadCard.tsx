@@ -0,0 +1,89 @@
+import React from "react";
+import { Database, FileUp, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { ACCEPTED_FILES, DataSource, selectSheet } from "../lib/importers";
+
+const selectStyle: React.CSSProperties = { width:'100%', height:40, border:'1px solid #cbd5e1', borderRadius:8, padding:'0 12px', backgroundColor: 'white' };
+
+export function UploadCard({ sources, onSourcesChange, onFiles, onLoadSample, onReset, rowCount, columns, unmatched, inputRef, disabled }: {
+  sources: DataSource[];
+  onSourcesChange: (s: DataSource[]) => void;
+  onFiles: (files: File[]) => void;
+  onLoadSample: () => void;
+  onReset: () => void;
+  rowCount: number;
+  columns: string[];
+  /** Base rows without a match, per source (see joinSources). */
+  unmatched: number[];
+  inputRef: React.Ref<HTMLInputElement>;
+  disabled?: boolean;
+}) {
+  const setSource = (i: number, next: DataSource) => onSourcesChange(sources.map((s, j) => j === i ? next : s));
+  const multi = sources.length > 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle style={{ display: 'flex', alignItems: 'center', gap: 8 }}><FileUp size={18}/>Upload Data</CardTitle>
+        <CardDescription>
+          CSV, TSV, JSON / JSONL or Excel (XLSX/XLS). UTF‑8, UTF‑16 && Windows‑1252 are detected. Select several files to join them on a
+          key column; the first file decides which rows are evaluated.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+          <div style={{ flex: 1, minWidth: 200 }}>
+            <Input type="file" multiple accept={ACCEPTED_FILES} ref={inputRef} disabled={disabled} onChange={(e) => {
+              const files = Array.from((e.target as HTMLInputElement).files || []); if (files.length) onFiles(files);
+            }} />
+          </div>
+          <Button onClick={onLoadSample} disabled={disabled}><Database size={16} style={{ marginRight: 6 }}/>Load Sample</Button>
+          <Button onClick={onReset} disabled={disabled}><Trash2 size={16} style={{ marginRight: 6 }}/>Reset</Button>
+        </div>
+
+        {sources.map((s, i) => (
+          <div key={s.id} style={{ border: '1px solid #e2e8f0', borderRadius: 8, padding: 10, marginTop: 10, fontSize: 12 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+              <span>
+                <b>{s.name}</b> · {s.format.toUpperCase()}{s.encoding ? ` · ${s.encoding}` : ""} · {s.rows.length} rows
+                {multi && i === 0 ? " · base" : ""}
+                {multi && i > 0 && unmatched[i] ? <span style={{ color: '#b45309' }}> · {unmatched[i]} base row(s) without a match</span> : null}
+              </span>
+              {multi && <Button disabled={disabled} onClick={() => onSourcesChange(sources.filter((_, j) => j !== i))}><X size={14}/></Button>}
+            </div>
+            {(s.sheets.length > 1 || multi) && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12, marginTop: 8 }}>
+                {s.sheets.length > 1 && (
+                  <div>
+                    <Label>Sheet</Label>
+                    <select style={selectStyle} value={s.sheet} disabled={disabled} onChange={(e) => setSource(i, selectSheet(s, e.target.value))}>
+                      {s.sheets.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </div>
+                )}
+                {multi && (
+                  <div>
+                    <Label>Join key column</Label>
+                    <select style={selectStyle} value={s.key} disabled={disabled} onChange={(e) => setSource(i, { ...s, key: e.target.value })}>
+                      <option value="">None (no join)</option>
+                      {s.columns.map((c, k) => <option key={`${k}-${c}`} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {rowCount > 0 && (
+          <div style={{ fontSize: 12, color: '#475569', marginTop: 8 }}>Loaded <b>{rowCount}</b> rows. Columns: {columns.length ? columns.join(", ") : "(none)"}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default UploadCard;
@@ -0,0 +1,148 @@
+/**
+ * OpenAI Batch API mode
+ * - Request file: one /v1/chat/completions line per row, rendered like a live call (rubric, withheld columns, redaction,
+ *   structured-output schema); custom_id = row number + hash of the source row, stable across exports of the same data
+ * - Result files: the batch's output && error JSONL, in any order && split over any number of files; each response goes
+ *   through deriveEvalColumns like a live one, so resultKey, eval.valid, eval.score && eval.decision come out the same
+ * - One call per row: consensus sampling, schema repair, long-input map-reduce && near-duplicate copies are off in batch mode
+ * - Imported usage is priced at BATCH_DISCOUNT of the list price
+ * - OpenAI provider only; files over the Batch API limits (requests per batch, file size) are written with a warning
+ */
+import { ChatRequest, Usage, fromOpenAIShape, getProvider, hashString, openAIChatBody } from "./providers";
+import { addUsage, deriveEvalColumns, renderRowPrompt, responseSchemaName } from "./evaluate";
+import { createRedactor } from "./redaction";
+import { RowState, RunConfig } from "./runStore";
+
+export const BATCH_ENDPOINT = "/v1/chat/completions";
+/** Limits of one OpenAI batch input file. */
+export const BATCH_MAX_REQUESTS = 50_000;
+export const BATCH_MAX_BYTES = 200 * 1024 * 1024;
+
+/** One line of an output or error file. */
+export interface BatchResult {
+  customId: string;
+  /** HTTP status of the request; absent when the batch rejected it before sending (e.g. expired). */
+  status?: number;
+  /** Chat completion body of a successful request. */
+  body?: any;
+  error?: string;
+}
+
+export function batchCustomId(index: number, sourceRow: Record<string, any>) {
+  return `row-${index + 1}-${hashString(JSON.stringify(sourceRow)).toString(36)}`;
+}
+
+/** The run config as batch mode uses it, && what it had to switch off; a message when batch mode cannot be used. */
+export function batchConfig(cfg: RunConfig): { cfg: RunConfig; notes: string[] } | string {
+  if (cfg.providerId !== "openai") return `Batch mode sends the file to the OpenAI Batch API; switch the provider from ${getProvider(cfg.providerId).label} to OpenAI.`;
+  const notes: string[] = [];
+  if (cfg.consensus) notes.push("Consensus is off: one answer per row from the main model.");
+  if (cfg.repair) notes.push("Schema repair is off: invalid outputs stay invalid (re-run them live afterwards).");
+  if (cfg.longInput) notes.push("Long-input map-reduce is off: oversized rows are sent whole.");
+  if (cfg.dedupe) notes.push("Near-duplicate handling is off: every row gets its own request.");
+  return { cfg: { ...cfg, consensus: null, repair: false, longInput: null, dedupe: null }, notes };
+}
+
+/** Warnings for a request file over the Batch API limits; `bytes` is unknown until the file is written. */
+export function batchLimitWarnings(requests: number, bytes?: number) {
+  const warnings: string[] = [];
+  if (requests > BATCH_MAX_REQUESTS) warnings.push(`${requests} requests is over the Batch API limit of ${BATCH_MAX_REQUESTS} per batch: split the dataset into several files.`);
+  if (bytes !== undefined && bytes > BATCH_MAX_BYTES) {
+    warnings.push(`The file is ${(bytes / 1024 / 1024).toFixed(1)} MB, over the Batch API limit of ${BATCH_MAX_BYTES / 1024 / 1024} MB: split the dataset into several files.`);
+  }
+  return warnings;
+}
+
+// The request as sent for one row, with the redactor that can restore its output.
+function rowRequest(cfg: RunConfig, row: Record<string, any>) {
+  const redactor = cfg.redaction ? createRedactor(cfg.redaction, row) : null;
+  const userPrompt = renderRowPrompt(cfg, row);
+  const req: ChatRequest = {
+    model: cfg.model,
+    systemPrompt: cfg.systemPrompt,
+    temperature: cfg.temperature,
+    userPrompt: redactor ? redactor.redact(userPrompt) : userPrompt,
+    ...(cfg.responseSchema ? { responseSchema: { name: responseSchemaName(cfg.resultKey), schema: cfg.responseSchema } } : {}),
+  };
+  return { req, redactor };
+}
+
+/** The JSONL request file for `rows` (source columns only). */
+export function batchRequestFile(cfg: RunConfig, rows: Record<string, any>[]) {
+  return rows.map((row, i) => JSON.stringify({
+    custom_id: batchCustomId(i, row),
+    method: "POST",
+    url: BATCH_ENDPOINT,
+    body: openAIChatBody(rowRequest(cfg, row).req),
+  })).join("\n") + "\n";
+}
+
+/** Lines of an output or error file; lines that are not JSON or lack a custom_id are reported by number. */
+export function parseBatchResults(text: string): { results: BatchResult[]; invalidLines: number[] } {
+  const results: BatchResult[] = [];
+  const invalidLines: number[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let v: any;
+    try { v = JSON.parse(line); } catch { invalidLines.push(i + 1); return; }
+    if (!v || typeof v.custom_id !== "string") { invalidLines.push(i + 1); return; }
+    const status = v.response?.status_code;
+    const body = v.response?.body;
+    const error = v.error?.message || body?.error?.message || (typeof status === "number" && status >= 400 ? `HTTP ${status}` : "");
+    results.push({
+      customId: v.custom_id,
+      ...(typeof status === "number" ? { status } : {}),
+      ...(error ? { error: `${v.error?.code ? `${v.error.code}: ` : ""}${error}` } : { body }),
+    });
+  });
+  return { results, invalidLines };
+}
+
+/** A row's next state from its batch result; usage goes to batchUsage so it is priced at the batch rate. */
+export function batchRowState(cfg: RunConfig, row: Record<string, any>, prev: RowState, result: BatchResult, at = Date.now()): RowState {
+  const { req, redactor } = rowRequest(cfg, row);
+  const base = { purpose: "batch" as const, model: req.model, startedAt: at, ms: 0, systemPrompt: req.systemPrompt || "", userPrompt: req.userPrompt };
+  const history = [...(prev.history || [])];
+  const attempts = prev.attempts + 1;
+  const redactions = redactor ? { redactions: redactor.counts() } : {};
+  if (result.error || !result.body) {
+    const msg = result.error || "no response body";
+    history.push({ ...base, outcome: "error", error: msg, ...(result.status ? { httpStatus: result.status } : {}) });
+    return { ...prev, status: "failed", attempts, history, ...redactions, error: msg, result: { ...row, [cfg.resultKey]: `ERROR: ${msg}`, "eval.valid": false } };
+  }
+  const res = fromOpenAIShape(result.body, req);
+  history.push({ ...base, outcome: "ok", raw: res.content, usage: res.usage });
+  const raw = redactor ? redactor.restore(res.content) : res.content;
+  const structured = redactor ? redactor.restoreValue(res.structured) : res.structured;
+  const { cols } = deriveEvalColumns(raw, cfg.resultKey, cfg.outputSchema, structured, cfg.rubric);
+  const batchUsage: Record<string, Usage> = { ...(prev.batchUsage || {}), [req.model]: addUsage(prev.batchUsage?.[req.model], res.usage) };
+  return {
+    ...prev, status: "done", attempts, history, ...redactions, raw, repairRaw: undefined, error: undefined, batchUsage,
+    usage: [...Object.values(prev.usageByModel || {}), ...Object.values(batchUsage)].reduce(addUsage, undefined),
+    result: { ...row, [cfg.resultKey]: raw, ...cols },
+  };
+}
+
+/**
+ * Merges batch results into the run's row states; an error never replaces a finished evaluation && a result that
+ * was imported before is skipped, so importing a file twice does not count its usage twice. Returns the changed row
+ * indices && the custom_ids that belong to no row of this run (another dataset, or rows edited since the export).
+ */
+export function applyBatchResults(cfg: RunConfig, sourceRows: Record<string, any>[], states: RowState[], results: BatchResult[], at = Date.now()) {
+  const byId = new Map(sourceRows.map((r, i) => [batchCustomId(i, r), i]));
+  const next = [...states];
+  const updated = new Set<number>();
+  const unknown: string[] = [];
+  for (const r of results) {
+    const idx = byId.get(r.customId);
+    if (idx === undefined) { unknown.push(r.customId); continue; }
+    const prev = next[idx];
+    if (r.error && prev.status === "done") continue;
+    const content = r.error || !r.body ? undefined : fromOpenAIShape(r.body, { model: "", userPrompt: "" }).content;
+    const seen = (prev.history || []).some(h => h.purpose === "batch" && (content === undefined ? h.outcome === "error" && h.error === (r.error || "no response body") : h.outcome === "ok" && h.raw === content));
+    if (seen) continue;
+    next[idx] = batchRowState(cfg, sourceRows[idx], prev, r, at);
+    updated.add(idx);
+  }
+  return { states: next, updated: Array.from(updated).sort((a, b) => a - b), unknown };
+}
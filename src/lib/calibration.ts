@@ -0,0 +1,134 @@
+/**
+ * Calibration against human (gold) labels
+ * - Decision: confusion matrix + accuracy of eval.decision vs. the gold decision column
+ * - Score: MAE, RMSE && Spearman rank correlation of eval.score vs. the gold score column
+ * - Disagreements: rows ranked by decision mismatch first, then absolute score difference
+ */
+
+export interface CalibrationSettings {
+  goldScoreCol: string;
+  goldDecisionCol: string;
+}
+
+export const DEFAULT_CALIBRATION: CalibrationSettings = { goldScoreCol: "", goldDecisionCol: "" };
+
+const GO = ["go", "yes", "y", "accept", "accepted", "approve", "approved", "fund", "funded", "pass", "1", "true"];
+const NO_GO = ["nogo", "no", "n", "reject", "rejected", "decline", "declined", "fail", "0", "false"];
+
+/** Maps common spellings of human decisions onto "Go" / "No-Go"; anything else is kept as-is. */
+export function normalizeDecision(v: any): string | undefined {
+  if (v === null || v === undefined) return undefined;
+  const s = String(v).trim();
+  if (!s) return undefined;
+  const k = s.toLowerCase().replace(/[^a-z0-9]/g, "");
+  if (GO.includes(k)) return "Go";
+  if (NO_GO.includes(k)) return "No-Go";
+  return s;
+}
+
+export function toNumber(v: any): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined;
+  const n = typeof v === "number" ? v : Number(String(v).trim().replace(",", "."));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Average ranks (1-based); ties share the mean of their positions. */
+export function ranks(xs: number[]) {
+  const order = xs.map((x, i) => [x, i] as const).sort((a, b) => a[0] - b[0]);
+  const r = new Array<number>(xs.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const avg = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) r[order[k][1]] = avg;
+    i = j + 1;
+  }
+  return r;
+}
+
+export function pearson(xs: number[], ys: number[]) {
+  const n = xs.length;
+  if (n < 2) return undefined;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return undefined;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+export function spearman(xs: number[], ys: number[]) {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+export interface Disagreement {
+  idx: number;
+  goldScore?: number;
+  modelScore?: number;
+  goldDecision?: string;
+  modelDecision?: string;
+  scoreDiff?: number;
+  decisionMismatch: boolean;
+}
+
+export interface CalibrationReport {
+  score?: { n: number; mae: number; rmse: number; spearman?: number };
+  decision?: { n: number; accuracy: number; labels: string[]; matrix: number[][] };
+  disagreements: Disagreement[];
+}
+
+export function computeCalibration(rows: Record<string, any>[], settings: CalibrationSettings, limit = 25): CalibrationReport {
+  const { goldScoreCol, goldDecisionCol } = settings;
+  const gold: number[] = [];
+  const model: number[] = [];
+  const pairs: [string, string][] = [];
+  const rowsOut: Disagreement[] = [];
+
+  rows.forEach((r, idx) => {
+    const goldScore = goldScoreCol ? toNumber(r?.[goldScoreCol]) : undefined;
+    const modelScore = toNumber(r?.["eval.score"]);
+    const goldDecision = goldDecisionCol ? normalizeDecision(r?.[goldDecisionCol]) : undefined;
+    const modelDecision = normalizeDecision(r?.["eval.decision"]);
+    if (goldScore !== undefined && modelScore !== undefined) { gold.push(goldScore); model.push(modelScore); }
+    if (goldDecision !== undefined && modelDecision !== undefined) pairs.push([goldDecision, modelDecision]);
+    const scoreDiff = goldScore !== undefined && modelScore !== undefined ? modelScore - goldScore : undefined;
+    const decisionMismatch = goldDecision !== undefined && modelDecision !== undefined && goldDecision !== modelDecision;
+    if (decisionMismatch || (scoreDiff !== undefined && scoreDiff !== 0)) {
+      rowsOut.push({ idx, goldScore, modelScore, goldDecision, modelDecision, scoreDiff, decisionMismatch });
+    }
+  });
+
+  const report: CalibrationReport = { disagreements: [] };
+  if (gold.length) {
+    const diffs = gold.map((g, i) => model[i] - g);
+    report.score = {
+      n: gold.length,
+      mae: diffs.reduce((a, d) => a + Math.abs(d), 0) / diffs.length,
+      rmse: Math.sqrt(diffs.reduce((a, d) => a + d * d, 0) / diffs.length),
+      spearman: spearman(gold, model),
+    };
+  }
+  if (pairs.length) {
+    const labels = Array.from(new Set(pairs.flat())).sort((a, b) => {
+      // Keep Go / No-Go first, in that order.
+      const rank = (l: string) => l === "Go" ? 0 : l === "No-Go" ? 1 : 2;
+      return rank(a) - rank(b) || a.localeCompare(b);
+    });
+    const matrix = labels.map(() => labels.map(() => 0));
+    for (const [g, m] of pairs) matrix[labels.indexOf(g)][labels.indexOf(m)]++;
+    report.decision = {
+      n: pairs.length,
+      accuracy: pairs.filter(([g, m]) => g === m).length / pairs.length,
+      labels,
+      matrix,
+    };
+  }
+  report.disagreements = rowsOut
+    .sort((a, b) => Number(b.decisionMismatch) - Number(a.decisionMismatch) || Math.abs(b.scoreDiff ?? 0) - Math.abs(a.scoreDiff ?? 0))
+    .slice(0, limit);
+  return report;
+}
@@ -0,0 +1,72 @@
+/**
+ * Long-input (map-reduce) mode
+ * - A row whose rendered prompt exceeds `maxInputTokens` has its submission split into overlapping chunks,
+ *   cut at paragraph / sentence boundaries where possible
+ * - Map: each chunk goes through `mapPrompt` ({{chunk}}, {{chunk_index}}, {{chunk_count}} + the row's columns)
+ * - Reduce: `reducePrompt` ({{notes}}, {{chunk_count}} + columns) replaces {{submission}} in the evaluation prompt,
+ *   so schema, rubric && consensus settings apply to the final call as usual
+ */
+import { approxTokens } from "./providers";
+
+export interface LongInputSettings {
+  enabled: boolean;
+  /** Rendered user prompts above this many tokens (~4 chars each) go through map-reduce. */
+  maxInputTokens: number;
+  chunkTokens: number;
+  overlapTokens: number;
+  mapPrompt: string;
+  reducePrompt: string;
+}
+
+export const DEFAULT_LONG_INPUT: LongInputSettings = {
+  enabled: false,
+  maxInputTokens: 12000,
+  chunkTokens: 4000,
+  overlapTokens: 200,
+  mapPrompt:
+    "You are reading part {{chunk_index}} of {{chunk_count}} of a longer submission. Write concise notes on everything in this part that matters for evaluating it: goals, approach, evidence, feasibility, impact and risks. Quote key figures. Do not score it.\n\nPart {{chunk_index}}:\n{{chunk}}",
+  reducePrompt:
+    "(This submission was too long to include in full. Below are notes on each of its {{chunk_count}} parts, in order.)\n\n{{notes}}",
+};
+
+/** A chunk of the submission; offsets are character positions in the original text. */
+export interface ChunkNote {
+  index: number;
+  start: number;
+  end: number;
+  output?: string;
+}
+
+export function isOversized(prompt: string, settings: LongInputSettings) {
+  return approxTokens(prompt) > settings.maxInputTokens;
+}
+
+// Prefer to cut after a paragraph, then a sentence, then a space, within the last quarter of the window.
+function cutPoint(text: string, start: number, end: number) {
+  if (end >= text.length) return text.length;
+  const floor = start + Math.floor((end - start) * 0.75);
+  for (const sep of ["\n\n", "\n", ". ", "? ", "! ", " "]) {
+    const i = text.lastIndexOf(sep, end - sep.length);
+    if (i >= floor) return i + sep.length;
+  }
+  return end;
+}
+
+export function splitIntoChunks(text: string, chunkTokens: number, overlapTokens: number): ChunkNote[] {
+  const size = Math.max(200, chunkTokens * 4);
+  const overlap = Math.min(Math.max(0, overlapTokens * 4), Math.floor(size / 2));
+  const chunks: ChunkNote[] = [];
+  for (let start = 0; start < text.length;) {
+    const end = cutPoint(text, start, start + size);
+    chunks.push({ index: chunks.length, start, end });
+    if (end >= text.length) break;
+    start = Math.max(start + 1, end - overlap);
+  }
+  return chunks;
+}
+
+export function joinNotes(chunks: ChunkNote[]) {
+  return chunks.map(c => `Part ${c.index + 1}/${chunks.length}:\n${(c.output || "").trim()}`).join("\n\n");
+}
+
+export const LONG_INPUT_COLUMNS = ["longinput.chunked", "longinput.chunks"];
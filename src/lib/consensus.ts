@@ -0,0 +1,130 @@
+/**
+ * Self-consistency && multi-model consensus
+ * - Each row is sampled N times per model; every sample is kept for audit
+ * - Numeric eval.* columns are aggregated by mean or median, eval.decision by majority vote
+ * - Per row: score standard deviation && share of samples agreeing with the majority decision
+ * - Per run: Fleiss' kappa over the decisions (rows = subjects, samples = raters)
+ */
+
+export interface ConsensusSettings {
+  enabled: boolean;
+  samplesPerModel: number;
+  /** Models sampled for each row; empty means just the run model. */
+  models: string[];
+  aggregate: "mean" | "median";
+  /** Rows whose score SD exceeds this are flagged for review. */
+  maxScoreSd: number;
+  /** Rows whose majority decision share is below this (0..1) are flagged for review. */
+  minAgreement: number;
+}
+
+export const DEFAULT_CONSENSUS: ConsensusSettings = {
+  enabled: false,
+  samplesPerModel: 3,
+  models: [],
+  aggregate: "mean",
+  maxScoreSd: 1,
+  minAgreement: 0.67,
+};
+
+export interface ConsensusSample {
+  model: string;
+  sample: number;
+  valid: boolean;
+  raw: string;
+  /** eval.* columns derived from this sample. */
+  evals: Record<string, any>;
+}
+
+export function mean(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : NaN;
+}
+
+export function median(xs: number[]) {
+  if (!xs.length) return NaN;
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Population standard deviation. */
+export function stdDev(xs: number[]) {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map(x => (x - m) ** 2)));
+}
+
+function round(n: number, d = 3) {
+  const f = 10 ** d;
+  return Math.round(n * f) / f;
+}
+
+/** Majority vote; ties go to the value seen first. */
+export function majority(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) || 0) + 1);
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [v, c] of counts) if (c > bestCount) { best = v; bestCount = c; }
+  return { value: best, count: bestCount };
+}
+
+export function aggregateSamples(samples: ConsensusSample[], settings: ConsensusSettings) {
+  const cols: Record<string, any> = {};
+  const valid = samples.filter(s => s.valid);
+  const agg = settings.aggregate === "median" ? median : mean;
+
+  const numericKeys = new Set<string>();
+  for (const s of valid) {
+    for (const [k, v] of Object.entries(s.evals)) if (k !== "eval.valid" && typeof v === "number") numericKeys.add(k);
+  }
+  for (const k of numericKeys) {
+    const xs = valid.map(s => s.evals[k]).filter((v): v is number => typeof v === "number");
+    if (xs.length) cols[k] = round(agg(xs));
+  }
+
+  const scores = valid.map(s => s.evals["eval.score"]).filter((v): v is number => typeof v === "number");
+  const decisions = valid.map(s => s.evals["eval.decision"]).filter(d => d !== undefined && d !== null).map(String);
+  const vote = majority(decisions);
+  if (vote.value !== undefined) cols["eval.decision"] = vote.value;
+
+  const scoreSd = round(stdDev(scores));
+  const agreement = decisions.length ? round(vote.count / decisions.length) : 0;
+  cols["eval.valid"] = valid.length > 0;
+  cols["consensus.n"] = `${valid.length}/${samples.length}`;
+  cols["consensus.score_sd"] = scores.length ? scoreSd : "";
+  cols["consensus.agreement"] = decisions.length ? agreement : "";
+  cols["consensus.review"] = valid.length < 2 || scoreSd > settings.maxScoreSd || agreement < settings.minAgreement;
+  return cols;
+}
+
+/**
+ * Fleiss' kappa for a varying number of raters per subject. Subjects with fewer than two
+ * ratings are ignored. Returns undefined when it cannot be computed.
+ */
+export function fleissKappa(ratingsPerSubject: string[][]) {
+  const subjects = ratingsPerSubject.filter(r => r.length >= 2);
+  if (!subjects.length) return undefined;
+  const totals = new Map<string, number>();
+  let totalRatings = 0;
+  let pSum = 0;
+  for (const ratings of subjects) {
+    const counts = new Map<string, number>();
+    for (const r of ratings) counts.set(r, (counts.get(r) || 0) + 1);
+    const n = ratings.length;
+    let sq = 0;
+    for (const [cat, c] of counts) {
+      sq += c * c;
+      totals.set(cat, (totals.get(cat) || 0) + c);
+    }
+    pSum += (sq - n) / (n * (n - 1));
+    totalRatings += n;
+  }
+  const pBar = pSum / subjects.length;
+  let pE = 0;
+  for (const c of totals.values()) pE += (c / totalRatings) ** 2;
+  if (pE === 1) return pBar === 1 ? 1 : undefined;
+  return round((pBar - pE) / (1 - pE));
+}
+
+export const CONSENSUS_COLUMNS = ["consensus.n", "consensus.score_sd", "consensus.agreement", "consensus.review"];
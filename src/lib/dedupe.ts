@@ -0,0 +1,158 @@
+/**
+ * Near-duplicate detection (local, no API calls)
+ * - Text is normalized (case, punctuation, whitespace) && cut into overlapping word shingles
+ * - MinHash signatures + LSH banding find candidate pairs without comparing every pair of rows
+ * - Candidates are confirmed with the exact Jaccard similarity to their cluster's representative, never through a
+ *   chain of other members
+ * - The representative of a cluster is its first row; "representative" mode evaluates only that row and copies
+ *   its result to the others, "tag" mode evaluates every row && only adds the dup.* columns
+ */
+
+export type DedupeMode = "tag" | "representative";
+
+export interface DedupeSettings {
+  enabled: boolean;
+  /** Minimum Jaccard similarity of the shingle sets, 0..1. */
+  threshold: number;
+  /** Words per shingle. */
+  shingleSize: number;
+  mode: DedupeMode;
+}
+
+export const DEFAULT_DEDUPE: DedupeSettings = { enabled: false, threshold: 0.8, shingleSize: 4, mode: "tag" };
+
+export interface DuplicateCluster {
+  /** 1-based, in order of the representative rows. */
+  id: number;
+  representative: number;
+  /** Row indices, ascending; the representative is the first. */
+  rows: number[];
+  /** Jaccard similarity of each row to the representative (1 for the representative). */
+  similarity: Record<number, number>;
+}
+
+export interface DuplicateReport {
+  clusters: DuplicateCluster[];
+  /** Cluster of each row; undefined for rows without near-duplicates. */
+  clusterOf: (DuplicateCluster | undefined)[];
+}
+
+export const DEDUPE_COLUMNS = ["dup.cluster", "dup.of", "dup.similarity", "dup.copied"];
+
+const HASHES = 128;
+const BANDS = 32;
+const ROWS_PER_BAND = HASHES / BANDS;
+
+export function normalizeText(text: string) {
+  return String(text ?? "").toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+export function shingles(text: string, size: number): Set<string> {
+  const words = normalizeText(text).split(" ").filter(Boolean);
+  const k = Math.max(1, size);
+  const out = new Set<string>();
+  // Texts shorter than one shingle count as a single shingle, so two identical short texts still match.
+  if (words.length <= k) { if (words.length) out.add(words.join(" ")); return out; }
+  for (let i = 0; i + k <= words.length; i++) out.add(words.slice(i, i + k).join(" "));
+  return out;
+}
+
+// FNV-1a with a seed; two seeds give the h1 + i·h2 family of hash functions (Kirsch-Mitzenmacher).
+function fnv(s: string, seed: number) {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  return h >>> 0;
+}
+
+export function minHash(set: Set<string>): Uint32Array {
+  const sig = new Uint32Array(HASHES).fill(0xffffffff);
+  for (const s of set) {
+    const h1 = fnv(s, 0x9e3779b9);
+    const h2 = fnv(s, 0x7f4a7c15) | 1;
+    for (let i = 0; i < HASHES; i++) {
+      const h = (h1 + Math.imul(i, h2)) >>> 0;
+      if (h < sig[i]) sig[i] = h;
+    }
+  }
+  return sig;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>) {
+  if (!a.size && !b.size) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let inter = 0;
+  for (const s of small) if (large.has(s)) inter++;
+  return inter / (a.size + b.size - inter);
+}
+
+export function findDuplicates(texts: string[], settings: Pick<DedupeSettings, "threshold" | "shingleSize">): DuplicateReport {
+  const sets = texts.map(t => shingles(t, settings.shingleSize));
+  const buckets = new Map<string, number[]>();
+  const keysOf: string[][] = texts.map(() => []);
+  sets.forEach((set, i) => {
+    if (!set.size) return;
+    const sig = minHash(set);
+    for (let b = 0; b < BANDS; b++) {
+      const key = `${b}:${Array.from(sig.subarray(b * ROWS_PER_BAND, (b + 1) * ROWS_PER_BAND)).join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i); else buckets.set(key, [i]);
+      keysOf[i].push(key);
+    }
+  });
+
+  // Leader clustering in row order: the first unassigned row becomes a representative && takes every later
+  // unassigned candidate that is similar enough to it. Members are only ever compared with the representative, so
+  // A~B && B~C does not pull C into A's cluster when A && C are not similar.
+  const repOf: (number | undefined)[] = texts.map(() => undefined);
+  const members = new Map<number, number[]>();
+  for (let i = 0; i < texts.length; i++) {
+    if (repOf[i] !== undefined) continue;
+    const seen = new Set<number>();
+    for (const key of keysOf[i]) {
+      for (const j of buckets.get(key)!) {
+        if (j <= i || repOf[j] !== undefined || seen.has(j)) continue;
+        seen.add(j);
+        if (jaccard(sets[i], sets[j]) >= settings.threshold) repOf[j] = i;
+      }
+    }
+    const rows = [i, ...Array.from(seen).filter(j => repOf[j] === i).sort((a, b) => a - b)];
+    if (rows.length > 1) { repOf[i] = i; members.set(i, rows); }
+  }
+
+  const clusters: DuplicateCluster[] = [];
+  const clusterOf: (DuplicateCluster | undefined)[] = texts.map(() => undefined);
+  for (const [rep, rows] of Array.from(members.entries()).sort((a, b) => a[0] - b[0])) {
+    const cluster: DuplicateCluster = {
+      id: clusters.length + 1,
+      representative: rep,
+      rows,
+      similarity: Object.fromEntries(rows.map(i => [i, i === rep ? 1 : Math.round(jaccard(sets[rep], sets[i]) * 1000) / 1000])),
+    };
+    clusters.push(cluster);
+    for (const i of rows) clusterOf[i] = cluster;
+  }
+  return { clusters, clusterOf };
+}
+
+/** The dup.* columns of a row; {} for rows without near-duplicates. */
+export function duplicateColumns(report: DuplicateReport, idx: number): Record<string, any> {
+  const c = report.clusterOf[idx];
+  if (!c) return {};
+  return {
+    "dup.cluster": c.id,
+    "dup.of": idx === c.representative ? "" : c.representative + 1,
+    "dup.similarity": c.similarity[idx],
+  };
+}
+
+/** Rows that "representative" mode does not send to the model. */
+export function skippedDuplicates(report: DuplicateReport) {
+  return report.clusters.reduce((n, c) => n + c.rows.length - 1, 0);
+}
@@ -0,0 +1,404 @@
+/**
+ * Evaluation core shared by the web app && the CLI (no React, no DOM)
+ * - Prompt rendering per row (rubric, withheld columns, {{submission}})
+ * - Loose JSON parsing of model output && the derived eval.* columns
+ * - evaluateRow: one row through the provider with retries, repair, consensus && long-input map-reduce; with redaction
+ *   on, every prompt is pseudonymized before it leaves && the output gets the original values back; calls found in
+ *   the response cache are answered from it without reaching the provider; every call is appended to the row's history
+ * - runRows: all pending rows through the adaptive scheduler; near-duplicates are tagged, or copied from their
+ *   cluster's representative instead of being evaluated
+ */
+import { ChatRequest, ChatResult, ProviderError, Usage, approxTokens, getProvider, isRetryable } from "./providers";
+import { JsonSchema, buildRepairPrompt, formatSchemaErrors, validateJson } from "./schema";
+import { Rubric, scoreRubric, withRubric } from "./rubric";
+import { ConsensusSample, ConsensusSettings, aggregateSamples } from "./consensus";
+import { LongInputSettings, isOversized, joinNotes, splitIntoChunks } from "./chunking";
+import { BATCH_DISCOUNT, PriceTable, estimateCost } from "./pricing";
+import { AdaptiveScheduler, backoffDelay, waitFor } from "./scheduler";
+import { renderTemplate } from "./template";
+import { DuplicateReport, duplicateColumns, findDuplicates } from "./dedupe";
+import { createRedactor } from "./redaction";
+import { CacheStats, ResponseCache, addCacheStats, cacheEntry, cacheKey } from "./responseCache";
+import { AttemptRecord, RowState, RunConfig } from "./runStore";
+
+function stripCodeFences(s: string) {
+  let t = (s || "").trim();
+  if (t.startsWith("```")) {
+    t = t.replace(/^```[a-zA-Z]*\n?/, "").replace(/```\s*$/, "");
+  }
+  return t.trim();
+}
+
+export function parseJsonLoose(s: string): { ok: true; value: any } | { ok: false; error: string } {
+  if (!s || !String(s).trim()) return { ok: false, error: "empty" } as const;
+  let t = stripCodeFences(String(s));
+  try {
+    return { ok: true, value: JSON.parse(t) } as const;
+  } catch (e1: any) {
+    try {
+      const start = t.indexOf("{");
+      const end = t.lastIndexOf("}");
+      if (start >= 0 && end > start) {
+        const slice = t.slice(start, end + 1);
+        return { ok: true, value: JSON.parse(slice) } as const;
+      }
+      return { ok: false, error: e1?.message || String(e1) } as const;
+    } catch (e2: any) {
+      return { ok: false, error: e2?.message || String(e2) } as const;
+    }
+  }
+}
+
+// Derived columns for one model output; `problem` describes why it is invalid ("" when valid).
+// `structured` is the provider-native parsed output, which skips the loose parser entirely.
+// With a rubric, eval.score is the weighted total and each criterion gets its own eval.<key> column.
+export function deriveEvalColumns(raw: string, resultKey: string, schema: JsonSchema | null, structured?: any, rubric?: Rubric | null) {
+  const cols: Record<string, any> = {};
+  const parsed = structured !== undefined ? { ok: true as const, value: structured } : parseJsonLoose(raw);
+  if (!parsed.ok) {
+    cols["eval.valid"] = false;
+    cols[`${resultKey}_json`] = "";
+    if (schema) cols["eval.errors"] = `/: not valid JSON (${parsed.error})`;
+    return { cols, problem: `not valid JSON (${parsed.error})` };
+  }
+  const val = parsed.value as any;
+  const errors = schema ? validateJson(val, schema) : [];
+  const fieldOk = (f: string) => !errors.some(e => e.path === `/${f}` || e.path.startsWith(`/${f}/`));
+  cols["eval.valid"] = errors.length === 0;
+  cols[`${resultKey}_json`] = JSON.stringify(val);
+  if (schema) cols["eval.errors"] = formatSchemaErrors(errors);
+  if (val && typeof val === 'object') {
+    if (rubric) {
+      const { scores, total } = scoreRubric(rubric, val);
+      for (const c of rubric.criteria) {
+        if (scores[c.key] !== undefined && fieldOk(`criteria/${c.key}`)) cols[`eval.${c.key}`] = scores[c.key];
+      }
+      if (total !== undefined) cols["eval.weighted_total"] = cols["eval.score"] = total;
+    } else if (val.score !== undefined && fieldOk("score")) {
+      cols["eval.score"] = val.score;
+    }
+    if (val.decision !== undefined && fieldOk("decision")) cols["eval.decision"] = val.decision;
+  }
+  return { cols, problem: formatSchemaErrors(errors) };
+}
+
+export class RunCancelled extends Error {}
+
+export function omitColumns(row: Record<string, any>, cols: string[]) {
+  if (!cols.length) return row;
+  return Object.fromEntries(Object.entries(row).filter(([k]) => !cols.includes(k)));
+}
+
+export function addUsage(a: Usage | undefined, b: Usage | undefined): Usage {
+  return {
+    prompt_tokens: Number(a?.prompt_tokens || 0) + Number(b?.prompt_tokens || 0),
+    completion_tokens: Number(a?.completion_tokens || 0) + Number(b?.completion_tokens || 0),
+  };
+}
+
+// Cost of all calls recorded in `states`, priced per model; models without a price are listed in `unpriced`.
+export function estimateStatesCost(states: RowState[], fallbackModel: string, prices: PriceTable) {
+  const pricing = { promptUSD: 0, completionUSD: 0, totalUSD: 0, unpriced: [] as string[] };
+  for (const s of states) {
+    // Rows saved before per-model usage existed only carry the total.
+    const byModel = s.usageByModel || (s.usage && !s.batchUsage ? { [fallbackModel]: s.usage } : {});
+    for (const [m, u] of Object.entries(byModel)) {
+      const p = estimateCost(prices, m, Number(u.prompt_tokens || 0), Number(u.completion_tokens || 0));
+      pricing.promptUSD += p.promptUSD;
+      pricing.completionUSD += p.completionUSD;
+      pricing.totalUSD += p.totalUSD;
+      if (!p.priced && !pricing.unpriced.includes(m)) pricing.unpriced.push(m);
+    }
+    for (const [m, u] of Object.entries(s.batchUsage || {})) {
+      const p = estimateCost(prices, m, Number(u.prompt_tokens || 0), Number(u.completion_tokens || 0));
+      pricing.promptUSD += p.promptUSD * BATCH_DISCOUNT;
+      pricing.completionUSD += p.completionUSD * BATCH_DISCOUNT;
+      pricing.totalUSD += p.totalUSD * BATCH_DISCOUNT;
+      if (!p.priced && !pricing.unpriced.includes(m)) pricing.unpriced.push(m);
+    }
+  }
+  return pricing;
+}
+
+export function promptTemplate(cfg: Pick<RunConfig, "userPrompt" | "rubric">) {
+  return cfg.rubric ? withRubric(cfg.userPrompt, cfg.rubric) : cfg.userPrompt;
+}
+
+// The values a row's prompt is rendered from: gold-label columns withheld, plus `submission`.
+export function promptContext(cfg: Pick<RunConfig, "hiddenColumns" | "textCol">, row: Record<string, any>) {
+  const promptRow = omitColumns(row, cfg.hiddenColumns || []);
+  const submitText = cfg.textCol ? String(promptRow[cfg.textCol] ?? "") : JSON.stringify(promptRow);
+  return { ...promptRow, submission: submitText };
+}
+
+// The user prompt for one row as sent to the model.
+export function renderRowPrompt(cfg: Pick<RunConfig, "userPrompt" | "rubric" | "hiddenColumns" | "textCol">, row: Record<string, any>) {
+  return renderTemplate(promptTemplate(cfg), promptContext(cfg, row));
+}
+
+// Models called per row, one entry per call (consensus samples repeat a model).
+export function callModels(model: string, consensus: ConsensusSettings | null) {
+  if (!consensus) return [model];
+  const models = consensus.models.length ? consensus.models : [model];
+  return models.flatMap(m => Array.from({ length: Math.max(0, consensus.samplesPerModel) }, () => m));
+}
+
+export interface RowEvalContext {
+  apiKey: string;
+  isCancelled: () => boolean;
+  onError: (message: string) => void;
+  scheduler: AdaptiveScheduler;
+  /** Expected completion tokens per call, counted against the tokens-per-minute budget until the real usage is known. */
+  completionTokens: number;
+  /** Response cache; `read: false` bypasses lookups but still stores fresh responses. */
+  cache?: { store: ResponseCache; read: boolean } | null;
+}
+
+/** Name the structured-output schema is sent under. */
+export function responseSchemaName(resultKey: string) {
+  return (resultKey.replace(/[^a-zA-Z0-9_-]/g, "_") || "evaluation").slice(0, 64);
+}
+
+function responseSchemaFor(cfg: RunConfig) {
+  return cfg.responseSchema && getProvider(cfg.providerId).structured
+    ? { name: responseSchemaName(cfg.resultKey), schema: cfg.responseSchema }
+    : undefined;
+}
+
+// Evaluates one row under `cfg`. Returns the row's next state: done, failed, or pending again when cancelled.
+export async function evaluateRow(cfg: RunConfig, row: Record<string, any>, prev: RowState, ctx: RowEvalContext): Promise<RowState> {
+  const runProvider = getProvider(cfg.providerId);
+  const responseSchema = responseSchemaFor(cfg);
+  let userTpl = renderRowPrompt(cfg, row);
+
+  let state: RowState = { ...prev, status: "running" };
+  let attempts = state.attempts;
+  let lastError = "";
+  const usageByModel: Record<string, Usage> = { ...(state.usageByModel || {}) };
+  const redactor = cfg.redaction ? createRedactor(cfg.redaction, row) : null;
+  let cacheStats: CacheStats | undefined = prev.cache;
+  const history: AttemptRecord[] = [...(prev.history || [])];
+
+  // One provider call with retries; throws RunCancelled when paused between attempts.
+  // Auth errors && bad requests fail at once; rate limits && server errors back off before retrying.
+  const callWithRetries = async (plain: ChatRequest, purpose: AttemptRecord["purpose"]) => {
+    const req = redactor ? { ...plain, userPrompt: redactor.redact(plain.userPrompt) } : plain;
+    const record = (startedAt: number, outcome: AttemptRecord["outcome"], extra: Partial<AttemptRecord>) => history.push({
+      purpose, model: req.model, ...(req.sample !== undefined ? { sample: req.sample } : {}), startedAt, ms: Date.now() - startedAt, outcome,
+      systemPrompt: req.systemPrompt || "", userPrompt: req.userPrompt, ...extra,
+    });
+    const restore = (res: ChatResult) => redactor ? { ...res, content: redactor.restore(res.content), structured: redactor.restoreValue(res.structured) } : res;
+    // Keyed on the prompt as sent, so redacted values never reach the cache either.
+    const key = ctx.cache ? await cacheKey(cfg.providerId, cfg.baseUrl, req).catch(() => "") : "";
+    if (key && ctx.cache!.read) {
+      const hit = await ctx.cache!.store.get(key).catch(() => undefined);
+      if (hit) {
+        cacheStats = addCacheStats(cacheStats, true, req.model, hit.usage);
+        record(Date.now(), "cached", { raw: hit.content, usage: { prompt_tokens: 0, completion_tokens: 0 } });
+        return restore({ content: hit.content, ...(hit.structured !== undefined ? { structured: hit.structured } : {}), usage: { prompt_tokens: 0, completion_tokens: 0 } });
+      }
+    }
+    const tokens = approxTokens(`${req.systemPrompt || ""}${req.userPrompt}`) + ctx.completionTokens;
+    for (let failures = 0; ;) {
+      const ticket = await ctx.scheduler.acquire(tokens, ctx.isCancelled);
+      if (!ticket) throw new RunCancelled();
+      attempts++;
+      const startedAt = Date.now();
+      try {
+        const res = await runProvider.chat({ apiKey: ctx.apiKey, baseUrl: cfg.baseUrl, apiVersion: cfg.apiVersion }, req);
+        record(startedAt, "ok", { raw: res.content, usage: res.usage });
+        usageByModel[req.model] = addUsage(usageByModel[req.model], res.usage);
+        ctx.scheduler.settle(ticket, Number(res.usage.prompt_tokens || 0) + Number(res.usage.completion_tokens || 0));
+        ctx.scheduler.observe(res.rateLimit);
+        ctx.scheduler.onSuccess();
+        if (key) {
+          cacheStats = addCacheStats(cacheStats, false, req.model, res.usage);
+          await ctx.cache!.store.put(cacheEntry(key, cfg.providerId, req, res)).catch(() => {});
+        }
+        return restore(res);
+      } catch (e: any) {
+        failures++;
+        lastError = e?.message || String(e);
+        record(startedAt, "error", { error: lastError, ...(e instanceof ProviderError && e.status ? { httpStatus: e.status } : {}) });
+        ctx.onError(lastError);
+        const rateLimit = e instanceof ProviderError ? e.rateLimit : undefined;
+        if (e instanceof ProviderError && e.kind === "rate_limit") ctx.scheduler.onThrottle(rateLimit);
+        else ctx.scheduler.observe(rateLimit);
+        if (!isRetryable(e) || failures > cfg.maxRetries) throw e;
+        if (!await waitFor(backoffDelay(failures, rateLimit?.retryAfterMs), ctx.isCancelled)) throw new RunCancelled();
+      }
+    }
+  };
+
+  // One evaluation: the call plus the optional schema repair round-trip.
+  const evaluateOnce = async (evalModel: string, sample?: number) => {
+    const base = {
+      model: evalModel,
+      systemPrompt: cfg.systemPrompt,
+      temperature: cfg.temperature,
+      ...(responseSchema ? { responseSchema } : {}),
+      ...(sample !== undefined ? { sample } : {}),
+    };
+    // Always store raw output
+    const res = await callWithRetries({ ...base, userPrompt: userTpl }, "evaluate");
+    const raw = res.content ?? "";
+    const first = deriveEvalColumns(raw, cfg.resultKey, cfg.outputSchema, res.structured, cfg.rubric);
+    if (!(first.problem && cfg.outputSchema && cfg.repair)) return { raw, repairRaw: undefined, cols: first.cols };
+    // One repair round-trip; the original output stays in <resultKey>.
+    try {
+      const repaired = await callWithRetries({ ...base, userPrompt: buildRepairPrompt(userTpl, raw, first.problem, cfg.outputSchema) }, "repair");
+      const repairRaw = repaired.content ?? "";
+      const second = deriveEvalColumns(repairRaw, cfg.resultKey, cfg.outputSchema, repaired.structured, cfg.rubric);
+      return { raw, repairRaw, cols: { ...second.cols, [`${cfg.resultKey}_repaired`]: repairRaw, "eval.repaired": true } };
+    } catch (e: any) {
+      if (e instanceof RunCancelled) throw e;
+      return { raw, repairRaw: undefined, cols: { ...first.cols, [`${cfg.resultKey}_repaired`]: `ERROR: ${e?.message || e}`, "eval.repaired": false } };
+    }
+  };
+
+  // Map step for an oversized row: notes per chunk (reusing those of an interrupted attempt), then the
+  // evaluation prompt with the reduced notes as {{submission}}.
+  const mapReduce = async (long: LongInputSettings) => {
+    const context = promptContext(cfg, row);
+    const text = String(context.submission);
+    const chunks = splitIntoChunks(text, long.chunkTokens, long.overlapTokens).map(c => {
+      const done = prev.chunks?.find(p => p.start === c.start && p.end === c.end && p.output !== undefined);
+      return done ? { ...c, output: done.output } : c;
+    });
+    for (const c of chunks) {
+      if (c.output !== undefined) continue;
+      const res = await callWithRetries({
+        model: cfg.model,
+        systemPrompt: cfg.systemPrompt,
+        temperature: cfg.temperature,
+        userPrompt: renderTemplate(long.mapPrompt, { ...context, chunk: text.slice(c.start, c.end), chunk_index: c.index + 1, chunk_count: chunks.length }),
+      }, "map");
+      c.output = res.content ?? "";
+      state = { ...state, chunks: chunks.map(x => ({ ...x })) };
+    }
+    const submission = renderTemplate(long.reducePrompt, { ...context, notes: joinNotes(chunks), chunk_count: chunks.length });
+    return { prompt: renderTemplate(promptTemplate(cfg), { ...context, submission }), chunks };
+  };
+
+  try {
+    let longCols: Record<string, any> = {};
+    if (cfg.longInput) {
+      const long = isOversized(userTpl, cfg.longInput) ? await mapReduce(cfg.longInput) : null;
+      if (long) userTpl = long.prompt;
+      longCols = long ? {
+        "longinput.chunked": true,
+        "longinput.chunks": long.chunks.length,
+        "longinput.notes": long.chunks.map(c => ({ part: c.index + 1, start: c.start, end: c.end, notes: c.output })),
+      } : { "longinput.chunked": false };
+    }
+    if (!cfg.consensus) {
+      const r = await evaluateOnce(cfg.model);
+      state = { ...state, status: "done", raw: r.raw, repairRaw: r.repairRaw, error: undefined, result: { ...row, [cfg.resultKey]: r.raw, ...r.cols, ...longCols } };
+    } else {
+      const models = cfg.consensus.models.length ? cfg.consensus.models : [cfg.model];
+      const evaluated: { sample: ConsensusSample; cols: Record<string, any> }[] = [];
+      for (const m of models) {
+        for (let k = 0; k < cfg.consensus.samplesPerModel; k++) {
+          const r = await evaluateOnce(m, k);
+          const evals = Object.fromEntries(Object.entries(r.cols).filter(([key]) => key.startsWith("eval.")));
+          evaluated.push({ sample: { model: m, sample: k, valid: r.cols["eval.valid"] === true, raw: r.raw, evals }, cols: r.cols });
+        }
+      }
+      const samples = evaluated.map(e => e.sample);
+      const shown = evaluated.find(e => e.sample.valid) ?? evaluated[0];
+      state = {
+        ...state, status: "done", raw: shown.sample.raw, error: undefined, samples,
+        result: {
+          ...row,
+          [cfg.resultKey]: shown.sample.raw,
+          [`${cfg.resultKey}_json`]: shown.cols[`${cfg.resultKey}_json`] ?? "",
+          ...aggregateSamples(samples, cfg.consensus),
+          "consensus.samples": samples,
+          ...longCols,
+        },
+      };
+    }
+  } catch (e: any) {
+    if (!(e instanceof RunCancelled)) {
+      const msg = lastError || e?.message || String(e);
+      state = { ...state, status: "failed", error: msg, result: { ...row, [cfg.resultKey]: `ERROR: ${msg}`, "eval.valid": false } };
+    }
+  }
+  state = { ...state, attempts, usageByModel, usage: [...Object.values(usageByModel), ...Object.values(prev.batchUsage || {})].reduce(addUsage, undefined), history };
+  if (redactor) state = { ...state, redactions: redactor.counts() };
+  if (cacheStats) state = { ...state, cache: cacheStats };
+  // Paused between attempts: the row goes back to the queue for Resume.
+  if (state.status === "running") state = { ...state, status: "pending" };
+  return state;
+}
+
+/** Near-duplicate clusters over the rows' submission text; null when the run does not look for duplicates. */
+export function duplicateReport(cfg: Pick<RunConfig, "dedupe" | "hiddenColumns" | "textCol">, rows: Record<string, any>[]): DuplicateReport | null {
+  if (!cfg.dedupe) return null;
+  return findDuplicates(rows.map(r => String(promptContext(cfg, r).submission)), cfg.dedupe);
+}
+
+// A duplicate's state taken from its representative: the representative's output columns on the duplicate's own row,
+// without usage (nothing was paid for it).
+function copiedState(rep: RowState, repRow: Record<string, any>, row: Record<string, any>, dupCols: Record<string, any>): RowState {
+  const outputs = Object.fromEntries(Object.entries(rep.result || {}).filter(([k]) => !(k in repRow)));
+  return {
+    status: rep.status,
+    attempts: 0,
+    raw: rep.raw,
+    error: rep.error,
+    result: { ...row, ...outputs, ...dupCols, "dup.copied": true },
+  };
+}
+
+export interface RunRowsOptions extends Omit<RowEvalContext, "onError"> {
+  cfg: RunConfig;
+  rows: Record<string, any>[];
+  /** Current state per row; rows that are not pending/running are skipped. */
+  states: RowState[];
+  /** Evaluate only these rows (a re-run of single rows); other pending rows stay pending. */
+  only?: number[];
+  onStart?: (idx: number) => void;
+  onRow: (idx: number, state: RowState) => void;
+  onError?: (idx: number, message: string) => void;
+}
+
+// Evaluates every unfinished row, `scheduler` deciding how many run at once. Resolves when all are
+// done or, after a cancel, when the rows in flight have returned.
+export async function runRows(opts: RunRowsOptions) {
+  const { cfg, rows, states, scheduler } = opts;
+  const dups = duplicateReport(cfg, rows);
+  const copyOnly = cfg.dedupe?.mode === "representative";
+  const unfinished = (i: number) => states[i].status === "pending" || states[i].status === "running";
+  // Fills the unfinished duplicates of a finished representative; a state without its result has nothing to copy.
+  const copyToDuplicates = (repIdx: number, rep: RowState) => {
+    const cluster = dups?.clusterOf[repIdx];
+    if (!copyOnly || !cluster || rep.status === "pending" || !rep.result) return;
+    for (const i of cluster.rows) {
+      if (i !== repIdx && unfinished(i)) opts.onRow(i, copiedState(rep, rows[repIdx], rows[i], duplicateColumns(dups!, i)));
+    }
+  };
+
+  // Representatives finished in an earlier session (interrupted before their copies were written).
+  if (copyOnly && dups) for (const c of dups.clusters) if (!unfinished(c.representative)) copyToDuplicates(c.representative, states[c.representative]);
+
+  const only = opts.only && new Set(opts.only);
+  const todo = states.map((_, i) => i)
+    .filter(i => unfinished(i) && (!only || only.has(i)) && !(copyOnly && dups?.clusterOf[i] && dups.clusterOf[i]!.representative !== i));
+  await Promise.all(todo.map(idx => scheduler.run(async () => {
+    if (opts.isCancelled()) return;
+    opts.onStart?.(idx);
+    let state = await evaluateRow(cfg, rows[idx], states[idx], {
+      apiKey: opts.apiKey,
+      isCancelled: opts.isCancelled,
+      onError: (msg) => opts.onError?.(idx, msg),
+      scheduler,
+      completionTokens: opts.completionTokens,
+      cache: opts.cache,
+    });
+    const dupCols = dups ? duplicateColumns(dups, idx) : {};
+    if (state.result && Object.keys(dupCols).length) state = { ...state, result: { ...state.result, ...dupCols } };
+    opts.onRow(idx, state);
+    copyToDuplicates(idx, state);
+  })));
+}
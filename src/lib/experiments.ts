@@ -0,0 +1,137 @@
+/**
+ * Prompt A/B experiments
+ * - Variants override the system/user prompt and optionally model && temperature
+ * - All variants run over the same rows (all, or a seeded random sample)
+ * - Comparison per variant: validity rate, score distribution, Go rate, decision flips && mean
+ *   score shift vs. the first (baseline) variant, and cost
+ */
+import { mean, median, stdDev } from "./consensus";
+
+export interface PromptVariant {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Empty = the model selected in the "Model & API Key" card. */
+  model: string;
+  /** null = the run temperature. */
+  temperature: number | null;
+}
+
+export interface ExperimentSettings {
+  variants: PromptVariant[];
+  /** Rows per variant; 0 = all rows. */
+  sampleSize: number;
+  seed: number;
+}
+
+export const DEFAULT_EXPERIMENT: ExperimentSettings = { variants: [], sampleSize: 0, seed: 1 };
+
+export function newVariantId() {
+  return `v-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+}
+
+/** mulberry32: small seeded PRNG so a sample can be reproduced. */
+function prng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Sorted row indices: all rows, or `size` of them drawn with `seed`. */
+export function sampleIndices(total: number, size: number, seed: number) {
+  const all = Array.from({ length: total }, (_, i) => i);
+  if (!size || size >= total) return all;
+  const rand = prng(seed);
+  for (let i = all.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [all[i], all[j]] = [all[j], all[i]];
+  }
+  return all.slice(0, size).sort((a, b) => a - b);
+}
+
+export interface VariantStats {
+  id: string;
+  name: string;
+  n: number;
+  validRate: number;
+  meanScore?: number;
+  medianScore?: number;
+  sdScore?: number;
+  /** Count per rounded score. */
+  histogram: Record<string, number>;
+  goRate?: number;
+  /** Rows whose decision differs from the baseline variant. */
+  flips?: number;
+  /** Mean of (score - baseline score) over rows scored by both. */
+  meanShift?: number;
+  costUSD: number;
+}
+
+type ResultRow = Record<string, any> | undefined;
+
+function num(v: any) {
+  const n = typeof v === "number" ? v : Number(v);
+  return v === "" || v === null || v === undefined || !Number.isFinite(n) ? undefined : n;
+}
+
+export function compareVariants(variants: PromptVariant[], results: Record<string, ResultRow[]>, costs: Record<string, number>): VariantStats[] {
+  const base = variants[0] ? results[variants[0].id] || [] : [];
+  return variants.map((v, vi) => {
+    const rs = results[v.id] || [];
+    const done = rs.filter(Boolean) as Record<string, any>[];
+    const scores = done.map(r => num(r["eval.score"])).filter((x): x is number => x !== undefined);
+    const decisions = done.map(r => r["eval.decision"]).filter(d => d !== undefined && d !== null && d !== "");
+    const histogram: Record<string, number> = {};
+    for (const s of scores) histogram[String(Math.round(s))] = (histogram[String(Math.round(s))] || 0) + 1;
+
+    const stats: VariantStats = {
+      id: v.id,
+      name: v.name,
+      n: done.length,
+      validRate: done.length ? done.filter(r => r["eval.valid"] === true).length / done.length : 0,
+      histogram,
+      costUSD: costs[v.id] || 0,
+    };
+    if (scores.length) {
+      stats.meanScore = mean(scores);
+      stats.medianScore = median(scores);
+      stats.sdScore = stdDev(scores);
+    }
+    if (decisions.length) stats.goRate = decisions.filter(d => String(d) === "Go").length / decisions.length;
+    if (vi > 0) {
+      let flips = 0;
+      const shifts: number[] = [];
+      rs.forEach((r, i) => {
+        const b = base[i];
+        if (!r || !b) return;
+        if (r["eval.decision"] != null && b["eval.decision"] != null && String(r["eval.decision"]) !== String(b["eval.decision"])) flips++;
+        const x = num(r["eval.score"]);
+        const y = num(b["eval.score"]);
+        if (x !== undefined && y !== undefined) shifts.push(x - y);
+      });
+      stats.flips = flips;
+      if (shifts.length) stats.meanShift = mean(shifts);
+    }
+    return stats;
+  });
+}
+
+/** One row per sampled input row, with `<variant>.score/decision/valid` columns side by side. */
+export function experimentExportRows(indices: number[], sourceRows: Record<string, any>[], variants: PromptVariant[], results: Record<string, ResultRow[]>) {
+  return indices.map((rowIdx, i) => {
+    const out: Record<string, any> = { row: rowIdx + 1, ...sourceRows[rowIdx] };
+    for (const v of variants) {
+      const r = results[v.id]?.[i];
+      out[`${v.name}.valid`] = r ? r["eval.valid"] : "";
+      out[`${v.name}.score`] = r?.["eval.score"] ?? "";
+      out[`${v.name}.decision`] = r?.["eval.decision"] ?? "";
+    }
+    return out;
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Results explorer queries
+ * - Column filters: = / != (case-insensitive, on the cell text), contains, >= / <= (numeric), empty / not empty
+ * - Full-text search over the shown columns; every word must occur somewhere in the row
+ * - Sorting: numbers numerically, text with localeCompare, empty cells last in both directions
+ * - Queries return row indices, so row numbers && exports of the filtered subset refer to the full table
+ * - Summary of a set of rows: score histogram, decisions, validity rate && the most frequent errors
+ */
+import { toCell } from "./exporters";
+
+export type FilterOp = "=" | "!=" | "contains" | ">=" | "<=" | "empty" | "not empty";
+
+export const FILTER_OPS: FilterOp[] = ["=", "!=", "contains", ">=", "<=", "empty", "not empty"];
+
+export interface ColumnFilter {
+  column: string;
+  op: FilterOp;
+  value: string;
+}
+
+export interface ExplorerQuery {
+  search: string;
+  filters: ColumnFilter[];
+  sort: { column: string; dir: "asc" | "desc" } | null;
+}
+
+export const EMPTY_QUERY: ExplorerQuery = { search: "", filters: [], sort: null };
+
+function num(v: any) {
+  if (v === "" || v === null || v === undefined || typeof v === "boolean") return undefined;
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function text(v: any) {
+  return toCell(v).toLowerCase();
+}
+
+export function matchesFilter(row: Record<string, any>, f: ColumnFilter) {
+  const v = row?.[f.column];
+  const s = text(v);
+  const want = f.value.trim().toLowerCase();
+  switch (f.op) {
+    case "=": return s === want;
+    case "!=": return s !== want;
+    case "contains": return s.includes(want);
+    case ">=": case "<=": {
+      const x = num(v);
+      const y = num(f.value.trim());
+      if (x === undefined || y === undefined) return false;
+      return f.op === ">=" ? x >= y : x <= y;
+    }
+    case "empty": return s.trim() === "";
+    case "not empty": return s.trim() !== "";
+  }
+}
+
+/** Filters without a value (other than empty / not empty) are not applied yet. */
+export function activeFilters(filters: ColumnFilter[]) {
+  return filters.filter(f => f.column && (f.op === "empty" || f.op === "not empty" || f.value.trim() !== ""));
+}
+
+function compareCells(a: any, b: any) {
+  const x = num(a);
+  const y = num(b);
+  if (x !== undefined && y !== undefined) return x - y;
+  return toCell(a).localeCompare(toCell(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/** Indices of the rows matching `query`, in display order. */
+export function queryRows(rows: Record<string, any>[], columns: string[], query: ExplorerQuery) {
+  const filters = activeFilters(query.filters);
+  const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const idx: number[] = [];
+  rows.forEach((r, i) => {
+    if (!filters.every(f => matchesFilter(r, f))) return;
+    if (words.length) {
+      const hay = columns.map(c => text(r?.[c])).join("\n");
+      if (!words.every(w => hay.includes(w))) return;
+    }
+    idx.push(i);
+  });
+  const sort = query.sort;
+  if (sort) {
+    const blank = (v: any) => toCell(v).trim() === "";
+    const sign = sort.dir === "asc" ? 1 : -1;
+    idx.sort((i, j) => {
+      const a = rows[i]?.[sort.column];
+      const b = rows[j]?.[sort.column];
+      if (blank(a) || blank(b)) return blank(a) === blank(b) ? i - j : blank(a) ? 1 : -1;
+      return sign * compareCells(a, b) || i - j;
+    });
+  }
+  return idx;
+}
+
+export function describeQuery(query: ExplorerQuery) {
+  const parts = activeFilters(query.filters).map(f => f.op === "empty" || f.op === "not empty" ? `${f.column} ${f.op}` : `${f.column} ${f.op} ${f.value.trim()}`);
+  if (query.search.trim()) parts.push(`search "${query.search.trim()}"`);
+  return parts.join(", ");
+}
+
+export interface ResultsSummary {
+  rows: number;
+  /** Rows with an eval.valid value, && how many of them are valid. */
+  checked: number;
+  valid: number;
+  /** Count per rounded eval.score. */
+  histogram: Record<string, number>;
+  meanScore?: number;
+  decisions: Record<string, number>;
+  /** Rows whose call failed (the result column holds "ERROR: ..."). */
+  failed: number;
+  /** Rows with schema violations in eval.errors. */
+  schemaErrors: number;
+  /** Most frequent failure messages, most frequent first. */
+  errors: { message: string; count: number }[];
+}
+
+export function summarizeResults(rows: Record<string, any>[], resultKey: string, indices?: number[]): ResultsSummary {
+  const out: ResultsSummary = { rows: 0, checked: 0, valid: 0, histogram: {}, decisions: {}, failed: 0, schemaErrors: 0, errors: [] };
+  const errors = new Map<string, number>();
+  let sum = 0;
+  let scored = 0;
+  for (const i of indices ?? rows.keys()) {
+    const r = rows[i] || {};
+    out.rows++;
+    if (r["eval.valid"] !== undefined && r["eval.valid"] !== "") {
+      out.checked++;
+      if (r["eval.valid"] === true || r["eval.valid"] === "true") out.valid++;
+    }
+    const score = num(r["eval.score"]);
+    if (score !== undefined) {
+      const k = String(Math.round(score));
+      out.histogram[k] = (out.histogram[k] || 0) + 1;
+      sum += score;
+      scored++;
+    }
+    const d = r["eval.decision"];
+    if (d !== undefined && d !== null && d !== "") out.decisions[String(d)] = (out.decisions[String(d)] || 0) + 1;
+    const res = r[resultKey];
+    if (typeof res === "string" && res.startsWith("ERROR:")) {
+      out.failed++;
+      const msg = res.slice(6).trim().slice(0, 160) || "(no message)";
+      errors.set(msg, (errors.get(msg) || 0) + 1);
+    }
+    if (r["eval.errors"]) out.schemaErrors++;
+  }
+  if (scored) out.meanScore = sum / scored;
+  out.errors = Array.from(errors, ([message, count]) => ({ message, count })).sort((a, b) => b.count - a.count).slice(0, 5);
+  return out;
+}
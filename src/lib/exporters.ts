@@ -0,0 +1,253 @@
+/**
+ * Result exports
+ * - Flattening: the parsed model output (<resultKey>_json) becomes real columns, <resultKey>.<field>; lists become
+ *   numbered columns (<resultKey>.strengths_1..n) or one joined text cell, nested objects become dotted names
+ * - XLSX: sheets "Results", "Errors" && "Run" (model, prompts, cost, timestamp)
+ * - HTML report: one printable page per submission with score, decision, summary, strengths && risks
+ */
+import * as XLSX from "xlsx";
+import { RowState, RunConfig } from "./runStore";
+import { formatCounts, redactionLabel } from "./redaction";
+
+export type FlattenMode = "none" | "columns" | "joined";
+
+export interface ExportSettings {
+  /** How the parsed output is spread over columns in CSV && XLSX. */
+  flatten: FlattenMode;
+  /** Separator for lists in "joined" mode. */
+  joiner: string;
+  /** Column used as the page title in the report; "" = row number. */
+  titleCol: string;
+}
+
+export const DEFAULT_EXPORT: ExportSettings = { flatten: "columns", joiner: "; ", titleCol: "" };
+
+export type Cell = string | number | boolean;
+
+export function toCell(v: any): string {
+  try {
+    if (v === null || v === undefined) return "";
+    if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") return String(v);
+    return JSON.stringify(v);
+  } catch {
+    return String(v);
+  }
+}
+
+function isScalar(v: any) {
+  return v === null || v === undefined || typeof v !== "object";
+}
+
+function flattenInto(out: Record<string, Cell>, name: string, v: any, mode: FlattenMode, joiner: string) {
+  if (v === null || v === undefined) { out[name] = ""; return; }
+  if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") { out[name] = v; return; }
+  if (Array.isArray(v)) {
+    if (mode === "joined") { out[name] = v.map(x => isScalar(x) ? toCell(x) : JSON.stringify(x)).join(joiner); return; }
+    v.forEach((x, i) => flattenInto(out, `${name}_${i + 1}`, x, mode, joiner));
+    return;
+  }
+  for (const [k, x] of Object.entries(v)) flattenInto(out, `${name}.${k}`, x, mode, joiner);
+}
+
+/** The parsed output of a row as flat columns; {} when the row has no valid JSON output. */
+export function flattenOutput(row: Record<string, any>, resultKey: string, settings: Pick<ExportSettings, "flatten" | "joiner">) {
+  const out: Record<string, Cell> = {};
+  if (settings.flatten === "none") return out;
+  const json = row?.[`${resultKey}_json`];
+  if (!json) return out;
+  let value: any;
+  try { value = typeof json === "string" ? JSON.parse(json) : json; } catch { return out; }
+  if (isScalar(value) || Array.isArray(value)) return out;
+  for (const [k, v] of Object.entries(value)) flattenInto(out, `${resultKey}.${k}`, v, settings.flatten, settings.joiner);
+  return out;
+}
+
+export interface ExportTable {
+  columns: string[];
+  rows: Record<string, Cell>[];
+}
+
+// Columns: `leading` first, then every other key in order of appearance, so columns missing from the first
+// row (errors, rubric) are kept && flattened columns follow the row's own.
+export function exportTable(rows: Record<string, any>[], leading: string[], resultKey: string, settings: Pick<ExportSettings, "flatten" | "joiner">): ExportTable {
+  const columns = new Set(leading);
+  const out = rows.map(r => {
+    const flat: Record<string, Cell> = {};
+    for (const [k, v] of Object.entries(r || {})) flat[k] = toCell(v);
+    Object.assign(flat, flattenOutput(r, resultKey, settings));
+    Object.keys(flat).forEach(k => columns.add(k));
+    return flat;
+  });
+  return { columns: Array.from(columns), rows: out };
+}
+
+export interface RunSummary {
+  exportedAt: Date;
+  rows: number;
+  done: number;
+  failed: number;
+  promptUSD: number;
+  completionUSD: number;
+  totalUSD: number;
+  unpriced: string[];
+  /** Redacted values per kind over all rows, when the run redacted its prompts. */
+  redactions?: Record<string, number>;
+  /** Response cache counters, when the run used the cache. */
+  cache?: { hits: number; misses: number; savedUSD: number; savedTokens: number };
+}
+
+/** Key/value pairs describing the run, for the "Run" sheet. */
+export function runMetadata(cfg: RunConfig | null, summary: RunSummary): [string, Cell][] {
+  const meta: [string, Cell][] = [["Exported at", summary.exportedAt.toISOString()]];
+  if (cfg) {
+    meta.push(
+      ["Provider", cfg.providerId],
+      ["Model", cfg.model],
+      ["Temperature", cfg.temperature],
+      ["Max retries", cfg.maxRetries],
+      ["Submission column", cfg.textCol || "(whole row as JSON)"],
+      ["Result column", cfg.resultKey],
+      ["System prompt", cfg.systemPrompt],
+      ["User prompt", cfg.userPrompt],
+      ["Output schema", cfg.outputSchema ? JSON.stringify(cfg.outputSchema) : "(not validated)"],
+      ["Structured output", cfg.responseSchema ? "yes" : "no"],
+      ["Rubric", cfg.rubric ? `${cfg.rubric.name} (${cfg.rubric.criteria.map(c => `${c.key} ×${c.weight}`).join(", ")})` : "(none)"],
+      ["Consensus", cfg.consensus ? `${cfg.consensus.samplesPerModel} sample(s) × ${(cfg.consensus.models.length ? cfg.consensus.models : [cfg.model]).join(", ")}, ${cfg.consensus.aggregate}` : "(off)"],
+      ["Long-input mode", cfg.longInput ? `chunks of ~${cfg.longInput.chunkTokens} tokens above ~${cfg.longInput.maxInputTokens}` : "(off)"],
+      ["Redaction", cfg.redaction ? redactionLabel(cfg.redaction) : "(off)"],
+    );
+  }
+  meta.push(
+    ["Rows", summary.rows],
+    ["Done", summary.done],
+    ["Failed", summary.failed],
+    ["Cost prompt (USD)", Number(summary.promptUSD.toFixed(6))],
+    ["Cost completion (USD)", Number(summary.completionUSD.toFixed(6))],
+    ["Cost total (USD)", Number(summary.totalUSD.toFixed(6))],
+  );
+  if (summary.unpriced.length) meta.push(["Models without a price", summary.unpriced.join(", ")]);
+  if (summary.redactions) meta.push(["Redacted values", formatCounts(summary.redactions)]);
+  if (summary.cache) {
+    meta.push(
+      ["Cache hits", summary.cache.hits],
+      ["Cache misses", summary.cache.misses],
+      ["Saved by the cache (USD)", Number(summary.cache.savedUSD.toFixed(6))],
+    );
+  }
+  return meta;
+}
+
+/** One line per failed row (or row with a logged error): row number, status, attempts && the last error. */
+export function errorRows(states: RowState[], errorLog: Record<number, string>) {
+  const idx = new Set([...states.map((s, i) => s.status === "failed" || s.error ? i : -1).filter(i => i >= 0), ...Object.keys(errorLog).map(Number)]);
+  return Array.from(idx).sort((a, b) => a - b).map(i => ({
+    row: i + 1,
+    status: states[i]?.status ?? "",
+    attempts: states[i]?.attempts ?? 0,
+    error: states[i]?.error || errorLog[i] || "",
+  }));
+}
+
+// Excel rejects cells above 32767 characters.
+function clip(v: Cell) {
+  return typeof v === "string" && v.length > 32000 ? `${v.slice(0, 32000)}… (truncated)` : v;
+}
+
+/** `extra` sheets (e.g. the review audit trail) come after the run metadata. */
+export function resultsWorkbook(table: ExportTable, errors: ReturnType<typeof errorRows>, meta: [string, Cell][], extra: { name: string; rows: Record<string, Cell>[] }[] = []) {
+  const wb = XLSX.utils.book_new();
+  const results = XLSX.utils.aoa_to_sheet([table.columns, ...table.rows.map(r => table.columns.map(c => clip(r[c] ?? "")))]);
+  XLSX.utils.book_append_sheet(wb, results, "Results");
+  const errSheet = XLSX.utils.aoa_to_sheet([["Row", "Status", "Attempts", "Error"], ...errors.map(e => [e.row, e.status, e.attempts, clip(e.error)])]);
+  XLSX.utils.book_append_sheet(wb, errSheet, "Errors");
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([["Setting", "Value"], ...meta.map(([k, v]) => [k, clip(v)])]), "Run");
+  for (const sheet of extra) {
+    const cols = Object.keys(sheet.rows[0] || {});
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([cols, ...sheet.rows.map(r => cols.map(c => clip(r[c] ?? "")))]), sheet.name);
+  }
+  return wb;
+}
+
+export function workbookBytes(wb: XLSX.WorkBook): ArrayBuffer {
+  return XLSX.write(wb, { bookType: "xlsx", type: "array" });
+}
+
+function escapeHtml(v: any) {
+  return toCell(v).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function parsedOutput(row: Record<string, any>, resultKey: string) {
+  try {
+    const v = JSON.parse(row?.[`${resultKey}_json`] || "null");
+    return v && typeof v === "object" && !Array.isArray(v) ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+function listHtml(v: any) {
+  const items = Array.isArray(v) ? v : v === undefined || v === null || v === "" ? [] : [v];
+  return items.length ? `<ul>${items.map(x => `<li>${escapeHtml(x)}</li>`).join("")}</ul>` : `<p class="muted">None listed.</p>`;
+}
+
+export interface ReportOptions {
+  title: string;
+  resultKey: string;
+  /** Column shown as the page heading; "" = "Submission <n>". */
+  titleCol: string;
+  /** Column whose text is quoted (shortened) under the evaluation; "" = none. */
+  textCol: string;
+  rubric: RunConfig["rubric"];
+  generatedAt: Date;
+}
+
+/** A standalone HTML document, one page per row, laid out for printing (one submission per sheet of paper). */
+export function reportHtml(rows: Record<string, any>[], opts: ReportOptions) {
+  const pages = rows.map((row, i) => {
+    const out = parsedOutput(row, opts.resultKey) || {};
+    const heading = opts.titleCol && toCell(row[opts.titleCol]).trim() ? toCell(row[opts.titleCol]) : `Submission ${i + 1}`;
+    const score = row["eval.score"] ?? out.score;
+    const decision = row["eval.decision"] ?? out.decision;
+    const failed = typeof row[opts.resultKey] === "string" && row[opts.resultKey].startsWith("ERROR:");
+    const criteria = opts.rubric ? opts.rubric.criteria.map(c => {
+      const v = row[`eval.${c.key}`];
+      const why = out.criteria?.[c.key]?.justification;
+      return `<tr><td>${escapeHtml(c.name)}</td><td class="num">${v === undefined ? "–" : escapeHtml(v)} / ${escapeHtml(c.max)}</td><td>${why ? escapeHtml(why) : ""}</td></tr>`;
+    }).join("") : "";
+    const text = opts.textCol ? toCell(row[opts.textCol]) : "";
+    return `<section class="page">
+  <header><h2>${escapeHtml(heading)}</h2><span class="muted">Row ${i + 1}</span></header>
+  ${failed ? `<p class="error">${escapeHtml(row[opts.resultKey])}</p>` : `<div class="facts">
+    <div><span class="label">Score</span><b>${score === undefined ? "–" : escapeHtml(score)}</b></div>
+    <div><span class="label">Decision</span><b>${decision === undefined ? "–" : escapeHtml(decision)}</b></div>
+    ${row["consensus.review"] === true ? `<div class="flag">Flagged for review (samples disagree)</div>` : ""}
+  </div>
+  ${criteria ? `<table><thead><tr><th>Criterion</th><th>Score</th><th>Justification</th></tr></thead><tbody>${criteria}</tbody></table>` : ""}
+  <h3>Summary</h3><p>${out.summary ? escapeHtml(out.summary) : `<span class="muted">No summary.</span>`}</p>
+  <div class="cols"><div><h3>Strengths</h3>${listHtml(out.strengths)}</div><div><h3>Risks</h3>${listHtml(out.risks)}</div></div>`}
+  ${text ? `<h3>Submission (excerpt)</h3><blockquote>${escapeHtml(text.length > 1500 ? `${text.slice(0, 1500)}…` : text)}</blockquote>` : ""}
+</section>`;
+  });
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(opts.title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 0; background: #f1f5f9; }
+  .cover, .page { background: white; max-width: 780px; margin: 24px auto; padding: 32px 40px; box-sizing: border-box; }
+  .page { page-break-after: always; break-after: page; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #0f172a; margin-bottom: 16px; }
+  h2 { margin: 0 0 6px; font-size: 20px; } h3 { font-size: 14px; margin: 18px 0 6px; text-transform: uppercase; color: #334155; }
+  .facts { display: flex; gap: 32px; align-items: center; } .facts b { font-size: 22px; display: block; }
+  .label { font-size: 11px; color: #64748b; text-transform: uppercase; }
+  .flag { color: #b45309; font-size: 13px; } .error { color: #b91c1c; } .muted { color: #64748b; font-size: 12px; }
+  .cols { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; } ul { margin: 0; padding-left: 18px; }
+  table { border-collapse: collapse; width: 100%; margin-top: 16px; font-size: 13px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 4px 6px; text-align: left; vertical-align: top; } .num { white-space: nowrap; }
+  blockquote { margin: 0; padding: 8px 12px; border-left: 3px solid #cbd5e1; color: #334155; font-size: 12px; white-space: pre-wrap; }
+  @media print { body { background: white; } .cover, .page { margin: 0; max-width: none; padding: 0; } }
+</style></head>
+<body>
+<div class="cover page"><h2>${escapeHtml(opts.title)}</h2><p class="muted">${rows.length} submission(s) · generated ${escapeHtml(opts.generatedAt.toLocaleString())}</p></div>
+${pages.join("\n")}
+</body></html>
+`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Minimal promise wrapper over IndexedDB.
+ * All persistent stores of the app are declared here so the schema upgrades in one place.
+ */
+
+const DB_NAME = "llm-batch-evaluator";
+const DB_VERSION = 3;
+
+type StoreSpec = { name: string; keyPath: string | string[]; indexes?: { name: string; keyPath: string | string[] }[] };
+
+const STORES: StoreSpec[] = [
+  { name: "runs", keyPath: "id" },
+  { name: "rowStates", keyPath: ["runId", "idx"], indexes: [{ name: "runId", keyPath: "runId" }] },
+  // Added in version 2: the response cache, keyed by the content hash.
+  { name: "responses", keyPath: "key" },
+  // Added in version 3: human reviews, keyed by the source row hash.
+  { name: "reviews", keyPath: "rowKey" },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") { reject(new Error("IndexedDB is not available")); return; }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const spec of STORES) {
+        if (db.objectStoreNames.contains(spec.name)) continue;
+        const store = db.createObjectStore(spec.name, { keyPath: spec.keyPath });
+        for (const ix of spec.indexes || []) store.createIndex(ix.name, ix.keyPath);
+      }
+    };
+    // Another tab holds an older version open && did not close it; a connection that opens later is not kept.
+    let blocked = false;
+    req.onblocked = () => {
+      blocked = true;
+      reject(new Error("The browser storage is being upgraded but another tab of this app still uses it; close the other tabs and reload."));
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      if (blocked) { db.close(); return; }
+      // A newer version opened in another tab: let it upgrade, the next call here reopens.
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function withStore<T>(name: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const req = fn(tx.objectStore(name));
+  const [result] = await Promise.all([req ? promisify(req) : Promise.resolve(undefined), txDone(tx)]);
+  return result as T | undefined;
+}
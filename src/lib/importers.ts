@@ -0,0 +1,185 @@
+/**
+ * Dataset import
+ * - CSV / TSV (Papa.parse), JSON array, JSONL, XLSX / XLS / ODS (SheetJS, one sheet at a time)
+ * - Text files are decoded after sniffing the encoding: BOM, UTF-16 without BOM, strict UTF-8, else Windows-1252
+ * - Several files can be joined on a key column into one table: the first file is the base (left join),
+ *   colliding column names get the file name as prefix, && several matching rows are concatenated
+ */
+import Papa from "papaparse";
+import * as XLSX from "xlsx";
+
+export type SourceFormat = "csv" | "tsv" | "json" | "jsonl" | "xlsx";
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface Table {
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+export interface DataSource extends Table {
+  id: string;
+  name: string;
+  format: SourceFormat;
+  encoding?: TextEncoding;
+  /** Sheet names of a workbook; empty for text formats. */
+  sheets: string[];
+  sheet: string;
+  workbook?: XLSX.WorkBook;
+  /** Join key column; only used when several sources are loaded. */
+  key: string;
+}
+
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+  // UTF-16 without BOM: mostly-ASCII text has a zero in every other byte.
+  const n = Math.min(bytes.length, 2000);
+  let evenZeros = 0, oddZeros = 0;
+  for (let i = 0; i < n; i++) if (bytes[i] === 0) { if (i % 2) oddZeros++; else evenZeros++; }
+  if (n >= 4 && oddZeros > n * 0.3 && evenZeros < n * 0.05) return "utf-16le";
+  if (n >= 4 && evenZeros > n * 0.3 && oddZeros < n * 0.05) return "utf-16be";
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+export function decodeText(bytes: Uint8Array): { text: string; encoding: TextEncoding } {
+  const encoding = detectEncoding(bytes);
+  // TextDecoder drops the BOM itself.
+  return { text: new TextDecoder(encoding).decode(bytes), encoding };
+}
+
+// Nested values become JSON so they stay readable in prompts && exports.
+function flatValue(v: any) {
+  return v !== null && typeof v === "object" ? JSON.stringify(v) : v;
+}
+
+function tableFromObjects(objects: any[]): Table {
+  const rows = objects.filter(o => o && typeof o === "object" && !Array.isArray(o))
+    .map(o => Object.fromEntries(Object.entries(o).map(([k, v]) => [k, flatValue(v)])));
+  const columns = Array.from(new Set(rows.flatMap(r => Object.keys(r))));
+  return { columns, rows };
+}
+
+export function parseDelimited(text: string, delimiter?: string): Table {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: true, ...(delimiter ? { delimiter } : {}) });
+  if (res.errors.length && !res.data.length) throw new Error(res.errors[0].message);
+  const rows = (res.data as any[]).filter(Boolean);
+  return { columns: res.meta.fields || Object.keys(rows[0] || {}), rows };
+}
+
+/** A JSON array of objects, an object holding one such array, or JSON Lines. */
+export function parseJsonRows(text: string): { format: "json" | "jsonl"; table: Table } {
+  const trimmed = text.trim();
+  try {
+    const value = JSON.parse(trimmed);
+    const arr = Array.isArray(value) ? value : Object.values(value || {}).find(Array.isArray);
+    if (!arr) throw new Error("No array of records found in JSON.");
+    return { format: "json", table: tableFromObjects(arr) };
+  } catch (e) {
+    if (trimmed.startsWith("[")) throw e;
+  }
+  const lines = trimmed.split(/\r?\n/).filter(l => l.trim());
+  const objects = lines.map((l, i) => {
+    try { return JSON.parse(l); } catch { throw new Error(`JSONL line ${i + 1} is not valid JSON.`); }
+  });
+  return { format: "jsonl", table: tableFromObjects(objects) };
+}
+
+export function sheetTable(workbook: XLSX.WorkBook, sheet: string): Table {
+  const ws = workbook.Sheets[sheet];
+  if (!ws) return { columns: [], rows: [] };
+  // raw: false keeps the cells as displayed in Excel (dates, percentages), like a CSV export would.
+  // With defval every row carries every header, so the first row gives the column order.
+  const rows = XLSX.utils.sheet_to_json<Record<string, any>>(ws, { defval: "", raw: false });
+  return { columns: Object.keys(rows[0] || {}), rows };
+}
+
+function extension(name: string) {
+  const m = /\.([a-z0-9]+)$/i.exec(name);
+  return m ? m[1].toLowerCase() : "";
+}
+
+export function fileStem(name: string) {
+  return name.replace(/\.[^.]+$/, "");
+}
+
+let nextSourceId = 1;
+
+export function readDataSource(name: string, bytes: Uint8Array): DataSource {
+  const ext = extension(name);
+  const base = { id: `src-${nextSourceId++}`, name, sheets: [] as string[], sheet: "", key: "" };
+  if (["xlsx", "xls", "xlsm", "xlsb", "ods"].includes(ext)) {
+    const workbook = XLSX.read(bytes, { type: "array" });
+    const sheet = workbook.SheetNames[0] || "";
+    return { ...base, format: "xlsx", workbook, sheets: workbook.SheetNames, sheet, ...sheetTable(workbook, sheet) };
+  }
+  const { text, encoding } = decodeText(bytes);
+  const delimited = ["csv", "tsv", "tab"].includes(ext);
+  if (ext === "json" || ext === "jsonl" || ext === "ndjson" || (!delimited && /^\s*[[{]/.test(text))) {
+    const { format, table } = parseJsonRows(text);
+    return { ...base, format, encoding, ...table };
+  }
+  if (ext === "tsv" || ext === "tab") return { ...base, format: "tsv", encoding, ...parseDelimited(text, "\t") };
+  // Papa.parse sniffs the delimiter (comma, semicolon, tab) for everything else.
+  return { ...base, format: "csv", encoding, ...parseDelimited(text) };
+}
+
+export function selectSheet(source: DataSource, sheet: string): DataSource {
+  if (!source.workbook) return source;
+  return { ...source, sheet, ...sheetTable(source.workbook, sheet) };
+}
+
+/** Prefers a column present in every source whose name looks like an id. */
+export function guessJoinKey(sources: Table[]) {
+  if (!sources.length) return "";
+  const shared = sources[0].columns.filter(c => sources.every(s => s.columns.includes(c)));
+  return shared.find(c => /(^|[^a-z])id$|^id|key/i.test(c)) ?? shared[0] ?? "";
+}
+
+export interface JoinResult extends Table {
+  /** Base rows without a match, per joined source (index 1..n; index 0 is always 0). */
+  unmatched: number[];
+}
+
+export function joinSources(sources: Pick<DataSource, "name" | "columns" | "rows" | "key">[]): JoinResult {
+  const [base, ...others] = sources;
+  if (!base) return { columns: [], rows: [], unmatched: [] };
+  const columns = [...base.columns];
+  let rows = base.rows.map(r => ({ ...r }));
+  const unmatched = [0];
+  const keyOf = (v: any) => String(v ?? "").trim();
+
+  for (const src of others) {
+    if (!base.key || !src.key) { unmatched.push(rows.length); continue; }
+    const index = new Map<string, Record<string, any>[]>();
+    for (const r of src.rows) {
+      const k = keyOf(r[src.key]);
+      if (!k) continue;
+      if (!index.has(k)) index.set(k, []);
+      index.get(k)!.push(r);
+    }
+    const stem = fileStem(src.name);
+    const rename = new Map(src.columns.filter(c => c !== src.key).map(c => [c, columns.includes(c) ? `${stem}.${c}` : c]));
+    for (const c of rename.values()) if (!columns.includes(c)) columns.push(c);
+    let misses = 0;
+    rows = rows.map(r => {
+      const matches = index.get(keyOf(r[base.key])) || [];
+      if (!matches.length) misses++;
+      const out = { ...r };
+      for (const [c, target] of rename) {
+        const values = Array.from(new Set(matches.map(m => m[c]).filter(v => v !== undefined && v !== null && String(v).trim() !== "")));
+        out[target] = values.length <= 1 ? (values[0] ?? "") : values.map(String).join("\n\n");
+      }
+      return out;
+    });
+    unmatched.push(misses);
+  }
+  return { columns, rows, unmatched };
+}
+
+export const ACCEPTED_FILES = ".csv,.tsv,.tab,.txt,.json,.jsonl,.ndjson,.xlsx,.xls,.xlsm,.xlsb,.ods";
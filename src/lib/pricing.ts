@@ -0,0 +1,109 @@
+/**
+ * Pricing && budget
+ * - Prices are USD per 1M tokens, editable per model and saved in localStorage
+ * - Models missing from the table are reported as unpriced instead of silently using another model's price
+ * - Pre-flight estimates use the ~4 chars/token heuristic on the rendered prompts
+ */
+import { approxTokens } from "./providers";
+
+export interface ModelPrice {
+  in: number;
+  out: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface CostSettings {
+  /** Expected completion tokens per call, for the pre-flight estimate. */
+  completionTokens: number;
+  /** Pause the run once the running cost reaches this many USD; 0 = no limit. */
+  budgetUSD: number;
+}
+
+export const DEFAULT_COST: CostSettings = { completionTokens: 300, budgetUSD: 0 };
+
+export const DEFAULT_PRICES: PriceTable = {
+  "gpt-4o": { in: 2.5, out: 10 },
+  "gpt-4o-mini": { in: 0.15, out: 0.6 },
+  "gpt-4.1-mini": { in: 0.4, out: 1.6 },
+  "gpt-3.5-turbo": { in: 0.5, out: 1.5 },
+  "claude-3-5-haiku-latest": { in: 0.8, out: 4 },
+  "claude-3-5-sonnet-latest": { in: 3, out: 15 },
+  "claude-3-opus-latest": { in: 15, out: 75 },
+  "mock-evaluator": { in: 0, out: 0 },
+};
+
+/** Batch API calls cost this fraction of the list price. */
+export const BATCH_DISCOUNT = 0.5;
+
+export function estimateCost(prices: PriceTable, model: string, promptTokens: number, completionTokens: number) {
+  const p = prices[model];
+  if (!p) return { promptUSD: 0, completionUSD: 0, totalUSD: 0, priced: false };
+  const promptUSD = (promptTokens / 1e6) * p.in;
+  const completionUSD = (completionTokens / 1e6) * p.out;
+  return { promptUSD, completionUSD, totalUSD: promptUSD + completionUSD, priced: true };
+}
+
+export interface PreflightEstimate {
+  rows: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  maxPromptTokens: number;
+  totalUSD: number;
+  /** Models used by the run that have no entry in the price table. */
+  unpriced: string[];
+}
+
+/**
+ * Projects a run from the rendered prompts. Every row is sent once per entry in `models`
+ * (consensus samples repeat a model), each expected to produce `completionTokens` tokens.
+ */
+export function preflightEstimate(prompts: string[], models: string[], completionTokens: number, prices: PriceTable): PreflightEstimate {
+  let promptTokens = 0;
+  let maxPromptTokens = 0;
+  for (const p of prompts) {
+    const t = approxTokens(p);
+    promptTokens += t;
+    maxPromptTokens = Math.max(maxPromptTokens, t);
+  }
+  let totalUSD = 0;
+  for (const m of models) totalUSD += estimateCost(prices, m, promptTokens, completionTokens * prompts.length).totalUSD;
+  return {
+    rows: prompts.length,
+    calls: prompts.length * models.length,
+    promptTokens: promptTokens * models.length,
+    completionTokens: completionTokens * prompts.length * models.length,
+    maxPromptTokens,
+    totalUSD,
+    unpriced: Array.from(new Set(models.filter(m => !prices[m]))),
+  };
+}
+
+/** Sum of two estimates, e.g. the evaluation calls && the long-input map calls. */
+export function mergeEstimates(a: PreflightEstimate, b: PreflightEstimate): PreflightEstimate {
+  return {
+    rows: Math.max(a.rows, b.rows),
+    calls: a.calls + b.calls,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    maxPromptTokens: Math.max(a.maxPromptTokens, b.maxPromptTokens),
+    totalUSD: a.totalUSD + b.totalUSD,
+    unpriced: Array.from(new Set([...a.unpriced, ...b.unpriced])),
+  };
+}
+
+const STORAGE_KEY = "llm-batch-evaluator.prices";
+
+export function loadPrices(): PriceTable {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    return saved && typeof saved === "object" ? saved : { ...DEFAULT_PRICES };
+  } catch {
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+export function savePrices(prices: PriceTable) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+}
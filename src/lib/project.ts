@@ -0,0 +1,248 @@
+/**
+ * Presets && project files
+ * - ProjectSettings: every run setting of the app (prompts, column mapping, rubric, schema, scheduler, cost),
+ *   never the API key or the data
+ * - Presets are named snapshots saved in localStorage; project files are the same snapshot as versioned JSON
+ * - Loading fills fields missing from older files with the defaults && ignores unknown ones
+ * - runConfigFromSettings turns a snapshot into the RunConfig the evaluation core runs (web app && CLI)
+ * - missingColumns lists the columns a snapshot refers to that the loaded data does not have
+ */
+import { ProviderId, PROVIDERS } from "./providers";
+import { DEFAULT_OUTPUT_SCHEMA, OutputSchemaSettings, resolveSchema } from "./schema";
+import { DEFAULT_RUBRIC, Rubric, rubricKeyProblem, rubricSchema } from "./rubric";
+import { ConsensusSettings, DEFAULT_CONSENSUS } from "./consensus";
+import { CalibrationSettings, DEFAULT_CALIBRATION } from "./calibration";
+import { DEFAULT_EXPERIMENT, ExperimentSettings } from "./experiments";
+import { CostSettings, DEFAULT_COST } from "./pricing";
+import { DEFAULT_LONG_INPUT, LongInputSettings } from "./chunking";
+import { DEFAULT_SCHEDULER } from "./scheduler";
+import { DEFAULT_EXPORT, ExportSettings } from "./exporters";
+import { DEFAULT_DEDUPE, DedupeSettings } from "./dedupe";
+import { DEFAULT_REDACTION, RedactionSettings } from "./redaction";
+import { CacheSettings, DEFAULT_CACHE } from "./responseCache";
+import { DEFAULT_RANKING, RankingSettings } from "./ranking";
+import { DEFAULT_REVIEW, ReviewSettings } from "./review";
+import { parseTemplate, templateReferences } from "./template";
+import { RunConfig } from "./runStore";
+
+export interface ProjectSettings {
+  providerId: ProviderId;
+  baseUrl: string;
+  apiVersion: string;
+  model: string;
+  temperature: number;
+  systemPrompt: string;
+  userPrompt: string;
+  /** Submission text column; "" = the whole row as JSON. */
+  textCol: string;
+  concurrency: number;
+  rpm: number;
+  tpm: number;
+  maxRetries: number;
+  resultKey: string;
+  outputSchema: OutputSchemaSettings;
+  rubricEnabled: boolean;
+  rubric: Rubric;
+  consensus: ConsensusSettings;
+  longInput: LongInputSettings;
+  dedupe: DedupeSettings;
+  redaction: RedactionSettings;
+  cache: CacheSettings;
+  calibration: CalibrationSettings;
+  experiment: ExperimentSettings;
+  ranking: RankingSettings;
+  review: ReviewSettings;
+  cost: CostSettings;
+  lintMaxTokens: number;
+  export: ExportSettings;
+}
+
+export const DEFAULT_SETTINGS: ProjectSettings = {
+  providerId: "openai",
+  baseUrl: "",
+  apiVersion: "2024-06-01",
+  model: "gpt-4o-mini",
+  temperature: 0.2,
+  systemPrompt: "You are a careful evaluator. Return concise, structured results.",
+  userPrompt: "Evaluate the following submission && return JSON with the schema:\\n{\\n  \\\"score\\\": integer 0-5,\\n  \\\"summary\\\": short summary,\\n  \\\"strengths\\\": array of strings,\\n  \\\"risks\\\": array of strings,\\n  \\\"decision\\\": \\\"Go\\\" or \\\"No-Go\\\"\\n}\\n\\nSubmission:\\n{{submission}}",
+  textCol: "",
+  concurrency: DEFAULT_SCHEDULER.maxConcurrency,
+  rpm: DEFAULT_SCHEDULER.rpm,
+  tpm: DEFAULT_SCHEDULER.tpm,
+  maxRetries: 2,
+  resultKey: "evaluation",
+  outputSchema: DEFAULT_OUTPUT_SCHEMA,
+  rubricEnabled: false,
+  rubric: DEFAULT_RUBRIC,
+  consensus: DEFAULT_CONSENSUS,
+  longInput: DEFAULT_LONG_INPUT,
+  dedupe: DEFAULT_DEDUPE,
+  redaction: DEFAULT_REDACTION,
+  cache: DEFAULT_CACHE,
+  calibration: DEFAULT_CALIBRATION,
+  experiment: DEFAULT_EXPERIMENT,
+  ranking: DEFAULT_RANKING,
+  review: DEFAULT_REVIEW,
+  cost: DEFAULT_COST,
+  lintMaxTokens: 8000,
+  export: DEFAULT_EXPORT,
+};
+
+export const PROJECT_FORMAT = "llm-batch-evaluator/project";
+export const PROJECT_VERSION = 1;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  settings: ProjectSettings;
+}
+
+export interface Preset {
+  name: string;
+  savedAt: string;
+  settings: ProjectSettings;
+}
+
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectError";
+  }
+}
+
+function isPlainObject(v: any) {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// Shape of the elements of each list setting; elements with a field of another type are dropped.
+// A null field accepts a number or null.
+const ITEM_SHAPES: Record<string, any> = {
+  "outputSchema.fields": { name: "", type: "", required: false },
+  "rubric.criteria": { key: "", name: "", description: "", min: 0, max: 0, weight: 0, anchors: "" },
+  "consensus.models": "",
+  "redaction.columns": "",
+  "experiment.variants": { id: "", name: "", systemPrompt: "", userPrompt: "", model: "", temperature: null },
+};
+
+function fitsShape(v: any, shape: any): boolean {
+  if (shape === null) return v === null || (typeof v === "number" && Number.isFinite(v));
+  if (!isPlainObject(shape)) return typeof v === typeof shape;
+  return isPlainObject(v) && Object.entries(shape).every(([k, t]) => fitsShape(v[k], t));
+}
+
+// `v` with the type of `def` at every level: objects keep the known keys, lists keep the elements of the right shape,
+// anything else of the wrong type falls back to the default.
+function normalizeLike(def: any, v: any, path: string): any {
+  if (isPlainObject(def)) {
+    if (!isPlainObject(v)) return def;
+    return Object.fromEntries(Object.entries(def).map(([k, d]) => [k, normalizeLike(d, v[k], path ? `${path}.${k}` : k)]));
+  }
+  if (Array.isArray(def)) {
+    if (!Array.isArray(v)) return def;
+    const shape = ITEM_SHAPES[path];
+    return shape === undefined ? def : v.filter(x => fitsShape(x, shape));
+  }
+  return v !== undefined && v !== null && typeof v === typeof def && (typeof v !== "number" || Number.isFinite(v)) ? v : def;
+}
+
+// Known keys only, each with the default's type down to the nested settings && their lists.
+export function normalizeSettings(raw: any): ProjectSettings {
+  const out = normalizeLike(DEFAULT_SETTINGS, raw, "") as ProjectSettings;
+  if (!PROVIDERS[out.providerId as ProviderId]) out.providerId = DEFAULT_SETTINGS.providerId;
+  return out;
+}
+
+export function toProjectFile(name: string, settings: ProjectSettings): ProjectFile {
+  return { format: PROJECT_FORMAT, version: PROJECT_VERSION, name, savedAt: new Date().toISOString(), settings: normalizeSettings(settings) };
+}
+
+export function parseProjectFile(text: string): Preset {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (e: any) {
+    throw new ProjectError(`Not a JSON file (${e?.message || e}).`);
+  }
+  if (!isPlainObject(value) || value.format !== PROJECT_FORMAT) throw new ProjectError("Not a project file of this tool.");
+  if (!(Number(value.version) >= 1)) throw new ProjectError("The project file has no valid version.");
+  if (Number(value.version) > PROJECT_VERSION) {
+    throw new ProjectError(`The project file is version ${value.version}; this app reads up to version ${PROJECT_VERSION}. Please update the app.`);
+  }
+  return { name: String(value.name || "Imported project"), savedAt: String(value.savedAt || ""), settings: normalizeSettings(value.settings) };
+}
+
+/** The run configuration for `s`, or a message saying what has to be fixed first. */
+export function runConfigFromSettings(s: ProjectSettings): RunConfig | string {
+  if (!s.model) return "Please choose a model.";
+  if (s.consensus.enabled && s.consensus.samplesPerModel < 1) return "Consensus needs at least one sample per model.";
+  if (s.rubricEnabled && !s.rubric.criteria.length) return "The rubric has no criteria.";
+  if (s.rubricEnabled && rubricKeyProblem(s.rubric)) return rubricKeyProblem(s.rubric);
+  if (s.longInput.enabled) {
+    try { parseTemplate(s.longInput.mapPrompt); parseTemplate(s.longInput.reducePrompt); } catch (e: any) { return `Long-input prompts: ${e?.message || e}`; }
+  }
+  // An active rubric defines the expected output shape.
+  const schema = s.rubricEnabled ? { ok: true as const, schema: rubricSchema(s.rubric) } : resolveSchema(s.outputSchema);
+  if ((s.outputSchema.validate || s.outputSchema.structured) && !schema.ok) return `Output schema is invalid: ${schema.error}`;
+  return {
+    providerId: s.providerId, baseUrl: s.baseUrl, apiVersion: s.apiVersion, model: s.model, temperature: s.temperature,
+    systemPrompt: s.systemPrompt, userPrompt: s.userPrompt, textCol: s.textCol, resultKey: s.resultKey, maxRetries: s.maxRetries,
+    outputSchema: s.outputSchema.validate && schema.ok ? schema.schema : null,
+    repair: s.outputSchema.validate && s.outputSchema.repair,
+    responseSchema: s.outputSchema.structured && schema.ok ? schema.schema : null,
+    rubric: s.rubricEnabled ? s.rubric : null,
+    consensus: s.consensus.enabled ? s.consensus : null,
+    longInput: s.longInput.enabled ? s.longInput : null,
+    dedupe: s.dedupe.enabled ? s.dedupe : null,
+    redaction: s.redaction.enabled ? s.redaction : null,
+    hiddenColumns: [s.calibration.goldScoreCol, s.calibration.goldDecisionCol].filter(Boolean),
+  };
+}
+
+/** Columns the settings refer to: the text column, gold labels, redacted columns && {{column}} references in the prompts (also {{a.column}} in the comparison prompt). */
+export function referencedColumns(settings: ProjectSettings) {
+  const names = new Set<string>();
+  if (settings.textCol) names.add(settings.textCol);
+  if (settings.calibration.goldScoreCol) names.add(settings.calibration.goldScoreCol);
+  if (settings.calibration.goldDecisionCol) names.add(settings.calibration.goldDecisionCol);
+  if (settings.redaction.enabled) for (const c of settings.redaction.columns) names.add(c);
+  const prompts = [settings.userPrompt, ...settings.experiment.variants.map(v => v.userPrompt)];
+  if (settings.longInput.enabled) prompts.push(settings.longInput.mapPrompt, settings.longInput.reducePrompt);
+  const builtins = ["submission", "json", "chunk", "chunk_index", "chunk_count", "notes"];
+  for (const p of prompts) {
+    try {
+      for (const n of templateReferences(p).names) if (!builtins.includes(n)) names.add(n);
+    } catch {
+      // Syntax errors are reported by the prompt checks.
+    }
+  }
+  // {{a.<column>}} / {{b.<column>}} of the comparison prompt name the columns of either side.
+  try {
+    for (const n of templateReferences(settings.ranking.prompt).names) if (/^[ab]\./.test(n)) names.add(n.slice(2));
+  } catch {
+    // Reported when the ranking starts.
+  }
+  return Array.from(names);
+}
+
+export function missingColumns(settings: ProjectSettings, columns: string[]) {
+  return referencedColumns(settings).filter(c => !columns.includes(c));
+}
+
+const STORAGE_KEY = "llm-batch-evaluator.presets";
+
+export function loadPresets(): Preset[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved)
+      ? saved.filter(p => p && typeof p.name === "string").map(p => ({ name: p.name, savedAt: String(p.savedAt || ""), settings: normalizeSettings(p.settings) }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
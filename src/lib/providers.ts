@@ -0,0 +1,412 @@
+/**
+ * LLM provider layer
+ * - One `Provider` per backend (OpenAI, Azure OpenAI, Anthropic, OpenAI-compatible, the team proxy, offline mock)
+ * - The team proxy (src/server/proxy.ts) holds the provider keys; the browser only sends a per-user access token
+ * - Each provider owns its auth headers, endpoint, model list && response parsing
+ * - Usage is normalized to { prompt_tokens, completion_tokens } (OpenAI naming)
+ * - HTTP failures are mapped to a ProviderError with a coarse `kind`
+ * - Rate-limit headers (Retry-After, x-ratelimit-*, anthropic-ratelimit-*) are parsed into `RateLimitInfo`
+ *   on both results && errors, for the scheduler
+ * - Structured output: when a request carries `responseSchema`, providers that support it
+ *   (json_schema response format or a forced tool call) return the parsed object in `structured`
+ */
+
+export type ProviderId = "openai" | "azure" | "anthropic" | "compatible" | "proxy" | "mock";
+
+export interface ProviderConfig {
+  apiKey: string;
+  /** Endpoint root: Azure resource URL or OpenAI-compatible base URL (e.g. http://localhost:11434/v1). */
+  baseUrl?: string;
+  /** Azure OpenAI `api-version` query parameter. */
+  apiVersion?: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  systemPrompt?: string;
+  userPrompt: string;
+  temperature?: number;
+  /** Ask for provider-native structured output matching this JSON Schema. */
+  responseSchema?: { name: string; schema: Record<string, any> };
+  /** Sample index in a self-consistency run; only the offline mock uses it (to vary its answer). */
+  sample?: number;
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/** Rate-limit state reported by the server; every field is optional since few servers (or CORS setups) expose all of them. */
+export interface RateLimitInfo {
+  remainingRequests?: number;
+  remainingTokens?: number;
+  /** Milliseconds until the request / token budget resets. */
+  resetRequestsMs?: number;
+  resetTokensMs?: number;
+  /** From Retry-After / retry-after-ms. */
+  retryAfterMs?: number;
+}
+
+export interface ChatResult {
+  content: string;
+  usage: Usage;
+  /** Parsed structured output, only set when the provider returned it natively. */
+  structured?: any;
+  rateLimit?: RateLimitInfo;
+}
+
+export interface Provider {
+  id: ProviderId;
+  label: string;
+  /** Suggested models; an empty list means the model/deployment name is free text. */
+  models: string[];
+  needsKey: boolean;
+  /** What the key field asks for; default "<label> API Key". */
+  keyLabel?: string;
+  needsBaseUrl: boolean;
+  defaultBaseUrl?: string;
+  /** How the provider enforces `responseSchema`; null means prompted JSON + loose parsing only. */
+  structured: "json_schema" | "tool" | null;
+  chat(cfg: ProviderConfig, req: ChatRequest): Promise<ChatResult>;
+}
+
+export type ProviderErrorKind = "auth" | "bad_request" | "not_found" | "rate_limit" | "server" | "network" | "unknown";
+
+export class ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number;
+  provider: ProviderId;
+  rateLimit?: RateLimitInfo;
+
+  constructor(provider: ProviderId, kind: ProviderErrorKind, message: string, status?: number, rateLimit?: RateLimitInfo) {
+    super(message);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.kind = kind;
+    this.status = status;
+    this.rateLimit = rateLimit;
+  }
+}
+
+/** Auth errors, malformed requests && unknown models fail the same way on every attempt. */
+export function isRetryable(e: any) {
+  return !(e instanceof ProviderError) || !["auth", "bad_request", "not_found"].includes(e.kind);
+}
+
+/** "6m0s", "1.5s", "20ms" (OpenAI), a number of seconds, or an ISO / HTTP date (Anthropic, Retry-After). */
+export function parseDurationMs(v: string | null | undefined, now = Date.now()): number | undefined {
+  const s = (v || "").trim();
+  if (!s) return undefined;
+  if (/^\d+(\.\d+)?$/.test(s)) return Number(s) * 1000;
+  const parts = Array.from(s.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g));
+  if (parts.length && parts.map(p => p[0]).join("") === s) {
+    const unit: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+    return parts.reduce((ms, p) => ms + Number(p[1]) * unit[p[2]], 0);
+  }
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? Math.max(0, t - now) : undefined;
+}
+
+export function parseRateLimit(headers: { get(name: string): string | null }, now = Date.now()): RateLimitInfo | undefined {
+  const num = (name: string) => {
+    const v = headers.get(name);
+    return v !== null && v.trim() !== "" && Number.isFinite(Number(v)) ? Number(v) : undefined;
+  };
+  const retryAfterMs = num("retry-after-ms") ?? parseDurationMs(headers.get("retry-after"), now);
+  const info: RateLimitInfo = {
+    remainingRequests: num("x-ratelimit-remaining-requests") ?? num("anthropic-ratelimit-requests-remaining"),
+    remainingTokens: num("x-ratelimit-remaining-tokens") ?? num("anthropic-ratelimit-tokens-remaining"),
+    resetRequestsMs: parseDurationMs(headers.get("x-ratelimit-reset-requests") ?? headers.get("anthropic-ratelimit-requests-reset"), now),
+    resetTokensMs: parseDurationMs(headers.get("x-ratelimit-reset-tokens") ?? headers.get("anthropic-ratelimit-tokens-reset"), now),
+    retryAfterMs,
+  };
+  const defined = Object.fromEntries(Object.entries(info).filter(([, v]) => v !== undefined));
+  return Object.keys(defined).length ? defined : undefined;
+}
+
+/** 408 (request timeout) && 409 (conflict) are transient like a 5xx, so they are retried. */
+export function kindForStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limit";
+  if (status >= 500 || status === 408 || status === 409) return "server";
+  if (status >= 400) return "bad_request";
+  return "unknown";
+}
+
+function trimSlash(s: string) { return (s || "").replace(/\/+$/, ""); }
+
+async function postJson(provider: Provider, url: string, headers: Record<string, string>, body: any) {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (e: any) {
+    throw new ProviderError(provider.id, "network", `${provider.label} network error: ${e?.message || e}`);
+  }
+  const rateLimit = parseRateLimit(res.headers);
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new ProviderError(provider.id, kindForStatus(res.status), `${provider.label} API error ${res.status}: ${t}`, res.status, rateLimit);
+  }
+  return { json: await res.json(), rateLimit };
+}
+
+function chatMessages(req: ChatRequest) {
+  return [
+    ...(req.systemPrompt ? [{ role: "system", content: req.systemPrompt }] : []),
+    { role: "user", content: req.userPrompt },
+  ];
+}
+
+/** OpenAI strict mode only accepts closed objects with every property required and no numeric/length bounds. */
+export function isStrictCompatible(schema: any): boolean {
+  if (!schema || typeof schema !== "object") return true;
+  if (["minimum", "maximum", "minLength", "maxLength", "minItems", "maxItems"].some(k => k in schema)) return false;
+  if (schema.type === "object" || schema.properties) {
+    const keys = Object.keys(schema.properties || {});
+    const required: string[] = schema.required || [];
+    if (schema.additionalProperties !== false || keys.some(k => !required.includes(k))) return false;
+    if (keys.some(k => !isStrictCompatible(schema.properties[k]))) return false;
+  }
+  if (schema.items && !isStrictCompatible(schema.items)) return false;
+  return true;
+}
+
+function openAIResponseFormat(req: ChatRequest) {
+  if (!req.responseSchema) return {};
+  const { name, schema } = req.responseSchema;
+  return { response_format: { type: "json_schema", json_schema: { name, schema, strict: isStrictCompatible(schema) } } };
+}
+
+/** Chat Completions request body; also the `body` of a Batch API request line. */
+export function openAIChatBody(req: ChatRequest) {
+  return { model: req.model, messages: chatMessages(req), temperature: Number(req.temperature ?? 0.2), ...openAIResponseFormat(req) };
+}
+
+export function fromOpenAIShape(json: any, req: ChatRequest): ChatResult {
+  const message = json?.choices?.[0]?.message ?? {};
+  const content = message.content ?? message.refusal ?? "";
+  const usage = json?.usage ?? {};
+  let structured: any;
+  if (req.responseSchema && message.content) {
+    // With json_schema the content is the JSON document itself; a server that ignored
+    // response_format falls through to the loose parser.
+    try { structured = JSON.parse(message.content); } catch { structured = undefined; }
+  }
+  return {
+    content,
+    usage: {
+      prompt_tokens: Number(usage.prompt_tokens || 0),
+      completion_tokens: Number(usage.completion_tokens || 0),
+    },
+    ...(structured !== undefined ? { structured } : {}),
+  };
+}
+
+const openai: Provider = {
+  id: "openai",
+  label: "OpenAI",
+  models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-3.5-turbo"],
+  needsKey: true,
+  needsBaseUrl: false,
+  structured: "json_schema",
+  async chat(cfg, req) {
+    const { json, rateLimit } = await postJson(this, "https://api.openai.com/v1/chat/completions",
+      { "Authorization": `Bearer ${cfg.apiKey}` },
+      openAIChatBody(req));
+    return { ...fromOpenAIShape(json, req), rateLimit };
+  },
+};
+
+const azure: Provider = {
+  id: "azure",
+  label: "Azure OpenAI",
+  models: [],
+  needsKey: true,
+  needsBaseUrl: true,
+  defaultBaseUrl: "https://YOUR-RESOURCE.openai.azure.com",
+  structured: "json_schema",
+  async chat(cfg, req) {
+    // On Azure the "model" is the deployment name.
+    const url = `${trimSlash(cfg.baseUrl || "")}/openai/deployments/${encodeURIComponent(req.model)}/chat/completions?api-version=${encodeURIComponent(cfg.apiVersion || "2024-06-01")}`;
+    const { json, rateLimit } = await postJson(this, url,
+      { "api-key": cfg.apiKey },
+      { messages: chatMessages(req), temperature: Number(req.temperature ?? 0.2), ...openAIResponseFormat(req) });
+    return { ...fromOpenAIShape(json, req), rateLimit };
+  },
+};
+
+const anthropic: Provider = {
+  id: "anthropic",
+  label: "Anthropic",
+  models: ["claude-3-5-haiku-latest", "claude-3-5-sonnet-latest", "claude-3-opus-latest"],
+  needsKey: true,
+  needsBaseUrl: false,
+  structured: "tool",
+  async chat(cfg, req) {
+    const { json, rateLimit } = await postJson(this, "https://api.anthropic.com/v1/messages",
+      {
+        "x-api-key": cfg.apiKey,
+        "anthropic-version": "2023-06-01",
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      {
+        model: req.model,
+        max_tokens: 4096,
+        ...(req.systemPrompt ? { system: req.systemPrompt } : {}),
+        messages: [{ role: "user", content: req.userPrompt }],
+        temperature: Number(req.temperature ?? 0.2),
+        // Structured output = one forced tool call whose input is the result object.
+        ...(req.responseSchema ? {
+          tools: [{ name: req.responseSchema.name, description: "Record the evaluation result.", input_schema: req.responseSchema.schema }],
+          tool_choice: { type: "tool", name: req.responseSchema.name },
+        } : {}),
+      });
+    const blocks: any[] = Array.isArray(json?.content) ? json.content : [];
+    const toolUse = blocks.find(b => b?.type === "tool_use");
+    const content = toolUse
+      ? JSON.stringify(toolUse.input ?? {})
+      : blocks.filter(b => b?.type === "text").map(b => b.text).join("");
+    return {
+      content,
+      ...(toolUse ? { structured: toolUse.input ?? {} } : {}),
+      usage: {
+        prompt_tokens: Number(json?.usage?.input_tokens || 0),
+        completion_tokens: Number(json?.usage?.output_tokens || 0),
+      },
+      rateLimit,
+    };
+  },
+};
+
+const compatible: Provider = {
+  id: "compatible",
+  label: "OpenAI-compatible (Ollama, vLLM, ...)",
+  models: [],
+  needsKey: false,
+  needsBaseUrl: true,
+  defaultBaseUrl: "http://localhost:11434/v1",
+  // Recent Ollama and vLLM accept json_schema; servers that ignore it fall back to loose parsing.
+  structured: "json_schema",
+  async chat(cfg, req) {
+    const { json, rateLimit } = await postJson(this, `${trimSlash(cfg.baseUrl || "")}/chat/completions`,
+      cfg.apiKey ? { "Authorization": `Bearer ${cfg.apiKey}` } : {},
+      openAIChatBody(req));
+    return { ...fromOpenAIShape(json, req), rateLimit };
+  },
+};
+
+// The proxy takes a ChatRequest as is && answers with a ChatResult; it picks the upstream provider by model.
+// Quota && allow-list refusals come back as 403 (not retried); upstream errors keep their status.
+const proxy: Provider = {
+  id: "proxy",
+  label: "Team proxy (keys stay on the server)",
+  models: [],
+  needsKey: true,
+  keyLabel: "Proxy access token",
+  needsBaseUrl: true,
+  defaultBaseUrl: "http://localhost:8787",
+  structured: "json_schema",
+  async chat(cfg, req) {
+    const { json, rateLimit } = await postJson(this, `${trimSlash(cfg.baseUrl || "")}/v1/chat`,
+      { "Authorization": `Bearer ${cfg.apiKey}` },
+      req);
+    return {
+      content: String(json?.content ?? ""),
+      usage: {
+        prompt_tokens: Number(json?.usage?.prompt_tokens || 0),
+        completion_tokens: Number(json?.usage?.completion_tokens || 0),
+      },
+      ...(json?.structured !== undefined ? { structured: json.structured } : {}),
+      rateLimit: json?.rateLimit ?? rateLimit,
+    };
+  },
+};
+
+/** FNV-1a, good enough to derive stable fake scores from prompt text. */
+export function hashString(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Rough token estimate (~4 chars per token) used where no tokenizer is available. */
+export function approxTokens(s: string) {
+  return Math.ceil((s || "").length / 4);
+}
+
+/** Deterministic value that satisfies `schema`, derived from the seed `h`. */
+export function mockFromSchema(schema: any, h: number, key = ""): any {
+  const seed = hashString(`${h}:${key}`);
+  if (!schema || typeof schema !== "object") return null;
+  if (Array.isArray(schema.enum) && schema.enum.length) return schema.enum[seed % schema.enum.length];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "integer":
+    case "number": {
+      const min = Number.isFinite(schema.minimum) ? schema.minimum : 0;
+      const max = Number.isFinite(schema.maximum) ? schema.maximum : min + 5;
+      const n = min + (seed % (Math.floor(max - min) + 1));
+      return Math.min(max, n);
+    }
+    case "boolean": return seed % 2 === 0;
+    case "array": {
+      const min = Number.isFinite(schema.minItems) ? schema.minItems : 1;
+      const max = Number.isFinite(schema.maxItems) ? schema.maxItems : Math.max(min, 2);
+      const len = min + (seed % (max - min + 1));
+      return Array.from({ length: len }, (_, i) => mockFromSchema(schema.items || { type: "string" }, h, `${key}/${i}`));
+    }
+    case "object": {
+      const out: Record<string, any> = {};
+      for (const [k, sub] of Object.entries<any>(schema.properties || {})) out[k] = mockFromSchema(sub, h, `${key}/${k}`);
+      return out;
+    }
+    default:
+      return `mock ${key.split("/").filter(Boolean).join(" ") || "value"} #${seed % 1000}`.slice(0, Number.isFinite(schema.maxLength) ? schema.maxLength : undefined);
+  }
+}
+
+const mock: Provider = {
+  id: "mock",
+  label: "Offline mock (no network)",
+  models: ["mock-evaluator"],
+  needsKey: false,
+  needsBaseUrl: false,
+  structured: "json_schema",
+  async chat(_cfg, req) {
+    // Same prompt → same answer, so whole batches are reproducible offline.
+    const h = hashString(`${req.model}\n${req.systemPrompt || ""}\n${req.userPrompt}${req.sample ? `\n#${req.sample}` : ""}`);
+    const score = h % 6;
+    const out = req.responseSchema ? mockFromSchema(req.responseSchema.schema, h) : {
+      score,
+      summary: `Mock evaluation #${(h % 10000).toString().padStart(4, "0")}`,
+      strengths: ["deterministic"],
+      risks: ["not a real model"],
+      decision: score >= 3 ? "Go" : "No-Go",
+    };
+    const content = JSON.stringify(out);
+    await new Promise(res => setTimeout(res, 10));
+    return {
+      content,
+      usage: {
+        prompt_tokens: approxTokens((req.systemPrompt || "") + req.userPrompt),
+        completion_tokens: approxTokens(content),
+      },
+      ...(req.responseSchema ? { structured: out } : {}),
+    };
+  },
+};
+
+export const PROVIDERS: Record<ProviderId, Provider> = { openai, azure, anthropic, compatible, proxy, mock };
+
+export function getProvider(id: ProviderId): Provider {
+  return PROVIDERS[id] || PROVIDERS.openai;
+}
@@ -0,0 +1,283 @@
+/**
+ * Pairwise comparison && tournament ranking
+ * - The model is shown two submissions (A && B) and names the stronger one, or a tie
+ * - With swapOrder every pair is asked twice with A && B exchanged; disagreeing orders cancel out into a tie,
+ *   so a model that prefers the first position cannot move the ranking
+ * - Pairs are scheduled as a Swiss tournament: each round pairs neighbours of the current rating that have not met
+ *   yet, so comparisons concentrate where the order is still uncertain (round 1 is seeded by eval.score if present)
+ * - The calls are fitted to a Bradley-Terry model (MM iterations, a half-win prior against a fixed anchor so
+ *   unbeaten rows stay finite) && reported on the Elo scale as rank.elo / rank.position
+ * - Each comparison runs through evaluateRow, so retries, the response cache && redaction apply unchanged
+ */
+import { JsonSchema } from "./schema";
+import { RowEvalContext, evaluateRow, parseJsonLoose, promptContext } from "./evaluate";
+import { RowState, RunConfig, newRowState } from "./runStore";
+
+export interface RankingSettings {
+  /** Comparison prompt; {{a}} / {{b}} are the two submissions, {{a.<column>}} / {{b.<column>}} their other columns. */
+  prompt: string;
+  /** Swiss rounds; 0 = ceil(log2(rows)) + 2. */
+  rounds: number;
+  /** Ask every pair a second time with A && B swapped. */
+  swapOrder: boolean;
+}
+
+export const DEFAULT_RANKING: RankingSettings = {
+  prompt: "Compare the two submissions below and decide which one is stronger overall. Judge the content only, not the order or the length.\n\nSubmission A:\n{{a}}\n\nSubmission B:\n{{b}}\n\nReturn JSON: {\"winner\": \"A\" | \"B\" | \"tie\", \"reason\": one short sentence}",
+  rounds: 0,
+  swapOrder: true,
+};
+
+export const PAIRWISE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    winner: { type: "string", enum: ["A", "B", "tie"] },
+    reason: { type: "string" },
+  },
+  required: ["winner", "reason"],
+  additionalProperties: false,
+};
+
+export const RANK_COLUMNS = ["rank.elo", "rank.position", "rank.wins", "rank.comparisons"];
+
+/** The rank.* values of a table row, e.g. to keep them when the row is evaluated again. */
+export function rankColumnsOf(row: Record<string, any> | undefined) {
+  return Object.fromEntries(RANK_COLUMNS.filter(c => row && c in row).map(c => [c, row![c]]));
+}
+
+export type Verdict = "A" | "B" | "tie";
+
+/** One model call: row `first` shown as A, row `second` as B; verdict null when the call failed or was unparseable. */
+export interface PairCall {
+  round: number;
+  first: number;
+  second: number;
+  verdict: Verdict | null;
+}
+
+const PRIOR = 0.5;
+
+export function tournamentRounds(settings: Pick<RankingSettings, "rounds">, rows: number) {
+  if (rows < 2) return 0;
+  return settings.rounds > 0 ? settings.rounds : Math.ceil(Math.log2(rows)) + 2;
+}
+
+/** Model calls a tournament makes at most: one (or two, swapped) per pair && round. */
+export function tournamentCalls(settings: RankingSettings, rows: number) {
+  return tournamentRounds(settings, rows) * Math.floor(rows / 2) * (settings.swapOrder ? 2 : 1);
+}
+
+function pairKey(a: number, b: number) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Pairs for one Swiss round. `order` is the standing, best first; each row is paired with the next unpaired row
+ * below it that it has not met yet (or the next one at all when it has met everybody left). With an odd count
+ * the lowest-standing row without a bye so far sits out.
+ */
+export function swissPairs(order: number[], met: Set<string>, byes: Set<number> = new Set()) {
+  const left = [...order];
+  let bye: number | undefined;
+  if (left.length % 2) {
+    const at = [...left.keys()].reverse().find(i => !byes.has(left[i])) ?? left.length - 1;
+    bye = left.splice(at, 1)[0];
+  }
+  const pairs: [number, number][] = [];
+  while (left.length > 1) {
+    const a = left.shift()!;
+    const j = left.findIndex(b => !met.has(pairKey(a, b)));
+    const b = left.splice(j < 0 ? 0 : j, 1)[0];
+    pairs.push([a, b]);
+  }
+  return { pairs, bye };
+}
+
+/** Score of the row shown first: 1 win, 0.5 tie, 0 loss. */
+function firstScore(v: Verdict) {
+  return v === "A" ? 1 : v === "B" ? 0 : 0.5;
+}
+
+/**
+ * Bradley-Terry strengths for `n` rows from the calls (ties count half a win each), via minorization-maximization.
+ * Every row also plays one virtual game against an anchor of strength 1 and gets half a win from it.
+ */
+export function fitBradleyTerry(n: number, calls: PairCall[], iterations = 200) {
+  const games = calls.filter(c => c.verdict).map(c => ({ a: c.first, b: c.second, s: firstScore(c.verdict!) }));
+  const wins = Array.from({ length: n }, () => PRIOR);
+  for (const g of games) { wins[g.a] += g.s; wins[g.b] += 1 - g.s; }
+  let p = Array.from({ length: n }, () => 1);
+  for (let it = 0; it < iterations; it++) {
+    const denom = p.map(pi => 2 * PRIOR / (pi + 1));
+    for (const g of games) {
+      const d = 1 / (p[g.a] + p[g.b]);
+      denom[g.a] += d;
+      denom[g.b] += d;
+    }
+    const next = p.map((_, i) => wins[i] / denom[i]);
+    const delta = Math.max(...next.map((x, i) => Math.abs(Math.log(x / p[i]))));
+    p = next;
+    if (delta < 1e-9) break;
+  }
+  return p;
+}
+
+export function toElo(strength: number) {
+  return 1500 + 400 * Math.log10(strength);
+}
+
+/** rank.* columns per row: Elo rating, position (1 = best), wins (ties count half) && comparisons made. */
+export function rankingColumns(n: number, calls: PairCall[]): Record<string, any>[] {
+  const elo = fitBradleyTerry(n, calls).map(toElo);
+  const wins = Array.from({ length: n }, () => 0);
+  const played = Array.from({ length: n }, () => 0);
+  for (const c of calls) {
+    if (!c.verdict) continue;
+    const s = firstScore(c.verdict);
+    wins[c.first] += s;
+    wins[c.second] += 1 - s;
+    played[c.first]++;
+    played[c.second]++;
+  }
+  const order = [...elo.keys()].sort((a, b) => elo[b] - elo[a] || a - b);
+  const position: number[] = [];
+  order.forEach((row, i) => { position[row] = i + 1; });
+  return elo.map((e, i) => ({
+    "rank.elo": Math.round(e * 10) / 10,
+    "rank.position": position[i],
+    "rank.wins": wins[i],
+    "rank.comparisons": played[i],
+  }));
+}
+
+/**
+ * Order-bias diagnostics over the swapped repeats: how often both orders named the same row (ties agreeing count too)
+ * && how often the row shown first won a decisive call.
+ */
+export function rankingStats(calls: PairCall[]) {
+  const decided = calls.filter(c => c.verdict);
+  const decisive = decided.filter(c => c.verdict !== "tie");
+  const byPair = new Map<string, PairCall[]>();
+  for (const c of decided) {
+    const k = `${c.round}:${pairKey(c.first, c.second)}`;
+    byPair.set(k, [...(byPair.get(k) || []), c]);
+  }
+  let repeats = 0;
+  let consistent = 0;
+  for (const [x, y] of byPair.values()) {
+    if (!y) continue;
+    repeats++;
+    // Same row preferred: A in one order is B in the other.
+    const sx = firstScore(x.verdict!);
+    const sy = x.first === y.first ? firstScore(y.verdict!) : 1 - firstScore(y.verdict!);
+    if (sx === sy) consistent++;
+  }
+  return {
+    calls: calls.length,
+    failed: calls.length - decided.length,
+    ties: decided.length - decisive.length,
+    firstWinRate: decisive.length ? decisive.filter(c => c.verdict === "A").length / decisive.length : undefined,
+    consistency: repeats ? consistent / repeats : undefined,
+  };
+}
+
+/** Verdict of a finished comparison, from the structured or loosely parsed output. */
+export function pairVerdict(state: RowState, resultKey = "rank"): Verdict | null {
+  if (state.status !== "done" || !state.result) return null;
+  const parsed = parseJsonLoose(String(state.result[`${resultKey}_json`] || state.raw || ""));
+  const w = parsed.ok ? String(parsed.value?.winner ?? "").trim().toUpperCase() : "";
+  return w === "A" ? "A" : w === "B" ? "B" : w === "TIE" ? "tie" : null;
+}
+
+/**
+ * The run config for comparison calls: the ranking prompt && the pairwise schema instead of the evaluation's,
+ * without rubric, consensus, long-input or duplicate handling; redacted columns are redacted for both sides.
+ */
+export function pairConfig(cfg: RunConfig, settings: RankingSettings): RunConfig {
+  return {
+    ...cfg,
+    userPrompt: settings.prompt,
+    textCol: "",
+    resultKey: "rank",
+    hiddenColumns: [],
+    outputSchema: PAIRWISE_SCHEMA,
+    responseSchema: PAIRWISE_SCHEMA,
+    rubric: null,
+    consensus: null,
+    longInput: null,
+    dedupe: null,
+    redaction: cfg.redaction ? { ...cfg.redaction, columns: cfg.redaction.columns.flatMap(c => [`a.${c}`, `b.${c}`]) } : null,
+  };
+}
+
+/** The values a comparison prompt is rendered from; gold-label columns stay withheld. */
+export function pairRow(cfg: RunConfig, first: Record<string, any>, second: Record<string, any>) {
+  const side = (prefix: string, row: Record<string, any>) => {
+    const { submission, ...cols } = promptContext(cfg, row);
+    return { [prefix]: submission, ...Object.fromEntries(Object.entries(cols).map(([k, v]) => [`${prefix}.${k}`, v])) };
+  };
+  return { ...side("a", first), ...side("b", second) };
+}
+
+export interface TournamentProgress {
+  round: number;
+  rounds: number;
+  calls: PairCall[];
+  /** One state per call, for usage && cost. */
+  states: RowState[];
+}
+
+export interface TournamentOptions extends RowEvalContext {
+  cfg: RunConfig;
+  settings: RankingSettings;
+  rows: Record<string, any>[];
+  /** Round-1 standing, higher first (e.g. eval.score); rows without one keep their order behind those with one. */
+  seeds?: (number | undefined)[];
+  onProgress: (p: TournamentProgress) => void;
+}
+
+/**
+ * Plays the Swiss rounds. The pairs of a round run concurrently through the scheduler; the standing for the next
+ * round is refitted from all calls so far. Resolves with every call made (also after a cancel).
+ */
+export async function runTournament(opts: TournamentOptions): Promise<TournamentProgress> {
+  const { rows, settings, scheduler } = opts;
+  const n = rows.length;
+  const cfg = pairConfig(opts.cfg, settings);
+  const rounds = tournamentRounds(settings, n);
+  const calls: PairCall[] = [];
+  const states: RowState[] = [];
+  const met = new Set<string>();
+  const byes = new Set<number>();
+  const seed = (i: number) => opts.seeds?.[i] ?? -Infinity;
+  let order = [...rows.keys()].sort((a, b) => seed(b) - seed(a) || a - b);
+  const publish = (round: number) => opts.onProgress({ round, rounds, calls: [...calls], states: [...states] });
+
+  const compare = async (round: number, first: number, second: number) => {
+    if (opts.isCancelled()) return;
+    const state = await evaluateRow(cfg, pairRow(opts.cfg, rows[first], rows[second]), newRowState(), opts);
+    states.push(state);
+    // Cancelled between retries: no verdict, but any usage still counts.
+    if (state.status !== "pending") calls.push({ round, first, second, verdict: pairVerdict(state) });
+    publish(round);
+  };
+
+  let round = 0;
+  while (round < rounds && !opts.isCancelled()) {
+    round++;
+    const { pairs, bye } = swissPairs(order, met, byes);
+    if (bye !== undefined) byes.add(bye);
+    const r = round;
+    await Promise.all(pairs.flatMap(([a, b]) => {
+      met.add(pairKey(a, b));
+      return [
+        scheduler.run(() => compare(r, a, b)),
+        ...(settings.swapOrder ? [scheduler.run(() => compare(r, b, a))] : []),
+      ];
+    }));
+    const strength = fitBradleyTerry(n, calls);
+    order = [...order].sort((a, b) => strength[b] - strength[a]);
+    publish(r);
+  }
+  return { round, rounds, calls, states };
+}
@@ -0,0 +1,199 @@
+/**
+ * PII redaction && reversible pseudonymization
+ * - Applied to every prompt a row sends (after rendering, so {{json}} && long-input chunks are covered too)
+ * - Detects e-mail addresses, URLs, phone numbers, ID numbers (IBAN, letter-prefixed ids, long digit runs) and the
+ *   values of configured name / organization columns wherever they occur in the prompt
+ * - Each distinct value gets a stable placeholder per row ([EMAIL_1], [AUTHOR_2], ...); the same value always maps to
+ *   the same placeholder, so the model can still refer to it
+ * - Placeholders in the model output are replaced with the original values again (JSON-escaped inside JSON output)
+ * - Only counts per kind are logged, never the values
+ */
+
+export interface RedactionSettings {
+  enabled: boolean;
+  emails: boolean;
+  urls: boolean;
+  phones: boolean;
+  ids: boolean;
+  /** Columns holding names or organizations; their values are replaced wherever they occur. */
+  columns: string[];
+  /** Put the original values back into the model output. */
+  restore: boolean;
+}
+
+export const DEFAULT_REDACTION: RedactionSettings = { enabled: false, emails: true, urls: true, phones: true, ids: true, columns: [], restore: true };
+
+interface Detector {
+  kind: string;
+  re: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+const digits = (s: string) => s.replace(/\D/g, "").length;
+
+// Order matters: earlier kinds win where matches overlap (a URL containing an e-mail address stays one URL,
+// an SSN-like 123-45-6789 is an ID rather than a phone number).
+const DETECTORS: Record<"emails" | "urls" | "ids" | "phones", Detector> = {
+  emails: { kind: "EMAIL", re: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  urls: { kind: "URL", re: /\b(?:https?:\/\/|www\.)[^\s<>"'`)\]]+[^\s<>"'`)\].,;:!?]/gi },
+  ids: { kind: "ID", re: /\b(?:[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?|[A-Z]{1,3}-?\d{6,12}|\d{3}-\d{2}-\d{4}|\d{9,})\b/g },
+  phones: {
+    kind: "PHONE",
+    re: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}\b/g,
+    // 8-15 digits with a leading + or separators; dates && year ranges are not phone numbers.
+    accept: m => {
+      const t = m.trim();
+      return digits(t) >= 8 && digits(t) <= 15 && /^\+|[\s.()-]/.test(t) && !/^\d{4}[-.]\d{2}[-.]\d{2}$|^\d{2}[-.]\d{2}[-.]\d{4}$|^(19|20)\d\d\s*-\s*(19|20)\d\d$/.test(t);
+    },
+  },
+};
+
+export function columnKind(column: string) {
+  return column.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "NAME";
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// A cell like "Jane Doe; ACME Ltd" holds several names.
+function columnValues(v: any) {
+  const s = String(v ?? "").trim();
+  if (!s) return [];
+  const parts = s.split(/\s*[;,\n]\s*/).map(p => p.trim()).filter(p => p.length >= 3);
+  return Array.from(new Set([s, ...parts])).sort((a, b) => b.length - a.length);
+}
+
+interface Span {
+  start: number;
+  end: number;
+  kind: string;
+  value: string;
+}
+
+export interface Redactor {
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+  restoreValue: <T>(v: T) => T;
+  /** Distinct values replaced so far, per kind (a value sent in several prompts counts once). */
+  counts: () => Record<string, number>;
+  /** Placeholder → original value, for the preview. */
+  entries: () => [string, string][];
+}
+
+/** A redactor for one row; placeholders stay stable across all prompts of that row. */
+export function createRedactor(settings: RedactionSettings, row: Record<string, any>): Redactor {
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, string>();
+  const perKind: Record<string, number> = {};
+  const placeholder = (kind: string, value: string) => {
+    const key = `${kind}\u0000${value.toLowerCase()}`;
+    let p = byValue.get(key);
+    if (!p) {
+      perKind[kind] = (perKind[kind] || 0) + 1;
+      p = `[${kind}_${perKind[kind]}]`;
+      byValue.set(key, p);
+      byPlaceholder.set(p, value);
+    }
+    return p;
+  };
+  const columnPatterns: Detector[] = settings.columns.flatMap(c => columnValues(row?.[c]).map(v => ({
+    kind: columnKind(c),
+    re: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(v)}(?![\\p{L}\\p{N}])`, "giu"),
+  })));
+  const detectors = (["emails", "urls", "ids", "phones"] as const).filter(k => settings[k]).map(k => DETECTORS[k]);
+
+  const redact = (text: string) => {
+    if (!settings.enabled || !text) return text;
+    const spans: Span[] = [];
+    const free = (start: number, end: number) => spans.every(s => end <= s.start || start >= s.end);
+    for (const d of [...columnPatterns, ...detectors]) {
+      for (const m of text.matchAll(d.re)) {
+        const start = m.index!, end = start + m[0].length;
+        if (d.accept && !d.accept(m[0])) continue;
+        if (free(start, end)) spans.push({ start, end, kind: d.kind, value: m[0] });
+      }
+    }
+    spans.sort((a, b) => a.start - b.start);
+    let out = "";
+    let last = 0;
+    for (const s of spans) {
+      out += text.slice(last, s.start) + placeholder(s.kind, s.value);
+      last = s.end;
+    }
+    return out + text.slice(last);
+  };
+
+  const restoreWith = (text: string, escape: (v: string) => string) =>
+    text.replace(/\[([A-Z0-9_]+)_(\d+)\]/g, (m) => byPlaceholder.has(m) ? escape(byPlaceholder.get(m)!) : m);
+
+  const restore = (text: string) => {
+    if (!settings.enabled || !settings.restore || !text || !byPlaceholder.size) return text;
+    // Inside JSON the values must stay valid string content.
+    const json = /^\s*(```[a-zA-Z]*\s*)?[[{]/.test(text);
+    return restoreWith(text, json ? v => JSON.stringify(v).slice(1, -1) : v => v);
+  };
+
+  const restoreValue = <T,>(v: T): T => {
+    if (!settings.enabled || !settings.restore || !byPlaceholder.size) return v;
+    if (typeof v === "string") return restoreWith(v, x => x) as any;
+    if (Array.isArray(v)) return v.map(restoreValue) as any;
+    if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, restoreValue(x)])) as any;
+    return v;
+  };
+
+  return { redact, restore, restoreValue, counts: () => ({ ...perKind }), entries: () => Array.from(byPlaceholder.entries()) };
+}
+
+export interface RedactionPreview {
+  redacted: string;
+  items: { placeholder: string; kind: string; value: string }[];
+  counts: Record<string, number>;
+}
+
+/** What `prompt` (rendered for `row`) would look like when sent. */
+export function previewRedaction(settings: RedactionSettings, row: Record<string, any>, prompt: string): RedactionPreview {
+  const r = createRedactor({ ...settings, enabled: true }, row);
+  const redacted = r.redact(prompt);
+  const items = r.entries().map(([placeholder, value]) => ({ placeholder, kind: placeholder.slice(1, placeholder.lastIndexOf("_")), value }));
+  return { redacted, items, counts: r.counts() };
+}
+
+/** Totals over a run: redacted values per kind && the number of rows with at least one. */
+export function redactionTotals(perRow: (Record<string, number> | undefined)[]) {
+  const totals: Record<string, number> = {};
+  let rows = 0;
+  for (const c of perRow) {
+    if (!c || !Object.keys(c).length) continue;
+    rows++;
+    for (const [k, n] of Object.entries(c)) totals[k] = (totals[k] || 0) + n;
+  }
+  return { totals, rows };
+}
+
+/** What a run redacts, e.g. "emails, phones, columns author, company; restored in output". */
+export function redactionLabel(settings: RedactionSettings) {
+  const kinds = (["emails", "urls", "phones", "ids"] as const).filter(k => settings[k]);
+  const cols = settings.columns.length ? [`columns ${settings.columns.join(", ")}`] : [];
+  return `${[...kinds, ...cols].join(", ") || "nothing"}; ${settings.restore ? "restored in output" : "placeholders kept in output"}`;
+}
+
+export function formatCounts(counts: Record<string, number>) {
+  const parts = Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([k, n]) => `${k.toLowerCase()} ${n}`);
+  return parts.length ? parts.join(", ") : "nothing";
+}
+
+/** The per-run compliance log: settings && counts per row, never the redacted values. */
+export function redactionLog(settings: RedactionSettings, perRow: (Record<string, number> | undefined)[], meta: { runId?: string; model?: string } = {}) {
+  const { totals, rows } = redactionTotals(perRow);
+  return {
+    generatedAt: new Date().toISOString(),
+    ...(meta.runId ? { runId: meta.runId } : {}),
+    ...(meta.model ? { model: meta.model } : {}),
+    redaction: redactionLabel(settings),
+    rowsEvaluated: perRow.filter(Boolean).length,
+    rowsWithRedactions: rows,
+    totals,
+    rows: perRow.flatMap((c, i) => c && Object.keys(c).length ? [{ row: i + 1, counts: c }] : []),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Content-addressed response cache
+ * - Key: SHA-256 over provider, endpoint, model, temperature, system prompt, the user prompt as sent (after
+ *   redaction), the structured-output schema (not its name, which follows the result column) && the consensus
+ *   sample index
+ * - A hit returns the stored output without a provider call && costs nothing; its usage is counted as saved
+ * - Entries live in IndexedDB ("responses") in the app; the CLI keeps them in a cache file
+ * - Export/import as one JSON file, so a teammate can replay a run offline with the same outputs
+ */
+import { ChatRequest, ChatResult, ProviderId, Usage } from "./providers";
+import { PriceTable, estimateCost } from "./pricing";
+import { openDb, txDone, withStore } from "./idb";
+
+export interface CacheSettings {
+  /** Look up && store responses. */
+  enabled: boolean;
+  /** Skip lookups for this run but still store the fresh responses. */
+  bypass: boolean;
+}
+
+export const DEFAULT_CACHE: CacheSettings = { enabled: true, bypass: false };
+
+export interface CacheEntry {
+  key: string;
+  providerId: ProviderId;
+  model: string;
+  createdAt: number;
+  /** Start of the user prompt, for inspection. */
+  promptStart: string;
+  content: string;
+  structured?: any;
+  usage: Usage;
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CacheEntry | undefined>;
+  put(entry: CacheEntry): Promise<void>;
+}
+
+/** Per-row cache counters, kept on the row state. */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Usage the hits would have cost, per model. */
+  saved: Record<string, Usage>;
+}
+
+export const CACHE_FORMAT = "llm-batch-evaluator/response-cache";
+export const CACHE_VERSION = 1;
+
+export class CacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CacheError";
+  }
+}
+
+function hex(buf: ArrayBuffer) {
+  return Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function cacheKey(providerId: ProviderId, baseUrl: string, req: ChatRequest) {
+  const material = JSON.stringify([
+    providerId, baseUrl || "", req.model, Number(req.temperature ?? 0.2), req.systemPrompt || "", req.userPrompt,
+    req.responseSchema?.schema ?? null, req.sample ?? null,
+  ]);
+  return hex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material)));
+}
+
+export function cacheEntry(key: string, providerId: ProviderId, req: ChatRequest, res: ChatResult): CacheEntry {
+  return {
+    key, providerId, model: req.model, createdAt: Date.now(), promptStart: req.userPrompt.slice(0, 200),
+    content: res.content, ...(res.structured !== undefined ? { structured: res.structured } : {}), usage: res.usage,
+  };
+}
+
+export function addCacheStats(a: CacheStats | undefined, hit: boolean, model: string, usage: Usage): CacheStats {
+  const s: CacheStats = a ? { hits: a.hits, misses: a.misses, saved: { ...a.saved } } : { hits: 0, misses: 0, saved: {} };
+  if (!hit) { s.misses++; return s; }
+  s.hits++;
+  const prev = s.saved[model];
+  s.saved[model] = { prompt_tokens: (prev?.prompt_tokens || 0) + usage.prompt_tokens, completion_tokens: (prev?.completion_tokens || 0) + usage.completion_tokens };
+  return s;
+}
+
+/** Hits, misses && the cost the hits saved, over all rows of a run. */
+export function summarizeCache(perRow: (CacheStats | undefined)[], prices: PriceTable) {
+  const out = { hits: 0, misses: 0, savedTokens: 0, savedUSD: 0 };
+  for (const s of perRow) {
+    if (!s) continue;
+    out.hits += s.hits;
+    out.misses += s.misses;
+    for (const [m, u] of Object.entries(s.saved)) {
+      out.savedTokens += u.prompt_tokens + u.completion_tokens;
+      out.savedUSD += estimateCost(prices, m, u.prompt_tokens, u.completion_tokens).totalUSD;
+    }
+  }
+  return out;
+}
+
+/** In-memory cache, for the CLI's cache file && for tests. */
+export class MemoryCache implements ResponseCache {
+  entries = new Map<string, CacheEntry>();
+
+  constructor(entries: CacheEntry[] = []) {
+    for (const e of entries) this.entries.set(e.key, e);
+  }
+
+  async get(key: string) { return this.entries.get(key); }
+  async put(entry: CacheEntry) { this.entries.set(entry.key, entry); }
+}
+
+export function toCacheFile(entries: CacheEntry[]) {
+  return { format: CACHE_FORMAT, version: CACHE_VERSION, exportedAt: new Date().toISOString(), entries };
+}
+
+export function parseCacheFile(text: string): CacheEntry[] {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch (e: any) {
+    throw new CacheError(`Not a JSON file (${e?.message || e}).`);
+  }
+  if (!value || value.format !== CACHE_FORMAT || !Array.isArray(value.entries)) throw new CacheError("Not a response cache file of this tool.");
+  if (Number(value.version) > CACHE_VERSION) throw new CacheError(`The cache file is version ${value.version}; this app reads up to version ${CACHE_VERSION}.`);
+  return value.entries.filter((e: any) => e && typeof e.key === "string" && /^[0-9a-f]{64}$/.test(e.key) && typeof e.content === "string")
+    .map((e: any) => ({ ...e, usage: { prompt_tokens: Number(e.usage?.prompt_tokens || 0), completion_tokens: Number(e.usage?.completion_tokens || 0) } }));
+}
+
+export const idbResponseCache: ResponseCache = {
+  async get(key) {
+    return withStore<CacheEntry>("responses", "readonly", store => store.get(key));
+  },
+  async put(entry) {
+    await withStore("responses", "readwrite", store => store.put(entry));
+  },
+};
+
+export async function listCacheEntries(): Promise<CacheEntry[]> {
+  const all = (await withStore<CacheEntry[]>("responses", "readonly", store => store.getAll())) || [];
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function clearCache() {
+  await withStore("responses", "readwrite", store => store.clear());
+}
+
+/** Adds the entries of an exported cache; returns how many were written. */
+export async function importCacheEntries(entries: CacheEntry[]) {
+  const db = await openDb();
+  const tx = db.transaction("responses", "readwrite");
+  const store = tx.objectStore("responses");
+  for (const e of entries) store.put(e);
+  await txDone(tx);
+  return entries.length;
+}
+
+export async function deleteCacheEntry(key: string) {
+  await withStore("responses", "readwrite", store => store.delete(key));
+}
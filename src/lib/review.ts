@@ -0,0 +1,173 @@
+/**
+ * Human review && override
+ * - A reviewer accepts the model's eval.score / eval.decision or overrides them, with a comment
+ * - Reviews are keyed by a hash of the source row, so they survive reloads, re-runs && re-imports of the same data;
+ *   they live in IndexedDB ("reviews")
+ * - Every verdict is appended to the row's audit trail (who, when, which fields changed from what to what)
+ * - The queue is every row, only flagged rows (invalid, failed, consensus.review, schema errors) or flagged plus
+ *   borderline scores
+ * - Table columns: review.* for the human values && final.score / final.decision (human if reviewed, else model)
+ */
+import { hashString } from "./providers";
+import { withStore } from "./idb";
+
+export type ReviewScope = "all" | "flagged" | "borderline";
+
+export interface ReviewSettings {
+  scope: ReviewScope;
+  /** Scores in [borderlineMin, borderlineMax] count as borderline. */
+  borderlineMin: number;
+  borderlineMax: number;
+}
+
+export const DEFAULT_REVIEW: ReviewSettings = { scope: "all", borderlineMin: 2.5, borderlineMax: 3.5 };
+
+export type ReviewVerdict = "accepted" | "overridden";
+
+export interface AuditEntry {
+  at: string;
+  reviewer: string;
+  action: ReviewVerdict;
+  /** Fields whose value differs from the one in effect before this entry. */
+  changes: { field: "score" | "decision"; from: any; to: any }[];
+  comment: string;
+}
+
+export interface ReviewRecord {
+  rowKey: string;
+  /** 1-based row number at the latest review. */
+  row: number;
+  status: ReviewVerdict;
+  score: number | null;
+  decision: string;
+  comment: string;
+  reviewer: string;
+  at: string;
+  /** Model values the reviewer saw. */
+  modelScore: any;
+  modelDecision: any;
+  /** Oldest first. */
+  trail: AuditEntry[];
+}
+
+export interface ReviewInput {
+  status: ReviewVerdict;
+  score: number | null;
+  decision: string;
+  comment: string;
+}
+
+export const REVIEW_COLUMNS = ["review.status", "review.score", "review.decision", "review.comment", "review.reviewer", "review.at", "final.score", "final.decision"];
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+/** Stable key of a source row (only the loaded columns, never results). */
+export function reviewKey(sourceRow: Record<string, any>) {
+  const json = JSON.stringify(sourceRow);
+  return `${hashString(json).toString(36)}-${json.length.toString(36)}`;
+}
+
+function num(v: any) {
+  if (v === "" || v === null || v === undefined) return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function isFlagged(row: Record<string, any>, resultKey: string) {
+  const res = row?.[resultKey];
+  return row?.["eval.valid"] === false
+    || (typeof res === "string" && res.startsWith("ERROR:"))
+    || row?.["consensus.review"] === true
+    || !!row?.["eval.errors"];
+}
+
+export function inReviewScope(row: Record<string, any>, resultKey: string, settings: ReviewSettings) {
+  if (settings.scope === "all") return true;
+  if (isFlagged(row, resultKey)) return true;
+  if (settings.scope === "flagged") return false;
+  const score = num(row?.["eval.score"]);
+  return score !== undefined && score >= settings.borderlineMin && score <= settings.borderlineMax;
+}
+
+/** Row indices to review, in table order; rows without an evaluation are left out. */
+export function reviewQueue(rows: Record<string, any>[], resultKey: string, settings: ReviewSettings) {
+  return rows.map((r, i) => r && r[resultKey] !== undefined && inReviewScope(r, resultKey, settings) ? i : -1).filter(i => i >= 0);
+}
+
+/** The record after one more verdict; changes are measured against the human values in effect, else the model's. */
+export function applyReview(prev: ReviewRecord | undefined, input: ReviewInput, ctx: { rowKey: string; row: number; reviewer: string; model: Record<string, any>; at?: Date }): ReviewRecord {
+  const reviewer = ctx.reviewer.trim();
+  if (!reviewer) throw new ReviewError("Enter your name as reviewer first.");
+  if (input.status === "overridden" && !input.comment.trim()) throw new ReviewError("An override needs a comment.");
+  const modelScore = num(ctx.model["eval.score"]) ?? null;
+  const modelDecision = ctx.model["eval.decision"] == null ? "" : String(ctx.model["eval.decision"]);
+  const score = input.status === "accepted" ? modelScore : input.score;
+  const decision = input.status === "accepted" ? modelDecision : input.decision.trim();
+  const before = prev ? { score: prev.score, decision: prev.decision } : { score: modelScore, decision: modelDecision };
+  const changes: AuditEntry["changes"] = [];
+  if (before.score !== score) changes.push({ field: "score", from: before.score, to: score });
+  if (before.decision !== decision) changes.push({ field: "decision", from: before.decision, to: decision });
+  const at = (ctx.at || new Date()).toISOString();
+  const comment = input.comment.trim();
+  return {
+    rowKey: ctx.rowKey, row: ctx.row, status: input.status, score, decision, comment, reviewer, at,
+    modelScore: ctx.model["eval.score"] ?? "", modelDecision: ctx.model["eval.decision"] ?? "",
+    trail: [...(prev?.trail || []), { at, reviewer, action: input.status, changes, comment }],
+  };
+}
+
+/** review.* && final.* columns of a row; final.* falls back to the model values while unreviewed. */
+export function reviewColumns(rec: ReviewRecord | undefined, row: Record<string, any>) {
+  return {
+    "review.status": rec?.status ?? "",
+    "review.score": rec?.score ?? "",
+    "review.decision": rec?.decision ?? "",
+    "review.comment": rec?.comment ?? "",
+    "review.reviewer": rec?.reviewer ?? "",
+    "review.at": rec?.at ?? "",
+    "final.score": rec ? rec.score ?? "" : row?.["eval.score"] ?? "",
+    "final.decision": rec ? rec.decision : row?.["eval.decision"] ?? "",
+  };
+}
+
+/** Every audit entry of every record, oldest first, one line per entry. */
+export function auditRows(records: ReviewRecord[]) {
+  return records
+    .flatMap(r => r.trail.map(e => ({
+      at: e.at,
+      reviewer: e.reviewer,
+      row: r.row,
+      row_key: r.rowKey,
+      action: e.action,
+      changes: e.changes.map(c => `${c.field}: ${c.from === null || c.from === "" ? "–" : c.from} → ${c.to === null || c.to === "" ? "–" : c.to}`).join("; "),
+      comment: e.comment,
+    })))
+    .sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export async function loadReviews(): Promise<ReviewRecord[]> {
+  return (await withStore<ReviewRecord[]>("reviews", "readonly", store => store.getAll())) || [];
+}
+
+export async function saveReview(rec: ReviewRecord) {
+  await withStore("reviews", "readwrite", store => store.put(rec));
+}
+
+const REVIEWER_KEY = "llm-batch-evaluator.reviewer";
+
+export function loadReviewer() {
+  try {
+    return localStorage.getItem(REVIEWER_KEY) || "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveReviewer(name: string) {
+  localStorage.setItem(REVIEWER_KEY, name);
+}
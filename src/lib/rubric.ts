@@ -0,0 +1,158 @@
+/**
+ * Weighted multi-criterion rubrics
+ * - A rubric renders into the prompt (via {{rubric}}) && into the expected output schema
+ * - The model returns { criteria: { <key>: { score, justification } }, summary, decision }
+ * - Scores are normalized per criterion scale, weighted, and reported on 0..totalMax
+ * - Named rubrics are saved in localStorage for reuse across calls
+ */
+import { JsonSchema } from "./schema";
+
+export interface RubricCriterion {
+  key: string;
+  name: string;
+  description: string;
+  min: number;
+  max: number;
+  weight: number;
+  /** One anchor per line, e.g. "0: no innovation" / "5: breakthrough". */
+  anchors: string;
+}
+
+export interface Rubric {
+  name: string;
+  criteria: RubricCriterion[];
+  /** Upper end of the weighted total (lower end is 0). */
+  totalMax: number;
+}
+
+export const DEFAULT_RUBRIC: Rubric = {
+  name: "Default (4 criteria)",
+  totalMax: 5,
+  criteria: [
+    { key: "innovation", name: "Innovation", description: "Novelty of the approach compared to existing solutions.", min: 0, max: 5, weight: 1, anchors: "0: nothing new\n3: incremental improvement\n5: clearly novel approach" },
+    { key: "feasibility", name: "Feasibility", description: "Technical and organisational realism of the plan.", min: 0, max: 5, weight: 1, anchors: "0: not implementable\n3: plausible with gaps\n5: detailed and realistic" },
+    { key: "impact", name: "Impact", description: "Expected economic, social or environmental benefit.", min: 0, max: 5, weight: 1, anchors: "0: no measurable impact\n3: moderate, local impact\n5: large, well-evidenced impact" },
+    { key: "sustainability", name: "Sustainability", description: "Likelihood the results last beyond the funding period.", min: 0, max: 5, weight: 1, anchors: "0: ends with funding\n3: partial continuation plan\n5: credible long-term model" },
+  ],
+};
+
+export function criterionKey(name: string) {
+  return (name || "").toLowerCase().trim().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "criterion";
+}
+
+/** Text block substituted for {{rubric}} in the user prompt. */
+export function rubricPromptSection(rubric: Rubric) {
+  const lines = ["Score the submission on each criterion below, using the full scale and the anchors as reference points."];
+  for (const c of rubric.criteria) {
+    lines.push("", `- ${c.name} (key "${c.key}", integer ${c.min}-${c.max}, weight ${c.weight}): ${c.description}`);
+    for (const a of (c.anchors || "").split("\n").map(s => s.trim()).filter(Boolean)) lines.push(`    ${a}`);
+  }
+  lines.push(
+    "",
+    "Return JSON of the form:",
+    JSON.stringify({
+      criteria: Object.fromEntries(rubric.criteria.map(c => [c.key, { score: c.min, justification: "..." }])),
+      summary: "...",
+      decision: "Go | No-Go",
+    }, null, 2),
+  );
+  return lines.join("\n");
+}
+
+/** Expands {{rubric}} in a prompt template, appending the section when the template does not reference it. */
+export function withRubric(template: string, rubric: Rubric) {
+  const section = rubricPromptSection(rubric);
+  const re = /\{\{\s*rubric\s*\}\}/g;
+  return re.test(template) ? template.replace(re, () => section) : `${template}\n\n${section}`;
+}
+
+export function rubricSchema(rubric: Rubric): JsonSchema {
+  const keys = rubric.criteria.map(c => c.key);
+  return {
+    type: "object",
+    properties: {
+      criteria: {
+        type: "object",
+        properties: Object.fromEntries(rubric.criteria.map(c => [c.key, {
+          type: "object",
+          properties: {
+            score: { type: "integer", minimum: c.min, maximum: c.max },
+            justification: { type: "string" },
+          },
+          required: ["score", "justification"],
+          additionalProperties: false,
+        }])),
+        required: keys,
+        additionalProperties: false,
+      },
+      summary: { type: "string" },
+      decision: { type: "string", enum: ["Go", "No-Go"] },
+    },
+    required: ["criteria", "summary", "decision"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Per-criterion scores && weighted total. Criteria with a missing or out-of-range score are
+ * left out of the total; if none are usable the total is undefined.
+ */
+export function scoreRubric(rubric: Rubric, value: any) {
+  const scores: Record<string, number | undefined> = {};
+  let weighted = 0;
+  let weights = 0;
+  for (const c of rubric.criteria) {
+    const raw = value?.criteria?.[c.key];
+    const n = Number(typeof raw === "object" && raw !== null ? raw.score : raw);
+    const ok = raw !== undefined && raw !== null && Number.isFinite(n) && n >= c.min && n <= c.max;
+    scores[c.key] = ok ? n : undefined;
+    if (ok && c.max > c.min && c.weight > 0) {
+      weighted += c.weight * ((n - c.min) / (c.max - c.min));
+      weights += c.weight;
+    }
+  }
+  const total = weights > 0 ? Math.round((weighted / weights) * rubric.totalMax * 100) / 100 : undefined;
+  return { scores, total };
+}
+
+export function rubricColumns(rubric: Rubric) {
+  return [...rubric.criteria.map(c => `eval.${c.key}`), "eval.weighted_total"];
+}
+
+/** eval.* columns the evaluator writes itself; a criterion with one of these keys would overwrite them. */
+export const RESERVED_CRITERION_KEYS = ["valid", "score", "decision", "errors", "repaired", "weighted_total"];
+
+/** Why the criteria keys cannot be used as eval.* columns (duplicate or reserved keys), or "". */
+export function rubricKeyProblem(rubric: Rubric) {
+  const keys = rubric.criteria.map(c => c.key);
+  const duplicates = Array.from(new Set(keys.filter((k, i) => keys.indexOf(k) !== i)));
+  if (duplicates.length) return `Rubric criteria share the column key ${duplicates.map(k => `"${k}"`).join(", ")}; give each criterion its own key.`;
+  const reserved = keys.find(k => RESERVED_CRITERION_KEYS.includes(k));
+  if (reserved) return `Rubric key "${reserved}" would overwrite eval.${reserved}; rename the criterion (reserved keys: ${RESERVED_CRITERION_KEYS.join(", ")}).`;
+  return "";
+}
+
+const STORAGE_KEY = "llm-batch-evaluator.rubrics";
+
+export function loadSavedRubrics(): Rubric[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRubric(rubric: Rubric): Rubric[] {
+  const list = loadSavedRubrics().filter(r => r.name !== rubric.name);
+  list.push(rubric);
+  list.sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  return list;
+}
+
+export function deleteSavedRubric(name: string): Rubric[] {
+  const list = loadSavedRubrics().filter(r => r.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  return list;
+}
@@ -0,0 +1,172 @@
+/**
+ * Persisted run state
+ * - A run record holds the source rows && the settings the run was started with (never the API key)
+ * - Each row's progress lives in its own record so a finished row costs one small write
+ * - "running" rows found on load were interrupted mid-request and are treated as pending again
+ * - Every provider call of a row is kept in its history (prompt as sent, raw response, timing, status, usage)
+ */
+import { ProviderId, Usage } from "./providers";
+import { JsonSchema } from "./schema";
+import { Rubric } from "./rubric";
+import { ConsensusSample, ConsensusSettings } from "./consensus";
+import { ChunkNote, LongInputSettings } from "./chunking";
+import { DedupeSettings } from "./dedupe";
+import { RedactionSettings } from "./redaction";
+import { CacheStats } from "./responseCache";
+import { openDb, promisify, txDone, withStore } from "./idb";
+
+export type RowStatus = "pending" | "running" | "done" | "failed";
+
+/** One provider call of a row, successful or not. */
+export interface AttemptRecord {
+  /** The evaluation call, its schema repair, a long-input map step, or a result imported from a Batch API file. */
+  purpose: "evaluate" | "repair" | "map" | "batch";
+  model: string;
+  /** Consensus sample index. */
+  sample?: number;
+  startedAt: number;
+  ms: number;
+  outcome: "ok" | "cached" | "error";
+  /** HTTP status of a failed call, when the provider reported one. */
+  httpStatus?: number;
+  error?: string;
+  systemPrompt: string;
+  /** The user prompt as sent, i.e. after redaction. */
+  userPrompt: string;
+  /** Response as received (placeholders of redacted values not yet restored). */
+  raw?: string;
+  usage?: Usage;
+}
+
+export interface RowState {
+  status: RowStatus;
+  attempts: number;
+  raw?: string;
+  /** Output of the schema repair round-trip, if one was made. */
+  repairRaw?: string;
+  error?: string;
+  usage?: Usage;
+  /** Usage split by model, for pricing runs that call several models. */
+  usageByModel?: Record<string, Usage>;
+  /** Usage of Batch API results by model, billed at BATCH_DISCOUNT; not part of usageByModel. */
+  batchUsage?: Record<string, Usage>;
+  /** Individual samples of a consensus run. */
+  samples?: ConsensusSample[];
+  /** Map step of a long-input row; finished chunks are reused on Resume. */
+  chunks?: ChunkNote[];
+  /** Values pseudonymized before sending, per kind (counts only, for the redaction log). */
+  redactions?: Record<string, number>;
+  /** Calls served from the response cache && the usage they saved. */
+  cache?: CacheStats;
+  /** Every provider call, oldest first; kept across re-runs of the row. */
+  history?: AttemptRecord[];
+  /** Source row plus the derived result columns, as shown in the table. */
+  result?: Record<string, any>;
+}
+
+export interface RunConfig {
+  providerId: ProviderId;
+  baseUrl: string;
+  apiVersion: string;
+  model: string;
+  temperature: number;
+  systemPrompt: string;
+  userPrompt: string;
+  textCol: string;
+  resultKey: string;
+  maxRetries: number;
+  /** Schema every output is validated against; null when validation is off. */
+  outputSchema: JsonSchema | null;
+  repair: boolean;
+  /** Schema sent as provider-native structured output; null for prompted JSON. */
+  responseSchema: JsonSchema | null;
+  rubric: Rubric | null;
+  consensus: ConsensusSettings | null;
+  /** Columns withheld from the prompt (gold labels for calibration). */
+  hiddenColumns: string[];
+  /** Map-reduce for oversized rows; absent in runs saved before it existed. */
+  longInput?: LongInputSettings | null;
+  /** Near-duplicate handling; absent in runs saved before it existed. */
+  dedupe?: DedupeSettings | null;
+  /** PII redaction of the prompts; absent in runs saved before it existed. */
+  redaction?: RedactionSettings | null;
+}
+
+export interface RunRecord {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  status: "running" | "paused" | "done";
+  config: RunConfig;
+  columns: string[];
+  sourceRows: Record<string, any>[];
+}
+
+export function newRowState(): RowState {
+  return { status: "pending", attempts: 0 };
+}
+
+/** A finished row queued again; its history && usage stay, so earlier attempts remain visible && counted in the cost. */
+export function rerunRowState(prev: RowState): RowState {
+  const { attempts, usage, usageByModel, batchUsage, cache, history, redactions } = prev;
+  return { status: "pending", attempts, usage, usageByModel, batchUsage, cache, history, redactions };
+}
+
+export function summarizeRowStates(states: RowState[]) {
+  const counts = { pending: 0, running: 0, done: 0, failed: 0 };
+  for (const s of states) counts[s.status]++;
+  return counts;
+}
+
+export async function saveRun(run: RunRecord) {
+  await withStore("runs", "readwrite", store => store.put({ ...run, updatedAt: Date.now() }));
+}
+
+export async function updateRunStatus(runId: string, status: RunRecord["status"]) {
+  const db = await openDb();
+  const tx = db.transaction("runs", "readwrite");
+  const store = tx.objectStore("runs");
+  const run = await promisify<RunRecord | undefined>(store.get(runId));
+  if (run) store.put({ ...run, status, updatedAt: Date.now() });
+  await txDone(tx);
+}
+
+export async function saveRowState(runId: string, idx: number, state: RowState) {
+  await withStore("rowStates", "readwrite", store => store.put({ ...state, runId, idx }));
+}
+
+export async function loadRun(runId: string): Promise<{ run: RunRecord; states: RowState[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction(["runs", "rowStates"], "readonly");
+  const run = await promisify<RunRecord | undefined>(tx.objectStore("runs").get(runId));
+  if (!run) return null;
+  const saved = await promisify<any[]>(tx.objectStore("rowStates").index("runId").getAll(runId));
+  const states = run.sourceRows.map(() => newRowState());
+  for (const { runId: _r, idx, ...s } of saved) {
+    if (idx >= 0 && idx < states.length) states[idx] = s.status === "running" ? { ...s, status: "pending" } : s;
+  }
+  return { run, states };
+}
+
+/** Most recently touched run that did not finish, if any. */
+export async function loadInterruptedRun() {
+  const runs = (await withStore<RunRecord[]>("runs", "readonly", store => store.getAll())) || [];
+  const latest = runs.filter(r => r.status !== "done").sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  return latest ? loadRun(latest.id) : null;
+}
+
+export async function deleteRun(runId: string) {
+  const db = await openDb();
+  const tx = db.transaction(["runs", "rowStates"], "readwrite");
+  tx.objectStore("runs").delete(runId);
+  tx.objectStore("rowStates").delete(IDBKeyRange.bound([runId, -Infinity], [runId, Infinity]));
+  await txDone(tx);
+}
+
+export async function deleteAllRuns() {
+  const db = await openDb();
+  const tx = db.transaction(["runs", "rowStates"], "readwrite");
+  tx.objectStore("runs").clear();
+  tx.objectStore("rowStates").clear();
+  await txDone(tx);
+}
@@ -0,0 +1,180 @@
+/**
+ * Adaptive request scheduler
+ * - Rows run in concurrency slots whose limit adapts AIMD-style: halved on a 429, +1 after a window of successes
+ * - Every provider call first waits for the requests-per-minute && tokens-per-minute budgets (sliding 60s window)
+ * - Retry-After && x-ratelimit-* headers pause all calls until the server's reset time
+ * - Retries back off exponentially with jitter; the caller decides what is retryable (see `isRetryable`)
+ */
+import { RateLimitInfo } from "./providers";
+
+export interface SchedulerSettings {
+  /** Upper bound for concurrent rows; also the starting limit. */
+  maxConcurrency: number;
+  /** Requests per minute; 0 = no limit. */
+  rpm: number;
+  /** Tokens per minute (prompt + expected completion); 0 = no limit. */
+  tpm: number;
+}
+
+export const DEFAULT_SCHEDULER: SchedulerSettings = { maxConcurrency: 3, rpm: 0, tpm: 0 };
+
+export interface SchedulerStats {
+  limit: number;
+  inFlight: number;
+  waiting: number;
+  throttled: number;
+  pausedUntil: number;
+}
+
+/** A call counted against the per-minute budgets. */
+export interface CallTicket {
+  at: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+// Several in-flight calls hitting one 429 burst should halve the limit once, not once each.
+const DECREASE_COOLDOWN_MS = 2_000;
+
+/** Exponential backoff with equal jitter; a server-provided Retry-After wins when it is longer. */
+export function backoffDelay(failures: number, retryAfterMs?: number, baseMs = 500, capMs = 30_000, rand = Math.random) {
+  const exp = Math.min(capMs, baseMs * 2 ** Math.max(0, failures - 1));
+  const jittered = exp / 2 + rand() * exp / 2;
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/** Sleeps in short steps so a pause is noticed; resolves false when cancelled. */
+export async function waitFor(ms: number, isCancelled: () => boolean = () => false) {
+  const until = Date.now() + ms;
+  while (Date.now() < until) {
+    if (isCancelled()) return false;
+    await new Promise(res => setTimeout(res, Math.min(250, until - Date.now())));
+  }
+  return !isCancelled();
+}
+
+export class AdaptiveScheduler {
+  settings: SchedulerSettings;
+  limit: number;
+  private inFlight = 0;
+  private queue: (() => void)[] = [];
+  private calls: CallTicket[] = [];
+  private successStreak = 0;
+  private lastDecrease = 0;
+  private throttled = 0;
+  private pausedUntil = 0;
+  // Running average of tokens per call, used when the server reports a low token budget.
+  private avgTokens = 0;
+  private listener?: (stats: SchedulerStats) => void;
+  private clock: () => number;
+
+  /** `clock` stamps the counted calls && defaults the `now` arguments; tests pass a fake one. */
+  constructor(settings: SchedulerSettings, listener?: (stats: SchedulerStats) => void, clock: () => number = Date.now) {
+    this.settings = settings;
+    this.limit = Math.max(1, settings.maxConcurrency);
+    this.listener = listener;
+    this.clock = clock;
+  }
+
+  stats(): SchedulerStats {
+    return { limit: this.limit, inFlight: this.inFlight, waiting: this.queue.length, throttled: this.throttled, pausedUntil: this.pausedUntil };
+  }
+
+  private notify() { this.listener?.(this.stats()); }
+
+  private dispatch() {
+    while (this.inFlight < this.limit && this.queue.length) {
+      this.inFlight++;
+      this.queue.shift()!();
+    }
+    this.notify();
+  }
+
+  /** Runs `task` in a concurrency slot. */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>(resolve => { this.queue.push(resolve); this.dispatch(); });
+    try {
+      return await task();
+    } finally {
+      this.inFlight--;
+      this.dispatch();
+    }
+  }
+
+  private prune(now: number) {
+    while (this.calls.length && this.calls[0].at <= now - WINDOW_MS) this.calls.shift();
+  }
+
+  /** Milliseconds until a call of `tokens` fits the budgets; 0 = now. */
+  delayFor(tokens: number, now = this.clock()) {
+    this.prune(now);
+    let wait = Math.max(0, this.pausedUntil - now);
+    const { rpm, tpm } = this.settings;
+    if (rpm > 0 && this.calls.length >= rpm) {
+      wait = Math.max(wait, this.calls[this.calls.length - rpm].at + WINDOW_MS - now);
+    }
+    if (tpm > 0 && this.calls.length) {
+      // Oldest calls leave the window first; find when enough tokens have left. A single call larger than
+      // the whole budget still goes through once the window is empty.
+      let used = this.calls.reduce((a, c) => a + c.tokens, 0);
+      for (let i = 0; i < this.calls.length && used + tokens > tpm; i++) {
+        used -= this.calls[i].tokens;
+        wait = Math.max(wait, this.calls[i].at + WINDOW_MS - now);
+      }
+    }
+    return wait;
+  }
+
+  /** Waits until a call of `tokens` fits the budgets, then counts it; null when cancelled while waiting. */
+  async acquire(tokens: number, isCancelled: () => boolean = () => false): Promise<CallTicket | null> {
+    for (;;) {
+      if (isCancelled()) return null;
+      const wait = this.delayFor(tokens);
+      if (wait <= 0) break;
+      if (!await waitFor(wait, isCancelled)) return null;
+    }
+    const ticket = { at: this.clock(), tokens };
+    this.calls.push(ticket);
+    return ticket;
+  }
+
+  /** Replaces the estimate in `ticket` with the tokens the call actually used. */
+  settle(ticket: CallTicket, tokens: number) {
+    if (tokens > 0) ticket.tokens = tokens;
+    this.avgTokens = this.avgTokens ? this.avgTokens * 0.9 + ticket.tokens * 0.1 : ticket.tokens;
+  }
+
+  /** Applies the server's view of the budget: pause until reset when it is (nearly) used up. */
+  observe(info: RateLimitInfo | undefined, now = this.clock()) {
+    if (!info) return;
+    let pause = info.retryAfterMs ?? 0;
+    if (info.remainingRequests !== undefined && info.remainingRequests <= 0) pause = Math.max(pause, info.resetRequestsMs ?? 1000);
+    if (info.remainingTokens !== undefined && info.remainingTokens < Math.max(1, this.avgTokens)) pause = Math.max(pause, info.resetTokensMs ?? 1000);
+    if (pause > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, now + pause);
+      this.notify();
+    }
+  }
+
+  /** Multiplicative decrease after a 429. */
+  onThrottle(info?: RateLimitInfo, now = this.clock()) {
+    this.throttled++;
+    this.successStreak = 0;
+    if (now - this.lastDecrease >= DECREASE_COOLDOWN_MS) {
+      this.limit = Math.max(1, Math.floor(this.limit / 2));
+      this.lastDecrease = now;
+    }
+    this.observe(info, now);
+    this.notify();
+  }
+
+  /** Additive increase: one more slot after `limit` consecutive successes, up to the configured maximum. */
+  onSuccess() {
+    this.successStreak++;
+    if (this.successStreak >= this.limit && this.limit < this.settings.maxConcurrency) {
+      this.limit++;
+      this.successStreak = 0;
+      this.dispatch();
+    }
+  }
+}
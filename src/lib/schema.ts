@@ -0,0 +1,177 @@
+/**
+ * Output schema validation
+ * - Small JSON Schema subset: type (incl. integer), properties, required, additionalProperties: false,
+ *   enum, minimum/maximum, minLength/maxLength, items, minItems/maxItems
+ * - Form-built fields are compiled to the same JSON Schema, so there is one validation path
+ * - Errors carry a JSON-pointer-like path so they can be shown per field
+ */
+
+export type JsonSchema = Record<string, any>;
+
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export type FieldType = "string" | "integer" | "number" | "boolean" | "enum" | "string[]";
+
+export interface SchemaField {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  min?: number;
+  max?: number;
+  /** Comma-separated allowed values for `enum` fields. */
+  options?: string;
+  description?: string;
+}
+
+export interface OutputSchemaSettings {
+  mode: "form" | "json";
+  fields: SchemaField[];
+  json: string;
+  validate: boolean;
+  repair: boolean;
+  /** Send the schema through the provider's structured-output support instead of scraping JSON from text. */
+  structured: boolean;
+}
+
+export const DEFAULT_SCHEMA_FIELDS: SchemaField[] = [
+  { name: "score", type: "integer", required: true, min: 0, max: 5 },
+  { name: "summary", type: "string", required: true },
+  { name: "strengths", type: "string[]", required: false },
+  { name: "risks", type: "string[]", required: false },
+  { name: "decision", type: "enum", required: true, options: "Go, No-Go" },
+];
+
+export function fieldsToSchema(fields: SchemaField[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const f of fields) {
+    const name = (f.name || "").trim();
+    if (!name) continue;
+    let prop: JsonSchema;
+    switch (f.type) {
+      case "integer":
+      case "number":
+        prop = { type: f.type };
+        if (Number.isFinite(f.min)) prop.minimum = f.min;
+        if (Number.isFinite(f.max)) prop.maximum = f.max;
+        break;
+      case "enum":
+        prop = { type: "string", enum: (f.options || "").split(",").map(o => o.trim()).filter(Boolean) };
+        break;
+      case "string[]":
+        prop = { type: "array", items: { type: "string" } };
+        if (Number.isFinite(f.min)) prop.minItems = f.min;
+        if (Number.isFinite(f.max)) prop.maxItems = f.max;
+        break;
+      case "boolean":
+        prop = { type: "boolean" };
+        break;
+      default:
+        prop = { type: "string" };
+        if (Number.isFinite(f.min)) prop.minLength = f.min;
+        if (Number.isFinite(f.max)) prop.maxLength = f.max;
+    }
+    if (f.description) prop.description = f.description;
+    properties[name] = prop;
+    if (f.required) required.push(name);
+  }
+  return { type: "object", properties, required, additionalProperties: false };
+}
+
+export const DEFAULT_OUTPUT_SCHEMA: OutputSchemaSettings = {
+  mode: "form",
+  fields: DEFAULT_SCHEMA_FIELDS,
+  json: JSON.stringify(fieldsToSchema(DEFAULT_SCHEMA_FIELDS), null, 2),
+  validate: false,
+  repair: false,
+  structured: false,
+};
+
+/** The schema currently in effect, or a parse error for hand-written JSON Schema. */
+export function resolveSchema(settings: OutputSchemaSettings): { ok: true; schema: JsonSchema } | { ok: false; error: string } {
+  if (settings.mode === "form") return { ok: true, schema: fieldsToSchema(settings.fields) };
+  try {
+    const schema = JSON.parse(settings.json);
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) return { ok: false, error: "Schema must be a JSON object" };
+    return { ok: true, schema };
+  } catch (e: any) {
+    return { ok: false, error: e?.message || String(e) };
+  }
+}
+
+function typeOf(v: any) {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number" && Number.isInteger(v)) return "integer";
+  return typeof v;
+}
+
+function matchesType(v: any, type: string) {
+  const t = typeOf(v);
+  if (type === "number") return t === "number" || t === "integer";
+  return t === type;
+}
+
+export function validateJson(value: any, schema: JsonSchema, path = ""): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const at = path || "/";
+  if (!schema || typeof schema !== "object") return errors;
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push({ path: at, message: `expected ${types.join(" or ")}, got ${typeOf(value)}` });
+      return errors;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push({ path: at, message: `must be one of ${schema.enum.map((e: any) => JSON.stringify(e)).join(", ")}` });
+  }
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+    if (typeof schema.maximum === "number" && value > schema.maximum) errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+  }
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) errors.push({ path: at, message: `must have at least ${schema.minLength} characters` });
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) errors.push({ path: at, message: `must have at most ${schema.maxLength} characters` });
+  }
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) errors.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) errors.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+    if (schema.items) value.forEach((item, i) => errors.push(...validateJson(item, schema.items, `${path}/${i}`)));
+  }
+  if (typeOf(value) === "object") {
+    const props: Record<string, JsonSchema> = schema.properties || {};
+    for (const req of schema.required || []) {
+      if (value[req] === undefined) errors.push({ path: `${path}/${req}`, message: "is required" });
+    }
+    for (const [k, v] of Object.entries(value)) {
+      if (props[k]) errors.push(...validateJson(v, props[k], `${path}/${k}`));
+      else if (schema.additionalProperties === false) errors.push({ path: `${path}/${k}`, message: "is not allowed" });
+    }
+  }
+  return errors;
+}
+
+export function formatSchemaErrors(errors: SchemaError[]) {
+  return errors.map(e => `${e.path}: ${e.message}`).join("; ");
+}
+
+/** Follow-up prompt that hands the validation errors back to the model. */
+export function buildRepairPrompt(originalPrompt: string, raw: string, problem: string, schema: JsonSchema) {
+  return [
+    originalPrompt,
+    "",
+    "---",
+    "Your previous response was:",
+    raw,
+    "",
+    `It does not satisfy the required output format: ${problem}`,
+    "",
+    "Return ONLY corrected JSON that validates against this JSON Schema, with no commentary:",
+    JSON.stringify(schema, null, 2),
+  ].join("\n");
+}
@@ -0,0 +1,268 @@
+/**
+ * Prompt template language
+ * - {{column}} / {{submission}} / {{json}}: plain substitution; unknown columns render empty (the linter reports them)
+ * - Filters: {{column | trim | truncate:2000 | upper | lower | default:"n/a" | json | escape}}
+ * - Blocks: {{#if column}}...{{else}}...{{/if}}, {{#unless column}}...{{/unless}} (a value counts when it is not blank)
+ * - Loops: {{#each "Q*"}}{{@key}}: {{@value}}{{/each}} over the columns matching a glob, with {{@index}} (1-based)
+ * - Escaping: \{{ renders a literal {{
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+interface Filter {
+  name: string;
+  arg?: string;
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; name: string; filters: Filter[] }
+  | { type: "if"; name: string; negate: boolean; then: Node[]; else: Node[] }
+  | { type: "each"; pattern: string; body: Node[] };
+
+const FILTERS = ["trim", "truncate", "upper", "lower", "default", "json", "escape"];
+
+function unquote(s: string) {
+  const t = s.trim();
+  if (t.length >= 2 && (t[0] === '"' || t[0] === "'") && t[t.length - 1] === t[0]) return t.slice(1, -1);
+  return t;
+}
+
+// Splits on `sep` outside quotes.
+function splitOutsideQuotes(s: string, sep: string) {
+  const parts: string[] = [];
+  let cur = "";
+  let quote = "";
+  for (const ch of s) {
+    if (quote) { if (ch === quote) quote = ""; cur += ch; continue; }
+    if (ch === '"' || ch === "'") { quote = ch; cur += ch; continue; }
+    if (ch === sep) { parts.push(cur); cur = ""; continue; }
+    cur += ch;
+  }
+  parts.push(cur);
+  return parts;
+}
+
+function parseVar(expr: string): Node {
+  const [name, ...rest] = splitOutsideQuotes(expr, "|");
+  const filters = rest.map(f => {
+    const i = f.indexOf(":");
+    const filter: Filter = i < 0 ? { name: f.trim() } : { name: f.slice(0, i).trim(), arg: unquote(f.slice(i + 1)) };
+    if (!FILTERS.includes(filter.name)) throw new TemplateError(`Unknown filter "${filter.name}" in {{${expr}}}.`);
+    if (filter.name === "truncate" && !(Number(filter.arg) > 0)) throw new TemplateError(`truncate needs a positive length, e.g. truncate:2000.`);
+    return filter;
+  });
+  return { type: "var", name: name.trim(), filters };
+}
+
+const TAG = /\\\{\{|\{\{([\s\S]*?)\}\}/g;
+
+export function parseTemplate(tpl: string): Node[] {
+  const root: Node[] = [];
+  // Open blocks; `target` is the list new nodes go into (the else branch after {{else}}).
+  const stack: { node: Extract<Node, { type: "if" | "each" }>; target: Node[] }[] = [];
+  const out = () => stack.length ? stack[stack.length - 1].target : root;
+  let last = 0;
+  for (const m of tpl.matchAll(TAG)) {
+    if (m.index! > last) out().push({ type: "text", value: tpl.slice(last, m.index) });
+    last = m.index! + m[0].length;
+    if (m[0] === "\\{{") { out().push({ type: "text", value: "{{" }); continue; }
+    const expr = m[1].trim();
+    if (!expr) throw new TemplateError("Empty {{ }} tag.");
+    const block = /^#(if|unless|each)\s+([\s\S]+)$/.exec(expr);
+    if (block) {
+      const arg = block[2].trim();
+      const node: Extract<Node, { type: "if" | "each" }> = block[1] === "each"
+        ? { type: "each", pattern: unquote(arg), body: [] }
+        : { type: "if", name: unquote(arg), negate: block[1] === "unless", then: [], else: [] };
+      out().push(node);
+      stack.push({ node, target: node.type === "each" ? node.body : node.then });
+    } else if (expr === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== "if" || top.target === top.node.else) throw new TemplateError("{{else}} outside of {{#if}}.");
+      top.target = top.node.else;
+    } else if (/^\/(if|unless|each)$/.test(expr)) {
+      const top = stack.pop();
+      const kind = expr.slice(1);
+      const open = top && (top.node.type === "each" ? "each" : top.node.negate ? "unless" : "if");
+      if (open !== kind) throw new TemplateError(`{{${expr}}} without a matching {{#${kind}}}.`);
+    } else if (expr.startsWith("#") || expr.startsWith("/")) {
+      throw new TemplateError(`Unknown block {{${expr}}}.`);
+    } else {
+      out().push(parseVar(expr));
+    }
+  }
+  if (last < tpl.length) out().push({ type: "text", value: tpl.slice(last) });
+  if (stack.length) {
+    const n = stack[stack.length - 1].node;
+    throw new TemplateError(`{{#${n.type === "each" ? "each" : n.negate ? "unless" : "if"}}} is not closed.`);
+  }
+  return root;
+}
+
+export function globToRegExp(glob: string) {
+  return new RegExp(`^${glob.split("*").map(p => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`, "i");
+}
+
+function isBlank(v: any) {
+  return v === undefined || v === null || String(v).trim() === "";
+}
+
+function applyFilter(v: any, f: Filter) {
+  const s = v === undefined || v === null ? "" : String(v);
+  switch (f.name) {
+    case "trim": return s.trim();
+    case "upper": return s.toUpperCase();
+    case "lower": return s.toLowerCase();
+    case "truncate": { const n = Number(f.arg); return s.length > n ? `${s.slice(0, n)}…` : s; }
+    case "default": return isBlank(v) ? f.arg ?? "" : s;
+    case "json": return JSON.stringify(s);
+    case "escape": return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    default: return s;
+  }
+}
+
+interface Scope {
+  key: string;
+  value: any;
+  index: number;
+}
+
+function lookup(name: string, row: Record<string, any>, scope?: Scope) {
+  if (scope && name === "@key") return scope.key;
+  if (scope && name === "@value") return scope.value;
+  if (scope && name === "@index") return scope.index;
+  if (name === "json") return JSON.stringify(row);
+  return row[name];
+}
+
+function renderNodes(nodes: Node[], row: Record<string, any>, scope?: Scope): string {
+  let out = "";
+  for (const n of nodes) {
+    if (n.type === "text") out += n.value;
+    else if (n.type === "var") {
+      const v = n.filters.reduce<any>((acc, f) => applyFilter(acc, f), lookup(n.name, row, scope));
+      out += v != null ? String(v) : "";
+    } else if (n.type === "if") {
+      const truthy = !isBlank(lookup(n.name, row, scope));
+      out += renderNodes(truthy !== n.negate ? n.then : n.else, row, scope);
+    } else {
+      const re = globToRegExp(n.pattern);
+      Object.keys(row).filter(k => re.test(k)).forEach((key, i) => {
+        out += renderNodes(n.body, row, { key, value: row[key], index: i + 1 });
+      });
+    }
+  }
+  return out;
+}
+
+/** Renders `tpl` for one row; throws TemplateError on a syntax error. */
+export function renderTemplate(tpl: string, row: Record<string, any>) {
+  return renderNodes(parseTemplate(tpl), row);
+}
+
+/** Column names referenced by the template (outside of loop variables) && the loop patterns. */
+export function templateReferences(tpl: string) {
+  const names = new Set<string>();
+  const patterns = new Set<string>();
+  const walk = (nodes: Node[]) => {
+    for (const n of nodes) {
+      if (n.type === "var" || n.type === "if") { if (!n.name.startsWith("@")) names.add(n.name); }
+      if (n.type === "if") { walk(n.then); walk(n.else); }
+      if (n.type === "each") { patterns.add(n.pattern); walk(n.body); }
+    }
+  };
+  walk(parseTemplate(tpl));
+  return { names: Array.from(names), patterns: Array.from(patterns) };
+}
+
+export interface LintIssue {
+  level: "error" | "warning" | "info";
+  message: string;
+}
+
+function editDistance(a: string, b: string) {
+  const d = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = d[0];
+    d[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = d[j];
+      d[j] = Math.min(d[j] + 1, d[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return d[b.length];
+}
+
+function closestColumn(name: string, columns: string[]) {
+  const lower = name.toLowerCase().trim();
+  let best = "";
+  let bestD = Infinity;
+  for (const c of columns) {
+    const d = c.toLowerCase().trim() === lower ? 0 : editDistance(lower, c.toLowerCase());
+    if (d < bestD) { best = c; bestD = d; }
+  }
+  return bestD <= Math.max(2, Math.floor(name.length / 4)) ? best : "";
+}
+
+export interface LintOptions {
+  /** Names that are always available besides the columns (e.g. "submission"). */
+  builtins: string[];
+  /** Columns that exist but are withheld from prompts. */
+  hidden?: string[];
+  /** Renders the full prompt for a row, to measure its length. */
+  render: (row: Record<string, any>) => string;
+  countTokens: (s: string) => number;
+  maxTokens: number;
+}
+
+/** Flags unknown columns, blank values across rows && over-long rendered prompts. */
+export function lintTemplate(tpl: string, columns: string[], rows: Record<string, any>[], opts: LintOptions): LintIssue[] {
+  const issues: LintIssue[] = [];
+  let refs: { names: string[]; patterns: string[] };
+  try {
+    refs = templateReferences(tpl);
+  } catch (e: any) {
+    return [{ level: "error", message: e?.message || String(e) }];
+  }
+  const known = new Set([...columns, ...opts.builtins, "json"]);
+  for (const name of refs.names) {
+    if (known.has(name)) continue;
+    if (opts.hidden?.includes(name)) {
+      issues.push({ level: "error", message: `"${name}" is a calibration gold-label column and is withheld from prompts; it renders as an empty string.` });
+      continue;
+    }
+    const guess = closestColumn(name, columns);
+    issues.push({ level: "error", message: `Unknown column "${name}"${guess ? ` — did you mean "${guess}"?` : ""} It renders as an empty string.` });
+  }
+  for (const p of refs.patterns) {
+    const re = globToRegExp(p);
+    if (!columns.some(c => re.test(c))) issues.push({ level: "warning", message: `{{#each "${p}"}} matches no column.` });
+  }
+  if (!rows.length) return issues;
+  for (const name of refs.names.filter(n => columns.includes(n) || opts.builtins.includes(n))) {
+    if (name === "json") continue;
+    const blank = rows.filter(r => isBlank(r?.[name])).length;
+    if (blank === rows.length) issues.push({ level: "warning", message: `"${name}" is empty in all ${rows.length} rows.` });
+    else if (blank) issues.push({ level: "info", message: `"${name}" is empty in ${blank} of ${rows.length} rows.` });
+  }
+  let longest = 0;
+  let over = 0;
+  try {
+    for (const r of rows) {
+      const t = opts.countTokens(opts.render(r));
+      longest = Math.max(longest, t);
+      if (t > opts.maxTokens) over++;
+    }
+  } catch (e: any) {
+    issues.push({ level: "error", message: e?.message || String(e) });
+  }
+  if (over) issues.push({ level: "warning", message: `${over} row(s) render to more than ~${opts.maxTokens.toLocaleString()} tokens (longest ~${longest.toLocaleString()}).` });
+  return issues;
+}
@@ -0,0 +1,67 @@
+/**
+ * Fake OpenAI-compatible upstream for testing the proxy without a provider account
+ * - POST /v1/chat/completions answers like the offline mock provider (same prompt → same answer, schema-shaped
+ *   output for json_schema requests) && reports usage && x-ratelimit-* headers
+ * - With FAKE_UPSTREAM_KEY set, requests without "Authorization: Bearer <key>" get 401, so a test can tell
+ *   that the proxy, not the browser, supplies the key
+ * - --fail-every N answers every Nth request with 429 && Retry-After: 1
+ */
+import http from "node:http";
+import { PROVIDERS } from "../lib/providers";
+
+const USAGE = `Usage: node dist/server/fakeUpstream.js [--port 8788] [--fail-every N]`;
+
+function parseArgs(argv: string[]) {
+  const args = { port: 8788, failEvery: 0 };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--port") args.port = Number(argv[++i]);
+    else if (a === "--fail-every") args.failEvery = Number(argv[++i]);
+    else throw new Error(`Unknown option ${a}.\n\n${USAGE}`);
+  }
+  return args;
+}
+
+function main(argv: string[]) {
+  const args = parseArgs(argv);
+  const key = process.env.FAKE_UPSTREAM_KEY || "";
+  let requests = 0;
+  const send = (res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", async () => {
+      if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) { send(res, 404, { error: { message: "not found" } }); return; }
+      if (key && req.headers.authorization !== `Bearer ${key}`) { send(res, 401, { error: { message: "invalid api key" } }); return; }
+      requests++;
+      if (args.failEvery && requests % args.failEvery === 0) { send(res, 429, { error: { message: "rate limited" } }, { "Retry-After": "1" }); return; }
+      let body: any;
+      try { body = JSON.parse(Buffer.concat(chunks).toString("utf8")); } catch { send(res, 400, { error: { message: "invalid JSON" } }); return; }
+      const messages: any[] = Array.isArray(body?.messages) ? body.messages : [];
+      const schema = body?.response_format?.json_schema;
+      const result = await PROVIDERS.mock.chat({ apiKey: "" }, {
+        model: String(body?.model || ""),
+        systemPrompt: messages.find(m => m.role === "system")?.content,
+        userPrompt: String(messages.filter(m => m.role === "user").map(m => m.content).join("\n")),
+        ...(schema ? { responseSchema: { name: schema.name, schema: schema.schema } } : {}),
+      });
+      send(res, 200, {
+        id: `fake-${requests}`,
+        object: "chat.completion",
+        model: body?.model,
+        choices: [{ index: 0, message: { role: "assistant", content: result.content }, finish_reason: "stop" }],
+        usage: { ...result.usage, total_tokens: result.usage.prompt_tokens + result.usage.completion_tokens },
+      }, { "x-ratelimit-remaining-requests": "999", "x-ratelimit-remaining-tokens": "999999" });
+    });
+  });
+  server.listen(args.port, "127.0.0.1", () => process.stderr.write(`Fake upstream on http://127.0.0.1:${args.port}/v1${key ? " (key required)" : ""}\n`));
+  const stop = () => server.close(() => process.exit(0));
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main(process.argv.slice(2));
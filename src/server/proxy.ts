@@ -0,0 +1,374 @@
+/**
+ * Team proxy: the browser app && the CLI call this server instead of the provider APIs
+ * - Provider keys live here (environment variables or the config file) && never reach the browser
+ * - Users authenticate with a bearer token; the config stores its SHA-256, not the token
+ * - Per user: a model allow-list && daily request / token quotas (UTC days), restored from the log on restart
+ * - Every call is appended to a JSON Lines request log: time, user, model, upstream, status, tokens && duration
+ *   (never prompts or outputs)
+ * - Upstream calls go through the app's own provider layer (src/lib/providers.ts), so any provider works behind
+ *   the proxy, including a local fake upstream for testing (src/server/fakeUpstream.ts)
+ */
+import fs from "node:fs";
+import http from "node:http";
+import crypto from "node:crypto";
+import { ChatRequest, ProviderError, ProviderId, PROVIDERS, getProvider } from "../lib/providers";
+
+const USAGE = `Usage: npm run proxy -- --config <proxy.json> [--port N] [--host HOST]
+       npm run proxy -- --hash-token <token>
+
+  --config      Proxy config (JSON): upstreams, users, allowed origins, request log (see README)
+  --port        Port to listen on (default: config "port" or 8787)
+  --host        Interface to bind (default: config "host" or 127.0.0.1)
+  --hash-token  Print the SHA-256 of a user token for the config's "tokenSha256" and exit`;
+
+const MAX_BODY_BYTES = 2_000_000;
+
+class UsageError extends Error {}
+
+/** A refusal with its HTTP status, sent to the client as { error: { message, kind } }. */
+class HttpError extends Error {
+  status: number;
+  kind: string;
+
+  constructor(status: number, kind: string, message: string) {
+    super(message);
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+export interface Upstream {
+  providerId: ProviderId;
+  baseUrl?: string;
+  apiVersion?: string;
+  /** Environment variable holding the provider key (preferred over apiKey). */
+  keyEnv?: string;
+  apiKey?: string;
+  /** Models routed to this upstream; "*" && trailing-* prefixes allowed. */
+  models: string[];
+}
+
+export interface ProxyUser {
+  id: string;
+  tokenSha256: string;
+  /** Models the user may call; "*" && trailing-* prefixes allowed. */
+  models: string[];
+  /** 0 = unlimited. */
+  requestsPerDay: number;
+  tokensPerDay: number;
+}
+
+export interface ProxyConfig {
+  port: number;
+  host: string;
+  /** Origins allowed to call the proxy from a browser (CORS); [] = none, "*" = any. */
+  allowedOrigins: string[];
+  /** JSON Lines request log; "" = no log (quotas then restart at 0 with the server). */
+  log: string;
+  upstreams: Upstream[];
+  users: ProxyUser[];
+}
+
+export interface LogEntry {
+  time: string;
+  user: string;
+  model: string;
+  upstream?: string;
+  status: number;
+  promptTokens: number;
+  completionTokens: number;
+  ms: number;
+  error?: string;
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+export function matchesModel(patterns: string[], model: string) {
+  return patterns.some(p => p === "*" || p === model || (p.endsWith("*") && model.startsWith(p.slice(0, -1))));
+}
+
+function list(v: any): string[] {
+  return Array.isArray(v) ? v.map(String) : typeof v === "string" ? [v] : [];
+}
+
+export function normalizeProxyConfig(raw: any): ProxyConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new UsageError("The proxy config must be a JSON object.");
+  const upstreams: Upstream[] = (Array.isArray(raw.upstreams) ? raw.upstreams : []).map((u: any, i: number) => {
+    if (!u || !PROVIDERS[u.providerId as ProviderId] || u.providerId === "proxy") {
+      throw new UsageError(`upstreams[${i}]: unknown providerId "${u?.providerId}".`);
+    }
+    const provider = getProvider(u.providerId);
+    if (provider.needsBaseUrl && !u.baseUrl) throw new UsageError(`upstreams[${i}]: ${provider.label} needs a baseUrl.`);
+    const apiKey = u.keyEnv ? process.env[u.keyEnv] || "" : String(u.apiKey || "");
+    if (provider.needsKey && !apiKey) throw new UsageError(`upstreams[${i}]: set ${u.keyEnv || "keyEnv"} to the ${provider.label} API key.`);
+    return { providerId: u.providerId, baseUrl: u.baseUrl || provider.defaultBaseUrl, apiVersion: u.apiVersion, keyEnv: u.keyEnv, apiKey, models: list(u.models ?? "*") };
+  });
+  if (!upstreams.length) throw new UsageError("The proxy config needs at least one upstream.");
+  const ids = new Set<string>();
+  const users: ProxyUser[] = (Array.isArray(raw.users) ? raw.users : []).map((u: any, i: number) => {
+    const id = String(u?.id || "").trim();
+    if (!id) throw new UsageError(`users[${i}] needs an id.`);
+    if (ids.has(id)) throw new UsageError(`User "${id}" is listed twice.`);
+    ids.add(id);
+    // A plain "token" is accepted for local testing; hashed tokens keep the config safe to share with ops.
+    const tokenSha256 = String(u.tokenSha256 || (u.token ? hashToken(String(u.token)) : "")).toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(tokenSha256)) throw new UsageError(`User "${id}" needs a tokenSha256 (npm run proxy -- --hash-token <token>).`);
+    return { id, tokenSha256, models: list(u.models ?? "*"), requestsPerDay: Number(u.requestsPerDay) || 0, tokensPerDay: Number(u.tokensPerDay) || 0 };
+  });
+  if (!users.length) throw new UsageError("The proxy config needs at least one user.");
+  return {
+    port: Number(raw.port) || 8787,
+    host: String(raw.host || "127.0.0.1"),
+    allowedOrigins: list(raw.allowedOrigins),
+    log: raw.log === undefined ? "proxy-requests.jsonl" : String(raw.log || ""),
+    upstreams,
+    users,
+  };
+}
+
+function utcDay(time: string | number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Requests && tokens per user for the current UTC day; rebuilt from the log on start. */
+export class QuotaLedger {
+  private day = utcDay(Date.now());
+  private used = new Map<string, { requests: number; tokens: number }>();
+
+  private rollover(now: number) {
+    const day = utcDay(now);
+    if (day !== this.day) { this.day = day; this.used.clear(); }
+  }
+
+  usage(user: string, now = Date.now()) {
+    this.rollover(now);
+    return this.used.get(user) || { requests: 0, tokens: 0 };
+  }
+
+  add(user: string, requests: number, tokens: number, now = Date.now()) {
+    const u = this.usage(user, now);
+    this.used.set(user, { requests: u.requests + requests, tokens: u.tokens + tokens });
+  }
+
+  /** Refusal message when the user has used up a quota, else "". */
+  check(user: ProxyUser, now = Date.now()) {
+    const u = this.usage(user.id, now);
+    if (user.requestsPerDay && u.requests >= user.requestsPerDay) return `Daily request quota of ${user.requestsPerDay} used up; it resets at 00:00 UTC.`;
+    if (user.tokensPerDay && u.tokens >= user.tokensPerDay) return `Daily token quota of ${user.tokensPerDay} used up; it resets at 00:00 UTC.`;
+    return "";
+  }
+
+  restore(entries: LogEntry[], now = Date.now()) {
+    this.rollover(now);
+    for (const e of entries) {
+      if (utcDay(e.time) === this.day && e.upstream) this.add(e.user, 1, e.promptTokens + e.completionTokens, now);
+    }
+  }
+}
+
+export function readLog(path: string): LogEntry[] {
+  if (!path || !fs.existsSync(path)) return [];
+  return fs.readFileSync(path, "utf8").split(/\r?\n/).flatMap(line => {
+    try { return line.trim() ? [JSON.parse(line)] : []; } catch { return []; }
+  });
+}
+
+function authenticate(cfg: ProxyConfig, header: string | undefined) {
+  const m = /^Bearer\s+(.+)$/i.exec(header || "");
+  if (!m) throw new HttpError(401, "auth", "Missing bearer token.");
+  const hash = Buffer.from(hashToken(m[1].trim()), "hex");
+  const user = cfg.users.find(u => crypto.timingSafeEqual(Buffer.from(u.tokenSha256, "hex"), hash));
+  if (!user) throw new HttpError(401, "auth", "Unknown token.");
+  return user;
+}
+
+function readBody(req: http.IncomingMessage) {
+  return new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (c: Buffer) => {
+      size += c.length;
+      if (size <= MAX_BODY_BYTES) { chunks.push(c); return; }
+      // Later chunks are dropped, not buffered, && the request stays readable so the 413 can still be sent.
+      req.off("data", onData);
+      req.resume();
+      reject(new HttpError(413, "bad_request", `Request body over ${MAX_BODY_BYTES} bytes.`));
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+function chatRequest(body: string): ChatRequest {
+  let v: any;
+  try { v = JSON.parse(body); } catch { throw new HttpError(400, "bad_request", "The body is not valid JSON."); }
+  if (!v || typeof v.model !== "string" || !v.model || typeof v.userPrompt !== "string") {
+    throw new HttpError(400, "bad_request", "Expected { model, userPrompt, systemPrompt?, temperature?, responseSchema? }.");
+  }
+  return {
+    model: v.model,
+    userPrompt: v.userPrompt,
+    ...(typeof v.systemPrompt === "string" ? { systemPrompt: v.systemPrompt } : {}),
+    ...(Number.isFinite(v.temperature) ? { temperature: v.temperature } : {}),
+    ...(v.responseSchema && typeof v.responseSchema === "object" ? { responseSchema: v.responseSchema } : {}),
+    ...(Number.isInteger(v.sample) ? { sample: v.sample } : {}),
+  };
+}
+
+function upstreamLabel(u: Upstream) {
+  return u.baseUrl && u.providerId !== "openai" && u.providerId !== "anthropic" ? `${u.providerId} ${u.baseUrl}` : u.providerId;
+}
+
+export function createProxyServer(cfg: ProxyConfig, ledger = new QuotaLedger(), onLog: (e: LogEntry) => void = () => {}) {
+  const cors = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const origin = String(req.headers.origin || "");
+    if (origin && (cfg.allowedOrigins.includes("*") || cfg.allowedOrigins.includes(origin))) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Expose-Headers", "Retry-After, Retry-After-Ms");
+    }
+  };
+  const send = (res: http.ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  return http.createServer(async (req, res) => {
+    cors(req, res);
+    const url = new URL(req.url || "/", "http://proxy");
+    if (req.method === "OPTIONS") { res.writeHead(204); res.end(); return; }
+    if (req.method === "GET" && url.pathname === "/health") { send(res, 200, { ok: true }); return; }
+
+    const started = Date.now();
+    let user: ProxyUser | undefined;
+    let model = "";
+    let upstream: Upstream | undefined;
+    // A log that cannot be written is reported on stderr; it never changes the response.
+    const log = (status: number, promptTokens = 0, completionTokens = 0, error?: string) => {
+      try {
+        onLog({
+          time: new Date(started).toISOString(), user: user?.id || "", model,
+          ...(upstream ? { upstream: upstreamLabel(upstream) } : {}),
+          status, promptTokens, completionTokens, ms: Date.now() - started, ...(error ? { error } : {}),
+        });
+      } catch (e: any) {
+        process.stderr.write(`Request log failed: ${e?.message || e}\n`);
+      }
+    };
+    try {
+      user = authenticate(cfg, req.headers.authorization);
+      if (req.method === "GET" && url.pathname === "/v1/me") {
+        const routable = cfg.upstreams.flatMap(u => u.models);
+        send(res, 200, { user: user.id, models: user.models, routable, quota: { requestsPerDay: user.requestsPerDay, tokensPerDay: user.tokensPerDay }, usedToday: ledger.usage(user.id) });
+        return;
+      }
+      if (req.method !== "POST" || url.pathname !== "/v1/chat") throw new HttpError(404, "not_found", `No route ${req.method} ${url.pathname}.`);
+
+      const chat = chatRequest(await readBody(req));
+      model = chat.model;
+      if (!matchesModel(user.models, model)) throw new HttpError(403, "model_not_allowed", `Model "${model}" is not on the allow-list for ${user.id}.`);
+      const quota = ledger.check(user);
+      if (quota) throw new HttpError(403, "quota", quota);
+      upstream = cfg.upstreams.find(u => matchesModel(u.models, model));
+      if (!upstream) throw new HttpError(404, "not_found", `No upstream serves model "${model}".`);
+
+      const provider = getProvider(upstream.providerId);
+      const forwarded = provider.structured ? chat : { ...chat, responseSchema: undefined };
+      // The request is counted before the upstream call, so concurrent calls cannot all pass the quota check; it
+      // counts even when the upstream refuses it. Tokens are added once the answer is in.
+      ledger.add(user.id, 1, 0);
+      let result;
+      try {
+        result = await provider.chat({ apiKey: upstream.apiKey || "", baseUrl: upstream.baseUrl, apiVersion: upstream.apiVersion }, forwarded);
+      } catch (e: any) {
+        if (!(e instanceof ProviderError)) throw e;
+        // The upstream refusing the proxy's key or route is for the admin to fix: the client gets a 502 (not the
+        // 401 of a bad user token) && the upstream's reply stays in the log.
+        if (e.status === 401 || e.status === 403 || e.status === 404) {
+          log(502, 0, 0, e.message);
+          send(res, 502, { error: { message: `The upstream for "${model}" rejected the proxy's credentials or configuration; ask the proxy admin to check it.`, kind: "upstream" } });
+          return;
+        }
+        const status = e.status || 502;
+        const retry = e.rateLimit?.retryAfterMs;
+        log(status, 0, 0, e.message);
+        send(res, status, { error: { message: e.message, kind: e.kind } }, retry !== undefined ? { "Retry-After-Ms": String(Math.round(retry)) } : {});
+        return;
+      }
+      ledger.add(user.id, 0, result.usage.prompt_tokens + result.usage.completion_tokens);
+      log(200, result.usage.prompt_tokens, result.usage.completion_tokens);
+      send(res, 200, result);
+    } catch (e: any) {
+      const status = e instanceof HttpError ? e.status : 500;
+      const message = e?.message || String(e);
+      if (url.pathname === "/v1/chat") log(status, 0, 0, message);
+      // An oversized body is not read to the end; closing the connection stops the client from sending the rest.
+      send(res, status, { error: { message, kind: e instanceof HttpError ? e.kind : "server" } }, status === 413 ? { Connection: "close" } : {});
+    }
+  });
+}
+
+interface ProxyArgs {
+  config: string;
+  port?: number;
+  host?: string;
+  hashToken?: string;
+}
+
+function parseArgs(argv: string[]): ProxyArgs {
+  const args: ProxyArgs = { config: "" };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    const value = () => {
+      const v = argv[++i];
+      if (!v || v.startsWith("--")) throw new UsageError(`${a} needs a value.`);
+      return v;
+    };
+    if (a === "--config") args.config = value();
+    else if (a === "--port") args.port = Number(value());
+    else if (a === "--host") args.host = value();
+    else if (a === "--hash-token") args.hashToken = value();
+    else throw new UsageError(`Unknown option ${a}.`);
+  }
+  if (!args.config && !args.hashToken) throw new UsageError("--config is required.");
+  return args;
+}
+
+function readConfig(path: string) {
+  let raw: any;
+  try { raw = JSON.parse(fs.readFileSync(path, "utf8")); } catch (e: any) { throw new UsageError(`${path}: ${e?.message || e}`); }
+  return normalizeProxyConfig(raw);
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv);
+  if (args.hashToken) { process.stdout.write(`${hashToken(args.hashToken)}\n`); return; }
+  const cfg = readConfig(args.config);
+  const ledger = new QuotaLedger();
+  ledger.restore(readLog(cfg.log));
+  const server = createProxyServer(cfg, ledger, e => {
+    if (cfg.log) fs.appendFileSync(cfg.log, `${JSON.stringify(e)}\n`);
+    process.stderr.write(`${e.time} ${e.user || "-"} ${e.model || "-"} ${e.status} ${e.promptTokens + e.completionTokens} tok ${e.ms}ms${e.error ? ` ${e.error.slice(0, 200)}` : ""}\n`);
+  });
+  const port = args.port || cfg.port;
+  const host = args.host || cfg.host;
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  process.stderr.write(`Proxy on http://${host}:${port}: ${cfg.users.length} user(s), upstreams ${cfg.upstreams.map(upstreamLabel).join(", ")}${cfg.log ? `, log ${cfg.log}` : ""}\n`);
+  const stop = () => { process.stderr.write("Shutting down...\n"); server.close(() => process.exit(0)); };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main(process.argv.slice(2)).catch((e: any) => {
+  process.stderr.write(`${e?.message || e}\n`);
+  if (e instanceof UsageError) process.stderr.write(`\n${USAGE}\n`);
+  process.exitCode = 2;
+});